@@ -1,4 +1,5 @@
 // This is your new file: backend/src/agents/speechAgent.ts
+import { getVoiceCatalog } from "./voiceRoster.js";
 
 // This tells TypeScript what's in your 'env'
 export interface Env {
@@ -8,70 +9,79 @@ export interface Env {
     AI_GATEWAY_ID: string;
   }
 
-// Genre to Voice ID mapping based on genre characteristics
-const GENRE_VOICE_MAP: Record<string, string> = {
-  // Adventure: Warm, engaging narration for exciting journeys
-  adventure: "JBFqnCBsd6RMkjVDRZzb", // George - male, middle aged, British, warm, narration
-  
-  // Fantasy: Intense, character-driven voice for magical worlds
-  fantasy: "N2lVS1w4EtoT3dr4eOWO", // Callum - male, middle-aged, Transatlantic, intense, characters
-  
-  // SciFi: Authoritative, news-like voice for futuristic stories
-  scifi: "cjVigY5qzO86Huf0OWal", // Daniel - male, middle-aged, British, authoritative, news
-  
-  // Horror: Old, trustworthy narration for spooky tales
-  horror: "pqHfZKP75CvOlQylNhV4", // Bill - male, old, American, trustworthy, narration
-  
-  // Mystery: Old, trustworthy narration for detective stories
-  mystery: "pqHfZKP75CvOlQylNhV4", // Bill - male, old, American, trustworthy, narration
-  
-  // Romance: Soft, gentle voice for love stories
-  romance: "EXAVITQu4vr4xnSDxMaL", // Sarah - female, young, American, soft, news
-  
-  // Comedy: Expressive, energetic voice for funny stories
-  comedy: "9BWtsMINqrJLrRacOk9x", // Aria - female, middle-aged, American, expressive, social media
-  
-  // Drama: Friendly, warm narration for emotional stories
-  drama: "SAz9YHcvj6GT2YYXdXww", // Matilda - female, middle-aged, American, friendly, narration
-  
-  // Action: Intense, character-driven voice for fast-paced stories
-  action: "N2lVS1w4EtoT3dr4eOWO", // Callum - male, middle-aged, Transatlantic, intense, characters
-  
-  // Historical: British, warm narration for period stories
-  historical: "JBFqnCBsd6RMkjVDRZzb", // George - male, middle aged, British, warm, narration
-};
-
-// Default voice ID (used when genre is not specified or doesn't match)
-const DEFAULT_VOICE_ID = "JBFqnCBsd6RMkjVDRZzb"; // George - safe default for narration
+// ElevenLabs model behind every narration; part of the audio cache key
+export const SPEECH_MODEL_ID = "eleven_multilingual_v2";
 
 /**
- * Get voice ID based on genre
+ * Get voice ID based on genre: the first catalog voice listing it, else the catalog's
+ * default narrator
  * @param genre - The genre string (e.g., "adventure", "fantasy", "scifi", etc.)
  * @returns The corresponding voice ID or default if genre not found
  */
 function getVoiceIdForGenre(genre?: string): string {
-  if (!genre) {
-    return DEFAULT_VOICE_ID;
+  const catalog = getVoiceCatalog();
+  const normalizedGenre = genre?.toLowerCase().trim();
+  const voice = normalizedGenre ? catalog.voices.find(v => v.genres?.includes(normalizedGenre)) : undefined;
+  return voice?.id ?? catalog.defaultNarratorId;
+}
+
+/**
+ * Get voice ID for the story language, falling back to the genre voice.
+ * eleven_multilingual_v2 reads any language with any voice, but the genre voices carry an
+ * English accent; ELEVENLABS_VOICE_<LANG> (e.g. ELEVENLABS_VOICE_ES) names a native voice.
+ * @param genre - The genre string
+ * @param language - Story language code (e.g. "es"); English uses the genre voice
+ */
+export function getVoiceId(genre?: string, language?: string): string {
+  const code = language?.trim().toLowerCase();
+  if (code && code !== "en" && /^[a-z]{2}$/.test(code)) {
+    const override = process.env[`ELEVENLABS_VOICE_${code.toUpperCase()}`]?.trim();
+    if (override) {
+      return override;
+    }
   }
-  
-  const normalizedGenre = genre.toLowerCase().trim();
-  return GENRE_VOICE_MAP[normalizedGenre] || DEFAULT_VOICE_ID;
+  return getVoiceIdForGenre(genre);
+}
+
+// Text read just before and after a chunk of longer narration. ElevenLabs conditions the
+// chunk's prosody on it (request stitching), so joined chunks sound like one reading.
+export interface SpeechContext {
+  previousText?: string | undefined;
+  nextText?: string | undefined;
+}
+
+function contextFields(context: SpeechContext | undefined): { previous_text?: string; next_text?: string } {
+  return {
+    ...(context?.previousText ? { previous_text: context.previousText } : {}),
+    ...(context?.nextText ? { next_text: context.nextText } : {}),
+  };
 }
 
 // This is the function you will call from index.ts
-export async function generateSpeech(text: string, env: Env, genre?: string): Promise<Response> {
+// `voiceOverride` reads the text with a cast character's voice instead of the narrator's
+export async function generateSpeech(
+  text: string,
+  env: Env,
+  genre?: string,
+  language?: string,
+  voiceOverride?: string,
+  context?: SpeechContext,
+): Promise<Response> {
   console.debug("[speechAgent] generateSpeech called", {
     textLength: text?.length ?? 0,
     genre,
+    language,
+    voiceOverride,
   });
-  // Get the appropriate voice ID based on genre
-  const voiceId = getVoiceIdForGenre(genre);
+  // Get the appropriate voice ID based on language and genre
+  const voiceId = voiceOverride || getVoiceId(genre, language);
   
   const gatewayUrl = `https://gateway.ai.cloudflare.com/v1/${env.AI_GATEWAY_ACCOUNT_ID}/${env.AI_GATEWAY_ID}/elevenlabs/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`;
 
   const body = {
     text: text, // Use the text passed into the function
-    model_id: "eleven_multilingual_v2",
+    model_id: SPEECH_MODEL_ID,
+    ...contextFields(context),
   };
 
   const headers = {
@@ -133,4 +143,70 @@ export async function generateSpeech(text: string, env: Env, genre?: string): Pr
       headers: { 'Content-Type': 'text/plain' },
     });
   }
-}
\ No newline at end of file
+}
+
+// Per-character timing of spoken text, as returned by ElevenLabs
+export interface SpeechAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export type TimedSpeechResult =
+  | { ok: true; audio: Buffer; alignment: SpeechAlignment }
+  | { ok: false; status: number; error: string };
+
+// Same voice and model as generateSpeech, through the with-timestamps variant: MP3 plus
+// the time each character is spoken, for read-along highlighting
+export async function generateSpeechWithTimestamps(
+  text: string,
+  env: Env,
+  genre?: string,
+  language?: string,
+  voiceOverride?: string,
+  context?: SpeechContext,
+): Promise<TimedSpeechResult> {
+  const voiceId = voiceOverride || getVoiceId(genre, language);
+  const gatewayUrl = `https://gateway.ai.cloudflare.com/v1/${env.AI_GATEWAY_ACCOUNT_ID}/${env.AI_GATEWAY_ID}/elevenlabs/v1/text-to-speech/${voiceId}/with-timestamps?output_format=mp3_44100_128`;
+  console.debug("[speechAgent] generateSpeechWithTimestamps called", { textLength: text.length, voiceId });
+  try {
+    const response = await fetch(gatewayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'xi-api-key': env.ELEVENLABS_TOKEN,
+      },
+      body: JSON.stringify({ text, model_id: SPEECH_MODEL_ID, ...contextFields(context) }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("[speechAgent] ElevenLabs timestamps request failed", { status: response.status, errorText, voiceId });
+      return { ok: false, status: response.status || 500, error: `ElevenLabs API Error: ${errorText}` };
+    }
+    const json = (await response.json()) as { audio_base64?: unknown; alignment?: Partial<SpeechAlignment> | null };
+    const alignment = json.alignment;
+    if (
+      typeof json.audio_base64 !== "string" ||
+      !Array.isArray(alignment?.characters) ||
+      !Array.isArray(alignment?.character_start_times_seconds) ||
+      !Array.isArray(alignment?.character_end_times_seconds)
+    ) {
+      return { ok: false, status: 502, error: "ElevenLabs returned no audio or alignment." };
+    }
+    return {
+      ok: true,
+      audio: Buffer.from(json.audio_base64, "base64"),
+      alignment: {
+        characters: alignment.characters,
+        character_start_times_seconds: alignment.character_start_times_seconds,
+        character_end_times_seconds: alignment.character_end_times_seconds,
+      },
+    };
+  } catch (err) {
+    console.error("[speechAgent] generateSpeechWithTimestamps failed", {
+      voiceId,
+      errorMessage: err instanceof Error ? err.message : String(err),
+    });
+    return { ok: false, status: 500, error: "ElevenLabs API Request Failed" };
+  }
+}
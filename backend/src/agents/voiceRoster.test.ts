@@ -0,0 +1,35 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { getVoiceId } from "./speechAgents.js";
+import { getVoiceCatalog, parseVoiceCatalog } from "./voiceRoster.js";
+
+test("the bundled catalog keeps the genre narrators", () => {
+  const catalog = getVoiceCatalog();
+  assert.equal(catalog.voices.length, 16);
+  assert.equal(getVoiceId("Horror"), "pqHfZKP75CvOlQylNhV4");
+  assert.equal(getVoiceId("mystery"), "pqHfZKP75CvOlQylNhV4");
+  assert.equal(getVoiceId("fantasy"), "N2lVS1w4EtoT3dr4eOWO");
+  assert.equal(getVoiceId("western"), catalog.defaultNarratorId);
+  assert.equal(getVoiceId(), "JBFqnCBsd6RMkjVDRZzb");
+});
+
+test("catalog entries map labels and traits onto voice profiles", () => {
+  const catalog = parseVoiceCatalog({
+    defaultNarratorId: "missing",
+    voices: [
+      { id: "v1", label: "Nell", traits: { gender: "female", age: "old", accent: "Irish" }, genres: ["Folk", 3] },
+      { id: "v2", label: "Tom", traits: { gender: "male", age: "young", style: "bright" } },
+    ],
+  });
+  assert.equal(catalog.defaultNarratorId, "v1");
+  assert.deepEqual(catalog.voices, [
+    { id: "v1", name: "Nell", gender: "female", age: "old", accent: "irish", style: "", genres: ["folk"] },
+    { id: "v2", name: "Tom", gender: "male", age: "young", accent: "", style: "bright", genres: [] },
+  ]);
+});
+
+test("malformed catalogs are rejected with the bad entry", () => {
+  assert.throws(() => parseVoiceCatalog({ voices: [] }), /non-empty 'voices'/);
+  assert.throws(() => parseVoiceCatalog({ voices: [{ id: "v1", traits: { gender: "male", age: "old" } }] }), /entry 0 needs an 'id' and a 'label'/);
+  assert.throws(() => parseVoiceCatalog({ voices: [{ id: "v1", label: "A", traits: { gender: "male", age: "ancient" } }] }), /entry 0 \(v1\) needs traits.age/);
+});
@@ -0,0 +1,99 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Voices available for narration and casting characters, from the voice catalog
+export type VoiceGender = "male" | "female";
+export type VoiceAge = "young" | "middle-aged" | "old";
+
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  gender: VoiceGender;
+  age: VoiceAge;
+  accent: string; // lowercase, e.g. "british", "american"
+  style: string;
+  // Genres this voice narrates unless the reader picks another (lowercase)
+  genres?: string[];
+}
+
+export interface VoiceCatalog {
+  // Narrator for genres no voice lists
+  defaultNarratorId: string;
+  voices: VoiceProfile[];
+}
+
+// ElevenLabs premade voices, shipped with the backend
+const BUNDLED_CATALOG = fileURLToPath(new URL("../config/voices.json", import.meta.url));
+
+/**
+ * Validates a catalog file: `{ defaultNarratorId?, voices: Array<{ id, label, traits:
+ * { gender, age, accent?, style? }, genres? }> }`. Throws naming the first bad entry.
+ */
+export function parseVoiceCatalog(input: unknown): VoiceCatalog {
+  const raw = (input && typeof input === "object" ? input : {}) as { defaultNarratorId?: unknown; voices?: unknown };
+  if (!Array.isArray(raw.voices) || raw.voices.length === 0) {
+    throw new Error("Voice catalog needs a non-empty 'voices' array.");
+  }
+  const voices = raw.voices.map((entry, index): VoiceProfile => {
+    const item = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const traits = (item.traits && typeof item.traits === "object" ? item.traits : {}) as Record<string, unknown>;
+    if (typeof item.id !== "string" || !item.id.trim() || typeof item.label !== "string" || !item.label.trim()) {
+      throw new Error(`Voice catalog entry ${index} needs an 'id' and a 'label'.`);
+    }
+    if (traits.gender !== "male" && traits.gender !== "female") {
+      throw new Error(`Voice catalog entry ${index} (${item.id}) needs traits.gender "male" or "female".`);
+    }
+    if (traits.age !== "young" && traits.age !== "middle-aged" && traits.age !== "old") {
+      throw new Error(`Voice catalog entry ${index} (${item.id}) needs traits.age "young", "middle-aged" or "old".`);
+    }
+    const genres = Array.isArray(item.genres) ? item.genres.filter((g): g is string => typeof g === "string") : [];
+    return {
+      id: item.id.trim(),
+      name: item.label.trim(),
+      gender: traits.gender,
+      age: traits.age,
+      accent: typeof traits.accent === "string" ? traits.accent.trim().toLowerCase() : "",
+      style: typeof traits.style === "string" ? traits.style.trim() : "",
+      genres: genres.map(g => g.trim().toLowerCase()).filter(Boolean),
+    };
+  });
+  const [first] = voices;
+  const defaultNarratorId =
+    typeof raw.defaultNarratorId === "string" && voices.some(v => v.id === raw.defaultNarratorId)
+      ? raw.defaultNarratorId
+      : first!.id;
+  return { defaultNarratorId, voices };
+}
+
+export function loadVoiceCatalog(file: string): VoiceCatalog {
+  return parseVoiceCatalog(JSON.parse(readFileSync(file, "utf8")));
+}
+
+let catalog: VoiceCatalog | null = null;
+
+/**
+ * The catalog in VOICE_CATALOG_FILE, or the bundled one. Read on first use so the
+ * variable from `.env` is already loaded; a broken custom file falls back to the bundled
+ * catalog rather than silencing narration.
+ */
+export function getVoiceCatalog(): VoiceCatalog {
+  if (!catalog) {
+    const file = process.env.VOICE_CATALOG_FILE?.trim();
+    try {
+      catalog = loadVoiceCatalog(file ? path.resolve(file) : BUNDLED_CATALOG);
+    } catch (err) {
+      if (!file) throw err;
+      console.error("[voiceRoster] failed to load VOICE_CATALOG_FILE; using the bundled catalog", {
+        file,
+        err: err instanceof Error ? err.message : err,
+      });
+      catalog = loadVoiceCatalog(BUNDLED_CATALOG);
+    }
+  }
+  return catalog;
+}
+
+export function getVoiceProfile(id: string): VoiceProfile | undefined {
+  return getVoiceCatalog().voices.find(v => v.id === id);
+}
@@ -0,0 +1,70 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { applyCast, findMissingCastNames, normalizeCast } from "./castConfiguration.js";
+import type { StoryDefinition } from "../types/frontend.js";
+
+test("cast members need a name and a role, and names are unique", () => {
+  assert.deepEqual(normalizeCast(undefined), { ok: true, cast: [] });
+  assert.equal(normalizeCast({ name: "Mara" }).ok, false);
+  assert.equal(normalizeCast([{ name: "Mara" }]).ok, false);
+  assert.equal(normalizeCast([{ name: "Mara", role: "captain" }, { name: "mara", role: "pilot" }]).ok, false);
+  assert.equal(normalizeCast([{ name: "Mara", role: "captain", referenceImageUrl: "javascript:alert(1)" }]).ok, false);
+});
+
+test("only one protagonist and one antagonist can be pinned", () => {
+  const result = normalizeCast([
+    { name: "Mara", role: "captain", slot: "protagonist" },
+    { name: "Ilse", role: "navigator", slot: "protagonist" },
+  ]);
+  assert.equal(result.ok, false);
+});
+
+test("ids are derived from names and kept unique", () => {
+  const result = normalizeCast([
+    { name: "Zoë Vance", role: "thief" },
+    { id: "zoe-vance", name: "Zoe", role: "decoy" },
+  ]);
+  assert.ok(result.ok);
+  assert.deepEqual(result.cast.map(m => m.id), ["zoe-vance", "zoe-vance-2"]);
+});
+
+test("supplied characters replace the generated ones verbatim and keep invented ones", () => {
+  const definition = {
+    protagonist: { id: "mara", name: "Mara Quill", role: "reluctant hero", description: "model text", backstory: "Grew up on the docks." },
+    antagonist: { id: "vex", name: "Vex", role: "tyrant" },
+    supportingCast: [{ id: "old-tom", name: "Old Tom", role: "mentor" }],
+  } as StoryDefinition;
+  const result = normalizeCast([{ name: "Mara Quill", role: "smuggler captain", description: "Scarred and loyal.", slot: "protagonist" }]);
+  assert.ok(result.ok);
+
+  const merged = applyCast(definition, result.cast);
+  assert.equal(merged.protagonist.role, "smuggler captain");
+  assert.equal(merged.protagonist.description, "Scarred and loyal.");
+  assert.equal(merged.protagonist.backstory, "Grew up on the docks.");
+  assert.equal(merged.antagonist?.name, "Vex");
+  assert.deepEqual(merged.supportingCast?.map(c => c.name), ["Old Tom"]);
+});
+
+test("names missing from the prose are reported; a first name is enough", () => {
+  const definition = { overview: "Mara races the storm.", plot: "Her crew mutinies." } as StoryDefinition;
+  const result = normalizeCast([
+    { name: "Mara Quill", role: "captain" },
+    { name: "Ilse", role: "navigator" },
+  ]);
+  assert.ok(result.ok);
+  assert.deepEqual(findMissingCastNames(definition, result.cast), ["Ilse"]);
+});
+
+test("a supplied member the model made protagonist appears only once", () => {
+  const definition = {
+    protagonist: { id: "tam", name: "Tam", role: "ferryman" },
+    antagonist: { id: "vex", name: "Vex", role: "tyrant" },
+    supportingCast: [{ id: "old-tom", name: "Old Tom", role: "mentor" }],
+  } as StoryDefinition;
+  const result = normalizeCast([{ name: "Tam", role: "ferryman", slot: "supporting" }]);
+  assert.ok(result.ok);
+
+  const merged = applyCast(definition, result.cast);
+  const names = [merged.protagonist?.name, merged.antagonist?.name, ...(merged.supportingCast ?? []).map(c => c.name)];
+  assert.deepEqual(names, ["Tam", "Vex", "Old Tom"]);
+});
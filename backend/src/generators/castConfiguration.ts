@@ -0,0 +1,191 @@
+import { sanitizeReaderField } from "./playerInput.js";
+import type { CastMember, Character, StoryDefinition } from "../types/frontend.js";
+
+const MAX_CAST = 8;
+const FIELD_LIMITS = { name: 60, role: 80, description: 400, motivation: 240 } as const;
+const MAX_IMAGE_URL_CHARS = 2048;
+
+type CastSlot = NonNullable<CastMember["slot"]>;
+
+export type CastResult = { ok: true; cast: CastMember[] } | { ok: false; error: string };
+
+/**
+ * Validates a user-supplied cast: every member needs a name and a role, names are
+ * unique, at most one protagonist and one antagonist are pinned, and text fields get
+ * the same cleaning as other reader input. Ids are derived from names when missing.
+ */
+export function normalizeCast(input: unknown): CastResult {
+  if (input === undefined || input === null) return { ok: true, cast: [] };
+  if (!Array.isArray(input)) return { ok: false, error: "cast must be an array of characters." };
+  if (input.length > MAX_CAST) return { ok: false, error: `cast can list at most ${MAX_CAST} characters.` };
+
+  const cast: CastMember[] = [];
+  const names = new Set<string>();
+  const ids = new Set<string>();
+  const pinned = new Set<CastSlot>();
+  for (const [index, item] of input.entries()) {
+    const raw = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const label = `Cast member ${index + 1}`;
+    const fields: Partial<Record<keyof typeof FIELD_LIMITS, string>> = {};
+    for (const field of Object.keys(FIELD_LIMITS) as (keyof typeof FIELD_LIMITS)[]) {
+      const checked = sanitizeReaderField(raw[field], `${label}'s ${field}`, FIELD_LIMITS[field]);
+      if (!checked.ok) return { ok: false, error: checked.error };
+      if (checked.text) fields[field] = checked.text;
+    }
+    if (!fields.name || !fields.role) return { ok: false, error: `${label} needs a name and a role.` };
+
+    const nameKey = fields.name.toLowerCase();
+    if (names.has(nameKey)) return { ok: false, error: `${fields.name} is listed twice in the cast.` };
+    names.add(nameKey);
+
+    const member: CastMember = { id: uniqueId(toKebab(raw.id) || toKebab(fields.name) || `cast-${index + 1}`, ids), name: fields.name, role: fields.role };
+    if (fields.description) member.description = fields.description;
+    if (fields.motivation) member.motivation = fields.motivation;
+
+    if (raw.slot !== undefined && raw.slot !== null && raw.slot !== "") {
+      if (raw.slot !== "protagonist" && raw.slot !== "antagonist" && raw.slot !== "supporting") {
+        return { ok: false, error: `${label}'s slot must be protagonist, antagonist or supporting.` };
+      }
+      if (raw.slot !== "supporting" && pinned.has(raw.slot)) {
+        return { ok: false, error: `Only one cast member can be the ${raw.slot}.` };
+      }
+      pinned.add(raw.slot);
+      member.slot = raw.slot;
+    }
+
+    if (raw.referenceImageUrl !== undefined && raw.referenceImageUrl !== null && raw.referenceImageUrl !== "") {
+      if (!isHttpUrl(raw.referenceImageUrl)) {
+        return { ok: false, error: `${label}'s referenceImageUrl must be an http(s) URL.` };
+      }
+      member.referenceImageUrl = raw.referenceImageUrl;
+    }
+    cast.push(member);
+  }
+  return { ok: true, cast };
+}
+
+/**
+ * Prompt section asking the model to build the story around the supplied cast.
+ */
+export function buildCastGuidance(cast: CastMember[]): string[] {
+  if (cast.length === 0) return [];
+  return [
+    "Supplied Cast (STRICT):",
+    "- `configuration.cast` lists characters supplied by the user. Use every one of them, keeping name, role, description and motivation exactly as given.",
+    "- A member's `slot` says where it goes (protagonist, antagonist or supportingCast); place members without a slot where they fit best.",
+    "- Invent only what is missing: an antagonist or supporting characters the story needs, and backstory for supplied characters.",
+    "- Every supplied character must be named in the overview or plot and matter to the conflict.",
+  ];
+}
+
+/**
+ * Puts the supplied cast into a generated definition verbatim. Fields the user left
+ * empty are filled from the model's character of the same name; invented characters
+ * are kept around them.
+ */
+export function applyCast(definition: StoryDefinition, cast: CastMember[]): StoryDefinition {
+  if (cast.length === 0) return definition;
+  const generated: { character: Character; slot: CastSlot }[] = [
+    ...(definition.protagonist ? [{ character: definition.protagonist, slot: "protagonist" as const }] : []),
+    ...(definition.antagonist ? [{ character: definition.antagonist, slot: "antagonist" as const }] : []),
+    ...(definition.supportingCast ?? []).map(character => ({ character, slot: "supporting" as const })),
+  ];
+  const matchOf = (member: CastMember) =>
+    generated.find(g => sameName(g.character.name, member.name) || (member.id !== undefined && g.character.id === member.id));
+
+  const placed = cast.map(member => {
+    const match = matchOf(member);
+    return { slot: member.slot ?? match?.slot ?? "supporting", character: toCharacter(member, match?.character) };
+  });
+  const isSupplied = (c: Character) => cast.some(m => sameName(m.name, c.name) || m.id === c.id);
+  // A story needs its protagonist: when the model gave the role to a member pinned elsewhere
+  // and no one is pinned to it, that member stays the protagonist and leaves the other slot
+  const lead = definition.protagonist;
+  if (lead && isSupplied(lead) && !placed.some(p => p.slot === "protagonist")) {
+    const member = placed.find(p => sameName(lead.name, p.character.name) || p.character.id === lead.id);
+    if (member) member.slot = "protagonist";
+  }
+  const pick = (slot: CastSlot, fallback: Character | undefined) =>
+    placed.find(p => p.slot === slot)?.character ?? (fallback && !isSupplied(fallback) ? fallback : undefined);
+
+  const out: StoryDefinition = { ...definition };
+  const protagonist = pick("protagonist", definition.protagonist);
+  if (protagonist) out.protagonist = protagonist;
+  const antagonist = pick("antagonist", definition.antagonist);
+  if (antagonist) out.antagonist = antagonist;
+  else delete out.antagonist;
+  out.supportingCast = [
+    ...placed.filter(p => p.slot === "supporting").map(p => p.character),
+    ...(definition.supportingCast ?? []).filter(c => !isSupplied(c)),
+  ];
+  return out;
+}
+
+/**
+ * Supplied characters whose name (or first name) never appears in the story's prose.
+ */
+export function findMissingCastNames(definition: StoryDefinition, cast: CastMember[]): string[] {
+  const prose = [definition.overview, definition.plot, definition.conflict, definition.resolution, definition.startHook]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return cast
+    .filter(member => {
+      const full = member.name.toLowerCase();
+      const first = full.split(/\s+/)[0] ?? full;
+      return !containsWord(prose, full) && !(first.length >= 3 && containsWord(prose, first));
+    })
+    .map(member => member.name);
+}
+
+export function buildCastRetryNote(missing: string[]): string {
+  return [
+    `IMPORTANT: Your previous draft left out ${missing.join(", ")} from the story.`,
+    "Every supplied cast member must be named in the overview or plot and take part in the conflict. Keep the same JSON shape.",
+  ].join("\n");
+}
+
+function toCharacter(member: CastMember, generated: Character | undefined): Character {
+  const character: Character = { ...generated, id: member.id ?? generated?.id ?? toKebab(member.name), name: member.name, role: member.role };
+  if (member.description) character.description = member.description;
+  if (member.motivation) character.motivation = member.motivation;
+  if (member.referenceImageUrl) character.referenceImageUrl = member.referenceImageUrl;
+  return character;
+}
+
+function sameName(a: string | undefined, b: string): boolean {
+  return (a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function containsWord(haystack: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "u").test(haystack);
+}
+
+function toKebab(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string" || value.length > MAX_IMAGE_URL_CHARS) return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
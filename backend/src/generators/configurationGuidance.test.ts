@@ -0,0 +1,34 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { checkReadingLevel, pickAudienceFields, resolveAudienceSettings } from "./configurationGuidance.js";
+
+test("missing controls keep the previous adult, close-third, present-tense defaults", () => {
+  assert.deepEqual(resolveAudienceSettings(null), {
+    audience: "adult",
+    contentRating: "PG-13",
+    readingLevel: "advanced",
+    pov: "third-limited",
+    tense: "present",
+  });
+});
+
+test("the content rating is capped by the audience", () => {
+  const kids = resolveAudienceSettings({ audience: "children", contentRating: "R" });
+  assert.equal(kids.contentRating, "G");
+  assert.equal(kids.readingLevel, "early");
+  assert.equal(resolveAudienceSettings({ audience: "young-adult", contentRating: "PG" }).contentRating, "PG");
+  assert.equal(resolveAudienceSettings({ audience: "adult", contentRating: "R" }).contentRating, "R");
+});
+
+test("unknown values are ignored", () => {
+  assert.deepEqual(pickAudienceFields({ audience: "toddlers", contentRating: "NC-17", pov: "first", tense: "future" }), { pov: "first" });
+});
+
+test("reading level checks use the grade ceiling; advanced is unchecked", () => {
+  const dense =
+    "Notwithstanding considerable institutional resistance, the archivist meticulously reconstructed the incriminating correspondence.";
+  assert.equal(checkReadingLevel(dense, "early").ok, false);
+  assert.equal(checkReadingLevel(dense, "advanced").ok, true);
+  assert.equal(checkReadingLevel("The dog ran. It was fun.", "early").ok, true);
+  assert.equal(checkReadingLevel(dense, "early", "fr").ok, true);
+});
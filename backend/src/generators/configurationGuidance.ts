@@ -0,0 +1,161 @@
+import { scoreReadability } from "../utils/readability.js";
+import type {
+  ContentRating,
+  NarrativePov,
+  NarrativeTense,
+  ReadingLevel,
+  StoryAudience,
+  StoryConfiguration,
+  StoryLanguage,
+} from "../types/frontend.js";
+
+/**
+ * Audience controls with defaults filled in and the content rating capped for the age band.
+ */
+export interface AudienceSettings {
+  audience: StoryAudience;
+  contentRating: ContentRating;
+  readingLevel: ReadingLevel;
+  pov: NarrativePov;
+  tense: NarrativeTense;
+}
+
+export interface ReadingLevelCheck {
+  ok: boolean;
+  grade: number;
+  maxGrade: number | null;
+}
+
+const AUDIENCES: Record<StoryAudience, { label: string; maxRating: ContentRating; readingLevel: ReadingLevel }> = {
+  children: { label: "young children (ages 5–8)", maxRating: "G", readingLevel: "early" },
+  "middle-grade": { label: "middle-grade readers (ages 8–12)", maxRating: "PG", readingLevel: "elementary" },
+  "young-adult": { label: "teens (ages 13–17)", maxRating: "PG-13", readingLevel: "intermediate" },
+  adult: { label: "adults", maxRating: "R", readingLevel: "advanced" },
+};
+
+const RATINGS: ContentRating[] = ["G", "PG", "PG-13", "R"];
+
+const RATING_RULES: Record<ContentRating, string> = {
+  G: "mild peril only; no injuries shown, no death on the page, no romance beyond friendship, no profanity; spooky at most, never frightening.",
+  PG: "mild peril and non-graphic action; no blood or gore, no profanity; crushes at most; scary moments resolve reassuringly.",
+  "PG-13": "action violence without graphic gore; rare mild profanity; romance without sexual content; dark themes handled with restraint.",
+  R: "mature themes, strong violence and horror are allowed when the story calls for them; no explicit sexual content and no gore for its own sake.",
+};
+
+// maxGrade is the Flesch-Kincaid ceiling checked after generation; null means unchecked
+const READING_LEVELS: Record<ReadingLevel, { label: string; rules: string; maxGrade: number | null }> = {
+  early: {
+    label: "early reader",
+    rules: "very short sentences (5–10 words), common one- and two-syllable words, one idea per sentence.",
+    maxGrade: 3,
+  },
+  elementary: {
+    label: "elementary",
+    rules: "short sentences (8–14 words), everyday vocabulary; explain any unusual word through context.",
+    maxGrade: 5,
+  },
+  intermediate: {
+    label: "intermediate",
+    rules: "varied but clear sentences (up to ~20 words); richer vocabulary used sparingly.",
+    maxGrade: 8,
+  },
+  advanced: {
+    label: "advanced",
+    rules: "full literary range; complex sentences are fine when they stay clear.",
+    maxGrade: null,
+  },
+};
+
+const POVS: Record<NarrativePov, string> = {
+  first: "first person ('I'), narrated by the protagonist",
+  second: "second person ('you'); the reader is the protagonist",
+  "third-limited": "close third person, staying inside the protagonist's head",
+  "third-omniscient": "third person omniscient; the narrator may see into any character",
+};
+
+// Grades above the ceiling tolerated before a rewrite; short pages score noisily
+const READING_GRADE_TOLERANCE = 1.5;
+
+/**
+ * Resolves the audience controls of a configuration. Missing or unknown values fall
+ * back to an adult, PG-13, close-third, present-tense story (the engine's previous
+ * behaviour); the rating is capped at the audience's maximum and the reading level
+ * defaults to the audience's.
+ */
+export function resolveAudienceSettings(configuration?: Partial<StoryConfiguration> | null): AudienceSettings {
+  const picked = pickAudienceFields(configuration);
+  const audience = picked.audience ?? "adult";
+  const band = AUDIENCES[audience];
+  const requested = picked.contentRating ?? (audience === "adult" ? "PG-13" : band.maxRating);
+  const contentRating = RATINGS[Math.min(RATINGS.indexOf(requested), RATINGS.indexOf(band.maxRating))]!;
+  return {
+    audience,
+    contentRating,
+    readingLevel: picked.readingLevel ?? band.readingLevel,
+    pov: picked.pov ?? "third-limited",
+    tense: picked.tense ?? "present",
+  };
+}
+
+/**
+ * Only the audience fields of `input` that hold a known value.
+ */
+export function pickAudienceFields(input: unknown): Partial<AudienceSettings> {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const out: Partial<AudienceSettings> = {};
+  if (isKeyOf(AUDIENCES, raw.audience)) out.audience = raw.audience;
+  if (isKeyOf(RATING_RULES, raw.contentRating)) out.contentRating = raw.contentRating;
+  if (isKeyOf(READING_LEVELS, raw.readingLevel)) out.readingLevel = raw.readingLevel;
+  if (isKeyOf(POVS, raw.pov)) out.pov = raw.pov;
+  if (raw.tense === "past" || raw.tense === "present") out.tense = raw.tense;
+  return out;
+}
+
+/**
+ * Prompt section enforcing the audience controls. `narration` adds the POV/tense rules,
+ * which apply to story prose but not to a back-cover blurb.
+ */
+export function buildAudienceGuidance(settings: AudienceSettings, options: { narration: boolean }): string[] {
+  const level = READING_LEVELS[settings.readingLevel];
+  return [
+    "Audience & Content (STRICT):",
+    `- Written for ${AUDIENCES[settings.audience].label}.`,
+    `- Content rating ${settings.contentRating}: ${RATING_RULES[settings.contentRating]}`,
+    "- If the premise or a reader's choice pushes past the rating, keep it off the page or soften it in-world.",
+    `- Reading level ${level.label}: ${level.rules}`,
+    ...(options.narration
+      ? [`- Narrate in ${POVS[settings.pov]}, ${settings.tense} tense. Never switch POV or tense.`]
+      : []),
+  ];
+}
+
+/**
+ * What a content rating allows, in the wording the prompts use.
+ */
+export function describeContentRating(rating: ContentRating): string {
+  return RATING_RULES[rating];
+}
+
+/**
+ * Scores `text` against the reading level's grade ceiling (with tolerance). The score is
+ * calibrated for English, so other languages rely on the prompt alone and always pass.
+ */
+export function checkReadingLevel(text: string, level: ReadingLevel, language: StoryLanguage = "en"): ReadingLevelCheck {
+  const maxGrade = language === "en" ? READING_LEVELS[level].maxGrade : null;
+  const { grade } = scoreReadability(text);
+  return { ok: maxGrade === null || grade <= maxGrade + READING_GRADE_TOLERANCE, grade, maxGrade };
+}
+
+/**
+ * Instruction appended to a prompt when the first draft read above the configured level.
+ */
+export function buildReadabilityRetryNote(check: ReadingLevelCheck): string {
+  return [
+    `IMPORTANT: Your previous draft read at grade ${check.grade}; the limit is grade ${check.maxGrade}.`,
+    "Rewrite with shorter sentences and simpler, more common words. Keep the same events and JSON shape.",
+  ].join("\n");
+}
+
+function isKeyOf<T extends object>(record: T, value: unknown): value is keyof T {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(record, value);
+}
@@ -0,0 +1,65 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { collectSpeakers, normalizeSegments, readerProse, segmentsMatchText } from "./dialogueSegments.js";
+import type { StoryDefinition } from "../types/frontend.js";
+
+const speakers = collectSpeakers({
+  protagonist: { id: "mara", name: "Mara Quill", role: "diver" },
+  antagonist: { id: "ossian", name: "Ossian", role: "bell-keeper" },
+} as StoryDefinition);
+
+test("dialogue keeps known speakers and strips quote marks", () => {
+  const segments = normalizeSegments(
+    [
+      { type: "narration", text: "The bell tolled." },
+      { type: "dialogue", text: "“Who rings it?”", speakerId: "mara" },
+      { type: "narration", text: "Ossian smiled." },
+    ],
+    speakers,
+  );
+  assert.deepEqual(segments, [
+    { type: "narration", text: "The bell tolled." },
+    { type: "dialogue", text: "Who rings it?", speakerId: "mara" },
+    { type: "narration", text: "Ossian smiled." },
+  ]);
+});
+
+test("a speaker named instead of referenced by id is resolved", () => {
+  const segments = normalizeSegments([{ type: "dialogue", text: "Leave.", speakerId: "ossian" }, { type: "dialogue", text: "Never.", speakerId: "Mara Quill" }], speakers);
+  assert.deepEqual(segments?.map(s => s.type === "dialogue" && s.speakerId), ["ossian", "mara"]);
+});
+
+test("speech by characters outside the definition becomes narration", () => {
+  const segments = normalizeSegments(
+    [
+      { type: "narration", text: "A guard shouted." },
+      { type: "dialogue", text: "Halt!", speakerId: "guard" },
+      { type: "dialogue", text: "Run.", speakerId: "mara" },
+    ],
+    speakers,
+  );
+  assert.deepEqual(segments, [
+    { type: "narration", text: "A guard shouted. Halt!" },
+    { type: "dialogue", text: "Run.", speakerId: "mara" },
+  ]);
+});
+
+test("pages without attributed speech carry no segments", () => {
+  assert.equal(normalizeSegments([{ type: "narration", text: "Silence." }], speakers), undefined);
+  assert.equal(normalizeSegments("not an array", speakers), undefined);
+});
+
+test("segments must read the same words as the page text", () => {
+  const segments = normalizeSegments(
+    [
+      { type: "narration", text: "Mara whispered," },
+      { type: "dialogue", text: "“Who rings it?”", speakerId: "mara" },
+    ],
+    speakers,
+  )!;
+  assert.equal(segmentsMatchText(segments, 'Mara whispered, "Who rings it?"'), true);
+  // Clean text over different segments: what the reader would see and hear was never checked
+  assert.equal(segmentsMatchText(segments, "Mara whispered, \"Good night.\""), false);
+  assert.equal(readerProse({ text: "ignored", segments }), "Mara whispered, Who rings it?");
+  assert.equal(readerProse({ text: "Silence." }), "Silence.");
+});
@@ -0,0 +1,86 @@
+import type { Character, StoryDefinition, StoryPage, StorySegment } from "../types/frontend.js";
+
+const MAX_SEGMENTS = 40;
+// Quote marks the model may leave around spoken words
+const QUOTES = /^[\s"“”„«»'‘’‹›]+|[\s"“”„«»'‘’‹›]+$/g;
+
+/**
+ * Characters that can speak on a page, keyed by id, from the StoryDefinition.
+ */
+export function collectSpeakers(definition: StoryDefinition | null | undefined): Map<string, Character> {
+  const speakers = new Map<string, Character>();
+  const characters = [definition?.protagonist, definition?.antagonist, ...(definition?.supportingCast ?? [])];
+  for (const character of characters) {
+    if (character && typeof character.id === "string" && character.id.trim()) speakers.set(character.id.trim(), character);
+  }
+  return speakers;
+}
+
+/**
+ * Validates model-written segments. Dialogue must name a speaker from the definition,
+ * by id or (a common slip) by name; speech of anyone else is kept as narration.
+ * Adjacent narration is merged. Returns undefined when nothing is attributed, since
+ * the page text alone then says everything.
+ */
+export function normalizeSegments(input: unknown, speakers: Map<string, Character>): StorySegment[] | undefined {
+  if (!Array.isArray(input) || speakers.size === 0) return undefined;
+  const byName = new Map<string, string>();
+  for (const [id, character] of speakers) {
+    if (character.name) byName.set(character.name.trim().toLowerCase(), id);
+  }
+
+  const segments: StorySegment[] = [];
+  for (const raw of input.slice(0, MAX_SEGMENTS)) {
+    const item = (raw && typeof raw === "object" ? raw : {}) as { type?: unknown; text?: unknown; speakerId?: unknown };
+    const text = typeof item.text === "string" ? item.text.trim() : "";
+    if (!text) continue;
+
+    let segment: StorySegment = { type: "narration", text };
+    if (item.type === "dialogue" && typeof item.speakerId === "string") {
+      const key = item.speakerId.trim();
+      const speakerId = speakers.has(key) ? key : byName.get(key.toLowerCase());
+      const spoken = text.replace(QUOTES, "");
+      if (speakerId && spoken) segment = { type: "dialogue", text: spoken, speakerId };
+    }
+
+    const previous = segments[segments.length - 1];
+    if (segment.type === "narration" && previous?.type === "narration") {
+      previous.text = `${previous.text} ${segment.text}`;
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.some(s => s.type === "dialogue") ? segments : undefined;
+}
+
+// Letters and digits only: dialogue loses its quote marks, and joins may differ in spacing
+function proseKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+/**
+ * Whether segments read the same words as the page text. Readers see and hear the
+ * segments while moderation and reading-level checks read the text, so segments
+ * saying anything else must not be kept.
+ */
+export function segmentsMatchText(segments: StorySegment[], text: string): boolean {
+  return proseKey(segments.map(s => s.text).join(" ")) === proseKey(text);
+}
+
+// The prose a reader sees and hears: the segments when the page has them, else the text
+export function readerProse(page: Pick<StoryPage, "text" | "segments">): string {
+  return page.segments?.length ? page.segments.map(s => s.text).join(" ") : page.text;
+}
+
+export function buildDialogueGuidance(speakers: Map<string, Character>): string[] {
+  if (speakers.size === 0) return [];
+  const roster = [...speakers].map(([id, c]) => `${id} (${c.name})`).join(", ");
+  return [
+    "Dialogue segments:",
+    "- Also return `segments`: the same prose as `text`, split in reading order into narration and dialogue.",
+    "- A dialogue segment holds only the spoken words (no quote marks, no \"she said\"); tags and actions go in narration.",
+    `- speakerId must be one of these Character ids: ${roster}.`,
+    "- Lines spoken by anyone else (a guard, a crowd) stay inside narration segments.",
+    "- Omit `segments` when nobody speaks on the page.",
+  ];
+}
@@ -0,0 +1,61 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { normalizeStoryGraph, validateStoryGraph } from "./graphGenerator.js";
+import type { StoryGraph } from "../types/frontend.js";
+
+const limits = { endingCount: 3, requiredEndings: 2, maxDepth: 5 };
+
+function edge(pageId: string) {
+  return { id: `to-${pageId}`, text: `Go to ${pageId}`, action: { type: "goToPage" as const, pageId } };
+}
+
+function ending(id: string, endingIndex: number) {
+  return { id, text: "The end.", endingIndex, options: [] };
+}
+
+// start → (a | b) → merge → (good | bad)
+function makeGraph(): StoryGraph {
+  return normalizeStoryGraph({
+    startPageId: "start",
+    nodes: [
+      { id: "start", text: "Opening.", options: [edge("a"), edge("b")] },
+      { id: "a", text: "Path A.", options: [edge("merge"), edge("good")] },
+      { id: "b", text: "Path B.", options: [edge("merge")] },
+      { id: "merge", text: "Paths meet.", options: [edge("good"), edge("bad")] },
+      ending("good", 0),
+      ending("bad", 2),
+    ],
+  });
+}
+
+test("a bounded graph with merge points validates", () => {
+  const graph = makeGraph();
+  assert.deepEqual(validateStoryGraph(graph, limits), []);
+  assert.deepEqual(graph.nodes.find(n => n.id === "good")?.options.map(o => o.text), ["Finish"]);
+});
+
+test("missing targets, dead ends and unreachable nodes are reported", () => {
+  const graph = makeGraph();
+  graph.nodes.find(n => n.id === "b")!.options = [edge("nowhere")];
+  graph.nodes.push({ id: "orphan", text: "Never seen.", options: [edge("good")] });
+  const issues = validateStoryGraph(graph, limits).join("\n");
+  assert.match(issues, /"b" points at missing page "nowhere"/);
+  assert.match(issues, /"b" is a dead end/);
+  assert.match(issues, /"orphan" is unreachable/);
+});
+
+test("loops, depth and ending coverage are enforced", () => {
+  const looped = makeGraph();
+  looped.nodes.find(n => n.id === "merge")!.options.push(edge("a"));
+  assert.match(validateStoryGraph(looped, limits).join("\n"), /loop/);
+
+  assert.match(validateStoryGraph(makeGraph(), { ...limits, maxDepth: 3 }).join("\n"), /Longest path is 4 pages/);
+
+  const oneEnding = makeGraph();
+  oneEnding.nodes.find(n => n.id === "bad")!.endingIndex = 0;
+  assert.match(validateStoryGraph(oneEnding, limits).join("\n"), /Only 1 distinct ending/);
+
+  const outOfRange = makeGraph();
+  outOfRange.nodes.find(n => n.id === "bad")!.endingIndex = 7;
+  assert.match(validateStoryGraph(outOfRange, limits).join("\n"), /endingIndex 7/);
+});
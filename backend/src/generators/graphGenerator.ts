@@ -0,0 +1,268 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { resolveNarrativeStructure } from "./narrativeStructures.js";
+import { buildAudienceGuidance, resolveAudienceSettings } from "./configurationGuidance.js";
+import { buildLanguageGuidance, getEnginePhrases, resolveStoryLanguage, type EnginePhrases } from "./languageGuidance.js";
+import type {
+  OptionObject,
+  StoryConfiguration,
+  StoryDefinition,
+  StoryGraph,
+  StoryGraphNode,
+} from "../types/frontend.js";
+
+const MAX_OPTIONS_PER_NODE = 3;
+
+export interface GraphBounds {
+  minNodes: number;
+  maxNodes: number;
+  // Longest start→ending path, in pages
+  maxDepth: number;
+  minEndings: number;
+  maxEndings: number;
+}
+
+/**
+ * Size limits for a whole-story graph. Depth mirrors the page policy of the
+ * stepwise flow so a single playthrough has the same length.
+ */
+export function resolveGraphBounds(configuration: Pick<StoryConfiguration, "length"> | null | undefined): GraphBounds {
+  switch (configuration?.length) {
+    case "small":
+      return { minNodes: 6, maxNodes: 10, maxDepth: 5, minEndings: 2, maxEndings: 2 };
+    case "long":
+      return { minNodes: 16, maxNodes: 26, maxDepth: 16, minEndings: 3, maxEndings: 4 };
+    case "medium":
+    default:
+      return { minNodes: 10, maxNodes: 16, maxDepth: 10, minEndings: 2, maxEndings: 3 };
+  }
+}
+
+/**
+ * Generates a bounded choice graph for the whole story, validates it and retries
+ * once with the validation issues when the first draft is broken.
+ */
+export async function generateStoryGraph(
+  definition: StoryDefinition,
+  configuration: StoryConfiguration | null,
+): Promise<StoryGraph> {
+  const bounds = resolveGraphBounds(configuration);
+  const endingCount = Array.isArray(definition?.endingOptions) ? definition.endingOptions.length : 0;
+  if (endingCount === 0) throw new Error("Story graph needs at least one ending option");
+  const requiredEndings = Math.min(bounds.minEndings, endingCount);
+  const structure = resolveNarrativeStructure(configuration?.narrativeStructure);
+  const arc = [structure.opening, ...structure.beats, structure.finale].map(b => b.title);
+  const language = resolveStoryLanguage(configuration);
+  const phrases = getEnginePhrases(language);
+  const instructions = [
+    "You are an interactive fiction engine that outputs strict JSON.",
+    "Write an ENTIRE branching story up front as a graph of pages, guided by the provided StoryDefinition.",
+    "",
+    "Return a JSON object EXACTLY matching this TypeScript shape:",
+    "",
+    "interface OptionObject {",
+    "  id: string;",
+    "  text: string;",
+    "  action: { type: 'goToPage'; pageId: string };",
+    "}",
+    "",
+    "interface StoryGraphNode {",
+    "  id: string;",
+    "  text: string;",
+    "  image?: { alt?: string; prompt?: string };",
+    "  options: OptionObject[];   // empty on ending nodes",
+    "  endingIndex?: number;      // ending nodes only: index into definition.endingOptions",
+    "}",
+    "",
+    "interface StoryGraph {",
+    "  startPageId: string;",
+    "  nodes: StoryGraphNode[];",
+    "}",
+    "",
+    "Graph Rules:",
+    `- Use between ${bounds.minNodes} and ${bounds.maxNodes} nodes in total.`,
+    `- Every path from startPageId to an ending is at most ${bounds.maxDepth} pages long.`,
+    `- Include ${requiredEndings}–${Math.max(requiredEndings, Math.min(bounds.maxEndings, endingCount || 1))} distinct endings, each based on a different definition.endingOptions entry.`,
+    "- Non-ending nodes offer 2–3 options; each option's pageId MUST be the id of another node in `nodes`.",
+    "- Keep the graph small with merge points: different choices may lead to the same later node, so write",
+    "  merge nodes so they read naturally whichever way the reader arrived.",
+    "- No loops: a page must never lead back to itself or to an earlier page.",
+    "- Every node must be reachable from startPageId, and every non-ending node must lead towards an ending.",
+    "- The start node opens the story using definition.startHook.",
+    "- Ending nodes conclude decisively; no cliffhangers.",
+    `- Pace every path as a ${structure.label}: ${arc.join(" → ")}.`,
+    ...structure.finaleRules.map(rule => `- Ending nodes: ${rule.replace(/^- /, "")}`),
+    "",
+    "Prose:",
+    "- Match the genre and tone of the definition; natural narrative prose, no lists or headings.",
+    configuration?.density === "short"
+      ? "- 1–2 sentences per page; options of 1–3 words."
+      : "- 1–2 short paragraphs per page separated by ONE blank line; concise options starting with a verb.",
+    "- Keep continuity along every path: only reference events every incoming path shares.",
+    "- For all ids, use short, unique, URL-safe ids (kebab-case).",
+    "- image.prompt: an optional single-scene illustration prompt, no text overlays; image.alt: a plain caption.",
+    "",
+    ...buildAudienceGuidance(resolveAudienceSettings(configuration), { narration: true }),
+    "",
+    ...buildLanguageGuidance(language, "node text, option text and image.alt"),
+    "",
+    "Output must be VALID JSON ONLY (no markdown, no prose outside JSON).",
+  ].join("\n");
+  const inputs = { definition, configuration: configuration ?? null, bounds };
+
+  const first = normalizeStoryGraph((await generateJsonFromInputs<StoryGraph>(inputs, instructions)).json, phrases);
+  const firstIssues = validateStoryGraph(first, { endingCount, requiredEndings, maxDepth: bounds.maxDepth });
+  if (firstIssues.length === 0) return first;
+
+  const retryInstructions = [
+    instructions,
+    "",
+    "Your previous graph was rejected for these reasons; fix all of them:",
+    ...firstIssues.map(issue => `- ${issue}`),
+  ].join("\n");
+  const second = normalizeStoryGraph((await generateJsonFromInputs<StoryGraph>(inputs, retryInstructions)).json, phrases);
+  const secondIssues = validateStoryGraph(second, { endingCount, requiredEndings, maxDepth: bounds.maxDepth });
+  if (secondIssues.length > 0) {
+    throw new Error(`Story graph failed validation: ${secondIssues.join("; ")}`);
+  }
+  return second;
+}
+
+/**
+ * Structural checks for a StoryGraph. Returns human-readable issues; empty means valid.
+ * - every edge targets an existing node and nothing loops back
+ * - every node is reachable from the start and non-ending nodes have an exit (no dead ends)
+ * - endings map to endingOptions, at least `requiredEndings` distinct ones are reachable
+ * - no path is longer than `maxDepth` pages
+ */
+export function validateStoryGraph(
+  graph: StoryGraph,
+  limits: { endingCount: number; requiredEndings: number; maxDepth: number },
+): string[] {
+  const issues: string[] = [];
+  const byId = new Map<string, StoryGraphNode>();
+  for (const node of graph.nodes) {
+    if (byId.has(node.id)) issues.push(`Duplicate node id "${node.id}".`);
+    byId.set(node.id, node);
+  }
+  if (!byId.has(graph.startPageId)) {
+    issues.push(`startPageId "${graph.startPageId}" is not a node.`);
+    return issues;
+  }
+
+  const edges = new Map<string, string[]>();
+  for (const node of graph.nodes) {
+    const targets = collectEdgeTargets(node.options);
+    for (const target of targets) {
+      if (!byId.has(target)) issues.push(`Node "${node.id}" points at missing page "${target}".`);
+    }
+    const validTargets = targets.filter(t => byId.has(t));
+    edges.set(node.id, validTargets);
+    if (isEndingNode(node)) {
+      if (node.endingIndex! >= limits.endingCount) {
+        issues.push(`Ending node "${node.id}" uses endingIndex ${node.endingIndex}, but only ${limits.endingCount} endingOptions exist.`);
+      }
+    } else if (validTargets.length === 0) {
+      issues.push(`Node "${node.id}" is a dead end: no option leads to an existing page and it is not an ending.`);
+    }
+  }
+
+  // Depth-first walk from the start: reachability, loops and longest path
+  const reachable = new Set<string>();
+  const onStack = new Set<string>();
+  const longest = new Map<string, number>();
+  const loops = new Set<string>();
+  const visit = (id: string): number => {
+    if (onStack.has(id)) {
+      loops.add(id);
+      return 0;
+    }
+    const known = longest.get(id);
+    if (known !== undefined) return known;
+    reachable.add(id);
+    onStack.add(id);
+    let depth = 1;
+    for (const next of edges.get(id) ?? []) {
+      depth = Math.max(depth, 1 + visit(next));
+    }
+    onStack.delete(id);
+    longest.set(id, depth);
+    return depth;
+  };
+  const depth = visit(graph.startPageId);
+
+  for (const id of loops) issues.push(`Page "${id}" can be reached again from itself (loop).`);
+  for (const node of graph.nodes) {
+    if (!reachable.has(node.id)) issues.push(`Node "${node.id}" is unreachable from the start.`);
+  }
+  if (loops.size === 0 && depth > limits.maxDepth) {
+    issues.push(`Longest path is ${depth} pages; the limit is ${limits.maxDepth}.`);
+  }
+  const endings = new Set(
+    graph.nodes.filter(n => reachable.has(n.id) && isEndingNode(n)).map(n => n.endingIndex!),
+  );
+  if (endings.size < limits.requiredEndings) {
+    issues.push(`Only ${endings.size} distinct ending(s) are reachable; at least ${limits.requiredEndings} are required.`);
+  }
+  return issues;
+}
+
+/**
+ * Coerces model output into a StoryGraph. Ids are kept as written because edges
+ * reference them; unusable options are dropped and ending nodes get a single Finish option
+ * (labelled in the story language).
+ */
+export function normalizeStoryGraph(input: unknown, phrases: EnginePhrases = getEnginePhrases("en")): StoryGraph {
+  const raw = (input && typeof input === "object" ? input : {}) as { startPageId?: unknown; nodes?: unknown };
+  const list = Array.isArray(raw.nodes) ? raw.nodes : [];
+  const nodes: StoryGraphNode[] = [];
+  list.forEach((item, index) => {
+    const n = (item ?? {}) as Partial<StoryGraphNode>;
+    const id = cleanId(n.id) || `page-${index + 1}`;
+    const node: StoryGraphNode = { id, text: String(n.text ?? "").trim(), options: [] };
+    const alt = typeof n.image?.alt === "string" ? n.image.alt.trim() : "";
+    const prompt = typeof n.image?.prompt === "string" ? n.image.prompt.trim() : "";
+    if (alt || prompt) {
+      node.image = {};
+      if (alt) node.image.alt = alt;
+      if (prompt) node.image.prompt = prompt;
+    }
+    if (typeof n.endingIndex === "number" && Number.isInteger(n.endingIndex) && n.endingIndex >= 0) {
+      node.endingIndex = n.endingIndex;
+      node.options = [{ id: `${id}-finish`, text: phrases.finish, action: { type: "goToNextPage" } }];
+    } else {
+      node.options = normalizeGraphOptions(n.options, id);
+    }
+    nodes.push(node);
+  });
+  const startPageId = cleanId(raw.startPageId) || nodes[0]?.id || "";
+  return { startPageId, nodes };
+}
+
+function normalizeGraphOptions(input: unknown, nodeId: string): OptionObject[] {
+  const list = Array.isArray(input) ? input : [];
+  const out: OptionObject[] = [];
+  list.forEach((item, index) => {
+    const o = (item ?? {}) as Partial<OptionObject>;
+    const text = String(o.text ?? "").trim();
+    const pageId = o.action?.type === "goToPage" ? cleanId(o.action.pageId) : "";
+    if (!text || !pageId) return;
+    out.push({ id: cleanId(o.id) || `${nodeId}-opt-${index + 1}`, text, action: { type: "goToPage", pageId } });
+  });
+  return out.slice(0, MAX_OPTIONS_PER_NODE);
+}
+
+function collectEdgeTargets(options: OptionObject[]): string[] {
+  const targets: string[] = [];
+  for (const option of options) {
+    if (option.action.type === "goToPage") targets.push(option.action.pageId);
+  }
+  return Array.from(new Set(targets));
+}
+
+function isEndingNode(node: StoryGraphNode): boolean {
+  return typeof node.endingIndex === "number";
+}
+
+function cleanId(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
@@ -0,0 +1,26 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { buildLanguageGuidance, getEnginePhrases, resolveStoryLanguage } from "./languageGuidance.js";
+import { normalizeStoryGraph } from "./graphGenerator.js";
+
+test("missing or unknown languages fall back to English", () => {
+  assert.equal(resolveStoryLanguage(null), "en");
+  assert.equal(resolveStoryLanguage({ language: "klingon" as never }), "en");
+  assert.equal(resolveStoryLanguage({ language: "es" }), "es");
+});
+
+test("non-English guidance keeps keys, ids and image prompts in English", () => {
+  const lines = buildLanguageGuidance("fr", "text").join("\n");
+  assert.match(lines, /natural, idiomatic French/);
+  assert.match(lines, /JSON key, id, enum value/);
+  assert.match(lines, /image\.prompt in English/);
+  assert.deepEqual(buildLanguageGuidance("en", "text"), ["Language:", "- Write text in English."]);
+});
+
+test("engine-written options use the story language", () => {
+  const graph = normalizeStoryGraph(
+    { startPageId: "end", nodes: [{ id: "end", text: "Fin.", endingIndex: 0 }] },
+    getEnginePhrases("de"),
+  );
+  assert.deepEqual(graph.nodes[0]?.options.map(o => o.text), ["Beenden"]);
+});
@@ -0,0 +1,113 @@
+import type { StoryConfiguration, StoryLanguage } from "../types/frontend.js";
+
+// Labels the engine writes itself (fallback and finishing options), per language
+export interface EnginePhrases {
+  finish: string;
+  continue: string;
+  lookAround: string;
+  writeYourOwn: string;
+  whatDoYouDo: string;
+}
+
+const LANGUAGES: Record<StoryLanguage, { name: string; phrases: EnginePhrases }> = {
+  en: {
+    name: "English",
+    phrases: {
+      finish: "Finish",
+      continue: "Continue",
+      lookAround: "Look around",
+      writeYourOwn: "Write your own action",
+      whatDoYouDo: "What do you do?",
+    },
+  },
+  es: {
+    name: "Spanish",
+    phrases: {
+      finish: "Terminar",
+      continue: "Continuar",
+      lookAround: "Mirar alrededor",
+      writeYourOwn: "Escribe tu propia acción",
+      whatDoYouDo: "¿Qué haces?",
+    },
+  },
+  fr: {
+    name: "French",
+    phrases: {
+      finish: "Terminer",
+      continue: "Continuer",
+      lookAround: "Regarder autour",
+      writeYourOwn: "Écrire votre propre action",
+      whatDoYouDo: "Que faites-vous ?",
+    },
+  },
+  de: {
+    name: "German",
+    phrases: {
+      finish: "Beenden",
+      continue: "Weiter",
+      lookAround: "Umsehen",
+      writeYourOwn: "Eigene Aktion schreiben",
+      whatDoYouDo: "Was tust du?",
+    },
+  },
+  it: {
+    name: "Italian",
+    phrases: {
+      finish: "Fine",
+      continue: "Continua",
+      lookAround: "Guardati intorno",
+      writeYourOwn: "Scrivi la tua azione",
+      whatDoYouDo: "Cosa fai?",
+    },
+  },
+  pt: {
+    name: "Portuguese",
+    phrases: {
+      finish: "Terminar",
+      continue: "Continuar",
+      lookAround: "Olhar em volta",
+      writeYourOwn: "Escreva sua própria ação",
+      whatDoYouDo: "O que você faz?",
+    },
+  },
+};
+
+/**
+ * The story language of a configuration; missing or unknown values mean English.
+ */
+export function resolveStoryLanguage(configuration?: Partial<StoryConfiguration> | null): StoryLanguage {
+  return pickStoryLanguage(configuration?.language) ?? "en";
+}
+
+export function pickStoryLanguage(value: unknown): StoryLanguage | undefined {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(LANGUAGES, value)
+    ? (value as StoryLanguage)
+    : undefined;
+}
+
+export function getLanguageName(language: StoryLanguage): string {
+  return LANGUAGES[language].name;
+}
+
+export function getEnginePhrases(language: StoryLanguage): EnginePhrases {
+  return LANGUAGES[language].phrases;
+}
+
+/**
+ * Prompt section for the output language. Reader-facing prose is written in the story
+ * language; everything the engine or the image model reads stays in English.
+ * `fields` names the reader-facing JSON fields of the document being generated.
+ */
+export function buildLanguageGuidance(language: StoryLanguage, fields: string): string[] {
+  const { name } = LANGUAGES[language];
+  if (language === "en") {
+    return ["Language:", `- Write ${fields} in English.`];
+  }
+  return [
+    "Language (STRICT):",
+    `- Write ${fields} in natural, idiomatic ${name}, as a native ${name} author would.`,
+    "- Keep every JSON key, id, enum value (e.g. action.type) and flag/stat name in English exactly as specified.",
+    "- Write image.prompt in English (it is read by the illustration model); image.alt follows the story language.",
+    `- Inputs (definition, earlier pages, memory) may be in English or ${name}; your output prose is always ${name}.`,
+  ];
+}
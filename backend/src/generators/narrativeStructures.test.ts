@@ -0,0 +1,41 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { NARRATIVE_STRUCTURES, resolveNarrativeStructure, resolveStructureBeat } from "./narrativeStructures.js";
+
+test("unknown structures fall back to three-act", () => {
+  assert.equal(resolveNarrativeStructure(undefined).id, "three-act");
+  assert.equal(resolveNarrativeStructure("__proto__").id, "three-act");
+  assert.equal(resolveNarrativeStructure("mystery").label, "Mystery");
+});
+
+test("three-act keeps the original ratio buckets", () => {
+  const threeAct = resolveNarrativeStructure("three-act");
+  const titles = Array.from({ length: 10 }, (_, i) => resolveStructureBeat(threeAct, i, 10, i === 9).title);
+  assert.deepEqual(titles, [
+    "Opening / Hook",
+    "Inciting Incident",
+    "Rising Action",
+    "Rising Action",
+    "Rising Action",
+    "Escalation",
+    "Escalation",
+    "Escalation",
+    "Approach to Climax",
+    "Finale / Resolution",
+  ]);
+});
+
+test("mystery pacing runs clue, red herring, reveal", () => {
+  const mystery = resolveNarrativeStructure("mystery");
+  const titles = Array.from({ length: 10 }, (_, i) => resolveStructureBeat(mystery, i, 10, i === 9).title);
+  assert.ok(titles.indexOf("Clues") < titles.indexOf("Red Herring"));
+  assert.equal(titles[9], "The Reveal");
+});
+
+test("every structure has ordered beats ending at ratio 1", () => {
+  for (const structure of Object.values(NARRATIVE_STRUCTURES)) {
+    const bounds = structure.beats.map(b => b.until);
+    assert.deepEqual(bounds, [...bounds].sort((a, b) => a - b), structure.id);
+    assert.equal(bounds[bounds.length - 1], 1, structure.id);
+  }
+});
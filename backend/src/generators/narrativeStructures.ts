@@ -0,0 +1,394 @@
+import type { NarrativeStructure } from "../types/frontend.js";
+
+/**
+ * One beat of a narrative structure. Beats cover the pages between the opening and
+ * the finale: a page belongs to the first beat whose `until` ratio is above
+ * stepIndex / (maxPages - 1).
+ */
+export interface NarrativeBeat {
+  title: string;
+  until: number;
+  bullets: string[];
+}
+
+export interface NarrativeStructureDefinition {
+  id: NarrativeStructure;
+  label: string;
+  opening: Omit<NarrativeBeat, "until">;
+  beats: NarrativeBeat[];
+  finale: Omit<NarrativeBeat, "until">;
+  // Extra rules for the last page, on top of the generic "conclude decisively"
+  finaleRules: string[];
+}
+
+export const DEFAULT_NARRATIVE_STRUCTURE: NarrativeStructure = "three-act";
+
+export const NARRATIVE_STRUCTURES: Record<NarrativeStructure, NarrativeStructureDefinition> = {
+  "three-act": {
+    id: "three-act",
+    label: "Three-act structure",
+    opening: {
+      title: "Opening / Hook",
+      bullets: [
+        "- Grab attention using definition.startHook.",
+        "- Establish the protagonist, the immediate desire, and the lived-in world.",
+        "- Plant a question or tension that demands a next choice.",
+      ],
+    },
+    beats: [
+      {
+        title: "Inciting Incident",
+        until: 0.2,
+        bullets: [
+          "- Disrupt the status quo; introduce a compelling problem.",
+          "- Clarify stakes and early consequences.",
+        ],
+      },
+      {
+        title: "Rising Action",
+        until: 0.45,
+        bullets: [
+          "- Complications multiply; choices have trade-offs.",
+          "- Deepen character goals and opposition.",
+        ],
+      },
+      {
+        title: "Midpoint Shift",
+        until: 0.55,
+        bullets: [
+          "- A twist, revelation, or irreversible choice reframes the goal.",
+          "- Raise the stakes and narrow the path forward.",
+        ],
+      },
+      {
+        title: "Escalation",
+        until: 0.8,
+        bullets: [
+          "- Pressure intensifies; resources dwindle.",
+          "- Foreshadow elements that pay off in the finale.",
+        ],
+      },
+      {
+        title: "Approach to Climax",
+        until: 1,
+        bullets: [
+          "- Set up the decisive confrontation or commitment.",
+          "- Present options that meaningfully shape the final outcome.",
+        ],
+      },
+    ],
+    finale: {
+      title: "Finale / Resolution",
+      bullets: [
+        "- Resolve the central conflict and tie back to the theme.",
+        "- Echo or invert an image/idea from the opening.",
+        "- Leave a satisfying aftertaste; no cliffhangers.",
+      ],
+    },
+    finaleRules: [],
+  },
+  "heros-journey": {
+    id: "heros-journey",
+    label: "Hero's Journey",
+    opening: {
+      title: "Ordinary World",
+      bullets: [
+        "- Open with definition.startHook inside the protagonist's everyday life.",
+        "- Show what the protagonist lacks or wants before anything changes.",
+      ],
+    },
+    beats: [
+      {
+        title: "Call to Adventure / Refusal",
+        until: 0.2,
+        bullets: [
+          "- A challenge arrives; let the protagonist hesitate or count the cost.",
+          "- Offer choices between answering the call and holding back.",
+        ],
+      },
+      {
+        title: "Meeting the Mentor / Crossing the Threshold",
+        until: 0.35,
+        bullets: [
+          "- Someone or something equips the protagonist with advice, a gift or resolve.",
+          "- Cross into the unfamiliar world; there is no easy way back.",
+        ],
+      },
+      {
+        title: "Tests, Allies, Enemies",
+        until: 0.6,
+        bullets: [
+          "- Trials teach the rules of the new world; loyalties form and break.",
+          "- Each choice earns an ally, a skill or an enemy.",
+        ],
+      },
+      {
+        title: "The Ordeal",
+        until: 0.75,
+        bullets: [
+          "- Face the greatest fear; something must be lost or symbolically die.",
+          "- The protagonist survives changed.",
+        ],
+      },
+      {
+        title: "Reward / The Road Back",
+        until: 1,
+        bullets: [
+          "- Claim the reward, then feel the pursuit or pull of home.",
+          "- Set up a final test that uses everything learned.",
+        ],
+      },
+    ],
+    finale: {
+      title: "Resurrection / Return with the Elixir",
+      bullets: [
+        "- A last, highest-stakes test proves the transformation.",
+        "- Return to the ordinary world carrying something that changes it.",
+      ],
+    },
+    finaleRules: ["- Show how the protagonist has changed since the ordinary world of the opening."],
+  },
+  "save-the-cat": {
+    id: "save-the-cat",
+    label: "Save the Cat",
+    opening: {
+      title: "Opening Image / Theme Stated",
+      bullets: [
+        "- Open with definition.startHook as a vivid snapshot of the protagonist's 'before' state.",
+        "- Let a character hint at the theme without the protagonist understanding it yet.",
+      ],
+    },
+    beats: [
+      {
+        title: "Catalyst / Debate",
+        until: 0.2,
+        bullets: [
+          "- A life-changing event knocks the protagonist off course.",
+          "- Let them weigh whether to act; the choices are the debate.",
+        ],
+      },
+      {
+        title: "Break into Two / Fun and Games",
+        until: 0.5,
+        bullets: [
+          "- Commit to a new world or plan; deliver the premise's promise.",
+          "- Keep the tone playful or thrilling as the genre allows.",
+        ],
+      },
+      {
+        title: "Midpoint / Bad Guys Close In",
+        until: 0.7,
+        bullets: [
+          "- A false victory or false defeat raises the stakes.",
+          "- Internal doubts and external enemies tighten around the protagonist.",
+        ],
+      },
+      {
+        title: "All Is Lost / Dark Night of the Soul",
+        until: 0.85,
+        bullets: [
+          "- Something or someone precious is lost; hint of death.",
+          "- The protagonist confronts the theme head-on.",
+        ],
+      },
+      {
+        title: "Break into Three",
+        until: 1,
+        bullets: [
+          "- Insight from the theme reveals a new plan that combines both worlds.",
+          "- Set up the finale's execution.",
+        ],
+      },
+    ],
+    finale: {
+      title: "Finale / Final Image",
+      bullets: [
+        "- Execute the new plan; the protagonist proves they have learned the theme.",
+        "- Close on an image that mirrors the opening, showing the change.",
+      ],
+    },
+    finaleRules: ["- The final image must mirror the opening image."],
+  },
+  kishotenketsu: {
+    id: "kishotenketsu",
+    label: "Kishōtenketsu",
+    opening: {
+      title: "Ki (Introduction)",
+      bullets: [
+        "- Open with definition.startHook; introduce characters and setting calmly.",
+        "- Conflict is not required; curiosity and atmosphere carry the page.",
+      ],
+    },
+    beats: [
+      {
+        title: "Ki (Introduction)",
+        until: 0.25,
+        bullets: [
+          "- Deepen the world and the protagonist's routine or situation.",
+          "- Offer choices about attention and curiosity rather than confrontation.",
+        ],
+      },
+      {
+        title: "Shō (Development)",
+        until: 0.6,
+        bullets: [
+          "- Develop what was introduced; follow its threads without a major reversal.",
+          "- Let relationships and details accumulate meaning.",
+        ],
+      },
+      {
+        title: "Ten (Twist)",
+        until: 1,
+        bullets: [
+          "- Introduce an unexpected element that seems unrelated to what came before.",
+          "- Make the reader reconsider the earlier pages.",
+        ],
+      },
+    ],
+    finale: {
+      title: "Ketsu (Reconciliation)",
+      bullets: [
+        "- Bring the twist and the earlier threads together into a new harmony.",
+        "- Resolve through understanding, not necessarily victory over an opponent.",
+      ],
+    },
+    finaleRules: ["- Do not introduce a villain or battle to end the story; reconcile the twist with what came before."],
+  },
+  "five-act-tragedy": {
+    id: "five-act-tragedy",
+    label: "Five-act tragedy",
+    opening: {
+      title: "Exposition",
+      bullets: [
+        "- Open with definition.startHook; show the protagonist at their height.",
+        "- Let their fatal flaw be visible, admirable even.",
+      ],
+    },
+    beats: [
+      {
+        title: "Exposition",
+        until: 0.2,
+        bullets: [
+          "- Establish the world's order and what the protagonist stands to lose.",
+          "- Plant the flaw that will undo them.",
+        ],
+      },
+      {
+        title: "Rising Action",
+        until: 0.45,
+        bullets: [
+          "- The protagonist pursues their desire; the flaw drives their choices.",
+          "- Early success hides the cost building up.",
+        ],
+      },
+      {
+        title: "Climax / Turning Point",
+        until: 0.6,
+        bullets: [
+          "- A fateful decision at the peak of power turns fortune against them.",
+          "- Make the reversal feel inevitable in hindsight.",
+        ],
+      },
+      {
+        title: "Falling Action",
+        until: 1,
+        bullets: [
+          "- Consequences close in; allies fall away, escape routes shut.",
+          "- Choices still matter but narrow towards the catastrophe.",
+        ],
+      },
+    ],
+    finale: {
+      title: "Catastrophe",
+      bullets: [
+        "- The protagonist's downfall arrives, earned by their flaw and choices.",
+        "- Allow a moment of recognition: they see what they have done.",
+      ],
+    },
+    finaleRules: [
+      "- End in loss or ruin for the protagonist; prefer a tragic or bittersweet definition.endingOptions entry.",
+      "- The catastrophe must follow from earlier choices, never from chance.",
+    ],
+  },
+  mystery: {
+    id: "mystery",
+    label: "Mystery",
+    opening: {
+      title: "The Crime / The Question",
+      bullets: [
+        "- Open with definition.startHook and a puzzle that demands an answer.",
+        "- Present the first clue in plain sight.",
+      ],
+    },
+    beats: [
+      {
+        title: "Clues",
+        until: 0.35,
+        bullets: [
+          "- Investigate: each page surfaces at least one concrete, fair clue.",
+          "- Introduce suspects with motives and secrets.",
+        ],
+      },
+      {
+        title: "Red Herring",
+        until: 0.6,
+        bullets: [
+          "- A convincing false lead points at the wrong suspect or explanation.",
+          "- Keep the true clues on the page, easy to overlook.",
+        ],
+      },
+      {
+        title: "Complication",
+        until: 0.8,
+        bullets: [
+          "- The red herring collapses; stakes rise (a second incident, a threat, a deadline).",
+          "- The investigator starts connecting overlooked clues.",
+        ],
+      },
+      {
+        title: "Gathering the Pieces",
+        until: 1,
+        bullets: [
+          "- The final clue falls into place; offer choices about how to confront the truth.",
+        ],
+      },
+    ],
+    finale: {
+      title: "The Reveal",
+      bullets: [
+        "- Reveal the solution and walk through how the clues fit.",
+        "- Resolve what the truth costs the people involved.",
+      ],
+    },
+    finaleRules: [
+      "- The solution must rest only on clues already shown in storySoFar; no new evidence on the last page.",
+    ],
+  },
+};
+
+/**
+ * The structure for a configuration value. Unknown or missing values use three-act.
+ */
+export function resolveNarrativeStructure(id: unknown): NarrativeStructureDefinition {
+  if (typeof id === "string" && Object.prototype.hasOwnProperty.call(NARRATIVE_STRUCTURES, id)) {
+    return NARRATIVE_STRUCTURES[id as NarrativeStructure];
+  }
+  return NARRATIVE_STRUCTURES[DEFAULT_NARRATIVE_STRUCTURE];
+}
+
+/**
+ * Beat for page `stepIndex`: the opening on page 0, the finale on the last page,
+ * otherwise the beat whose ratio bucket contains stepIndex / (maxPages - 1).
+ */
+export function resolveStructureBeat(
+  structure: NarrativeStructureDefinition,
+  stepIndex: number,
+  maxPages: number,
+  isFinalPage: boolean,
+): { title: string; bullets: string[] } {
+  if (isFinalPage) return structure.finale;
+  if (stepIndex === 0) return structure.opening;
+  const ratio = stepIndex / Math.max(1, maxPages - 1);
+  const beat = structure.beats.find(b => ratio < b.until) ?? structure.beats[structure.beats.length - 1];
+  return beat ? { title: beat.title, bullets: beat.bullets } : structure.finale;
+}
@@ -0,0 +1,49 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { applyOptionEffects, meetsRequirements, sanitizeEffects, sanitizeOptionRules } from "./optionRules.js";
+import type { StoryState } from "../types/frontend.js";
+
+function makeState(overrides: Partial<StoryState> = {}): StoryState {
+  return {
+    location: "Harbour",
+    timeOfDay: "dusk",
+    inventory: ["Brass Key"],
+    characters: [],
+    facts: [],
+    flags: {},
+    stats: {},
+    ...overrides,
+  };
+}
+
+test("requirements check flags, items and stat ranges", () => {
+  const state = makeState({ flags: { "met-the-ferryman": true }, stats: { courage: 3 } });
+  assert.ok(meetsRequirements([{ type: "item", item: "brass key" }], state));
+  assert.ok(meetsRequirements([{ type: "flag", flag: "met-the-ferryman" }, { type: "stat", stat: "courage", min: 2 }], state));
+  assert.equal(meetsRequirements([{ type: "stat", stat: "courage", min: 5 }], state), false);
+  assert.equal(meetsRequirements([{ type: "flag", flag: "betrayed-crew" }], null), false);
+});
+
+test("effects are applied without mutating the previous state", () => {
+  const state = makeState();
+  const next = applyOptionEffects(state, [
+    { type: "removeItem", item: "brass key" },
+    { type: "setFlag", flag: "opened-vault" },
+    { type: "changeStat", stat: "gold", delta: 5 },
+  ]);
+  assert.deepEqual(next.inventory, []);
+  assert.deepEqual(next.flags, { "opened-vault": true });
+  assert.deepEqual(next.stats, { gold: 5 });
+  assert.deepEqual(state.inventory, ["Brass Key"]);
+});
+
+test("sanitizing drops malformed rules and clamps stat deltas", () => {
+  assert.deepEqual(sanitizeEffects([{ type: "changeStat", stat: "Gold Coins", delta: 50 }, { type: "explode" }]), [
+    { type: "changeStat", stat: "gold-coins", delta: 10 },
+  ]);
+  assert.deepEqual(sanitizeOptionRules({ requires: [{ type: "flag" }] as never }), {});
+  assert.deepEqual(sanitizeOptionRules({ requires: [{ type: "item", item: "Rope" }] }), {
+    requires: [{ type: "item", item: "Rope", present: true }],
+    whenLocked: "disable",
+  });
+});
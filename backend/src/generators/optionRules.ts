@@ -0,0 +1,160 @@
+import type { OptionEffect, OptionObject, OptionRequirement, StoryState } from "../types/frontend.js";
+
+const MAX_RULES_PER_OPTION = 3;
+const MAX_STAT_DELTA = 10;
+
+/**
+ * Sanitizes an option's `requires` list. Unknown types and empty keys are dropped;
+ * returns undefined when nothing valid remains so the field can be omitted.
+ */
+export function sanitizeRequirements(input: unknown): OptionRequirement[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const out: OptionRequirement[] = [];
+  for (const raw of input) {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    switch (r.type) {
+      case "flag": {
+        const flag = normalizeKey(r.flag);
+        if (flag) out.push({ type: "flag", flag, value: r.value !== false });
+        break;
+      }
+      case "item": {
+        const item = normalizeItem(r.item);
+        if (item) out.push({ type: "item", item, present: r.present !== false });
+        break;
+      }
+      case "stat": {
+        const stat = normalizeKey(r.stat);
+        const min = finiteOrUndefined(r.min);
+        const max = finiteOrUndefined(r.max);
+        if (!stat || (min === undefined && max === undefined)) break;
+        const req: OptionRequirement = { type: "stat", stat };
+        if (min !== undefined) req.min = min;
+        if (max !== undefined) req.max = max;
+        out.push(req);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return out.length > 0 ? out.slice(0, MAX_RULES_PER_OPTION) : undefined;
+}
+
+/**
+ * Sanitizes an option's `effects` list. Stat changes are clamped to ±MAX_STAT_DELTA.
+ */
+export function sanitizeEffects(input: unknown): OptionEffect[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const out: OptionEffect[] = [];
+  for (const raw of input) {
+    const e = (raw ?? {}) as Record<string, unknown>;
+    switch (e.type) {
+      case "setFlag": {
+        const flag = normalizeKey(e.flag);
+        if (flag) out.push({ type: "setFlag", flag, value: e.value !== false });
+        break;
+      }
+      case "addItem":
+      case "removeItem": {
+        const item = normalizeItem(e.item);
+        if (item) out.push({ type: e.type, item });
+        break;
+      }
+      case "changeStat": {
+        const stat = normalizeKey(e.stat);
+        const delta = finiteOrUndefined(e.delta);
+        if (stat && delta !== undefined && delta !== 0) {
+          out.push({ type: "changeStat", stat, delta: Math.max(-MAX_STAT_DELTA, Math.min(MAX_STAT_DELTA, Math.round(delta))) });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return out.length > 0 ? out.slice(0, MAX_RULES_PER_OPTION) : undefined;
+}
+
+/**
+ * Returns the sanitized `requires`/`effects`/`whenLocked` fields for an option,
+ * ready to spread onto a normalized OptionObject.
+ */
+export function sanitizeOptionRules(opt: Partial<OptionObject> | null | undefined): Pick<OptionObject, "requires" | "effects" | "whenLocked"> {
+  const out: Pick<OptionObject, "requires" | "effects" | "whenLocked"> = {};
+  const requires = sanitizeRequirements(opt?.requires);
+  const effects = sanitizeEffects(opt?.effects);
+  if (requires) {
+    out.requires = requires;
+    out.whenLocked = opt?.whenLocked === "hide" ? "hide" : "disable";
+  }
+  if (effects) out.effects = effects;
+  return out;
+}
+
+/**
+ * True when every requirement holds for the given state (missing state = nothing owned, no flags, stats at 0).
+ */
+export function meetsRequirements(requires: OptionRequirement[] | undefined, state: StoryState | null | undefined): boolean {
+  if (!requires || requires.length === 0) return true;
+  const flags = state?.flags ?? {};
+  const stats = state?.stats ?? {};
+  const inventory = new Set((state?.inventory ?? []).map(i => i.toLowerCase()));
+  return requires.every(r => {
+    switch (r.type) {
+      case "flag":
+        return Boolean(flags[r.flag]) === (r.value !== false);
+      case "item":
+        return inventory.has(r.item.toLowerCase()) === (r.present !== false);
+      case "stat": {
+        const v = stats[r.stat] ?? 0;
+        return (r.min === undefined || v >= r.min) && (r.max === undefined || v <= r.max);
+      }
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Applies option effects to a state and returns a new state object.
+ */
+export function applyOptionEffects(state: StoryState, effects: OptionEffect[] | undefined): StoryState {
+  if (!effects || effects.length === 0) return state;
+  const flags = { ...(state.flags ?? {}) };
+  const stats = { ...(state.stats ?? {}) };
+  let inventory = state.inventory.slice();
+  for (const e of effects) {
+    switch (e.type) {
+      case "setFlag":
+        flags[e.flag] = e.value !== false;
+        break;
+      case "addItem":
+        if (!inventory.some(i => i.toLowerCase() === e.item.toLowerCase())) inventory.push(e.item);
+        break;
+      case "removeItem":
+        inventory = inventory.filter(i => i.toLowerCase() !== e.item.toLowerCase());
+        break;
+      case "changeStat":
+        stats[e.stat] = (stats[e.stat] ?? 0) + e.delta;
+        break;
+      default:
+        break;
+    }
+  }
+  return { ...state, flags, stats, inventory };
+}
+
+function normalizeKey(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+}
+
+function normalizeItem(value: unknown): string {
+  if (typeof value !== "string") return "";
+  return value.replace(/\s+/g, " ").trim().slice(0, 60);
+}
+
+function finiteOrUndefined(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,73 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { normalizeStoryOutline, resolveOutlineStep } from "./outlineGenerator.js";
+
+function makeOutline() {
+  return normalizeStoryOutline(
+    {
+      beats: [
+        { page: 0, title: "Hook", goal: "Reach the lighthouse", complication: "The tide is rising", setups: [
+          { id: "brass-key", description: "A brass key hangs by the door", payoffPage: 2 },
+          { id: "old-debt", description: "The keeper owes the smugglers", payoffPage: 3 },
+        ] },
+        { page: 1, title: "Inciting Incident", goal: "Find the keeper", complication: "He is gone", reveal: "Blood on the stairs", setups: [] },
+        { page: 2, title: "Midpoint", goal: "Open the lamp room", complication: "It is locked", setups: [] },
+        { page: 3, title: "Finale", goal: "Face the smugglers", complication: "They have the keeper", setups: [] },
+      ],
+    },
+    4,
+  );
+}
+
+test("beats are sorted, clamped to the page policy and need a goal", () => {
+  const outline = normalizeStoryOutline(
+    {
+      beats: [
+        { page: 2, title: "Later", goal: "Later goal", complication: "" },
+        { page: 0, goal: "Opening goal", complication: "Storm" },
+        { page: 0, goal: "Duplicate page", complication: "" },
+        { page: 1, title: "No goal" },
+        { page: 9, goal: "Past the end", complication: "" },
+      ],
+    },
+    5,
+  );
+  assert.deepEqual(outline.beats.map(b => [b.page, b.goal]), [[0, "Opening goal"], [2, "Later goal"]]);
+  assert.equal(outline.beats[0]?.title, "Page 1");
+});
+
+test("set-ups must pay off after their page and inside the story", () => {
+  const outline = normalizeStoryOutline(
+    {
+      beats: [
+        { page: 1, goal: "Go", complication: "", setups: [
+          { id: "same-page", description: "Pays off too early", payoffPage: 1 },
+          { id: "too-late", description: "Pays off after the end", payoffPage: 8 },
+          { id: "ok", description: "Fine", payoffPage: 3 },
+        ] },
+        { page: 2, goal: "Go on", complication: "", setups: [{ id: "ok", description: "Reused id", payoffPage: 3 }] },
+      ],
+    },
+    4,
+  );
+  assert.deepEqual(outline.beats.flatMap(b => b.setups.map(s => s.id)), ["ok", "ok-3"]);
+});
+
+test("open set-ups are split into due now and still open", () => {
+  const step = resolveOutlineStep(makeOutline(), 2, false);
+  assert.equal(step?.beat.title, "Midpoint");
+  assert.deepEqual(step?.dueSetups.map(s => s.id), ["brass-key"]);
+  assert.deepEqual(step?.openSetups.map(s => s.id), ["old-debt"]);
+
+  // Nothing planted yet on the opening page
+  assert.deepEqual(resolveOutlineStep(makeOutline(), 0, false)?.dueSetups, []);
+});
+
+test("every open set-up is due on the final page; missing beats fall back", () => {
+  const outline = makeOutline();
+  outline.beats[0]!.setups[1]!.payoffPage = 3;
+  const early = resolveOutlineStep(outline, 1, true);
+  assert.deepEqual(early?.dueSetups.map(s => s.id), ["brass-key", "old-debt"]);
+  assert.equal(resolveOutlineStep(outline, 7, false), null);
+  assert.equal(resolveOutlineStep(null, 0, false), null);
+});
@@ -0,0 +1,153 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { resolveNarrativeStructure } from "./narrativeStructures.js";
+import type { StoryBeat, StoryConfiguration, StoryDefinition, StoryOutline, StorySetup } from "../types/frontend.js";
+
+const MAX_SETUPS_PER_BEAT = 3;
+
+/**
+ * Beat guidance for one page, ready for the step prompt.
+ * - dueSetups: planted earlier and meant to pay off on this page
+ * - openSetups: planted earlier, still to pay off later (keep them alive, don't resolve them yet)
+ */
+export interface OutlineStepGuidance {
+  beat: StoryBeat;
+  dueSetups: StorySetup[];
+  openSetups: StorySetup[];
+}
+
+/**
+ * Plans the story as a per-page beat sheet right after the definition is written.
+ * `maxPages` is the page policy's upper bound; the outline has exactly that many beats
+ * so every reachable stepIndex has a plan, and the final beat resolves the story.
+ */
+export async function generateStoryOutline(
+  definition: StoryDefinition,
+  configuration: StoryConfiguration | null,
+  pagePolicy: { minPages: number; maxPages: number },
+): Promise<StoryOutline> {
+  const { minPages, maxPages } = pagePolicy;
+  const structure = resolveNarrativeStructure(configuration?.narrativeStructure);
+  const arc = [structure.opening, ...structure.beats, structure.finale].map(b => b.title);
+  const instructions = [
+    "You are a story editor planning an interactive story before any page is written.",
+    "Using the StoryDefinition, write a beat sheet with one beat per page.",
+    "",
+    "Return a JSON object EXACTLY matching this TypeScript shape:",
+    "",
+    "interface StorySetup {",
+    "  id: string;           // short kebab-case id",
+    "  description: string;  // what is planted: an object, a promise, a secret, a skill",
+    "  payoffPage: number;   // later page (zero-based) where it must pay off",
+    "}",
+    "",
+    "interface StoryBeat {",
+    "  page: number;          // zero-based page index",
+    "  title: string;         // beat name, e.g. 'Inciting Incident'",
+    "  goal: string;          // what the protagonist is trying to achieve on this page",
+    "  complication: string;  // what gets in the way",
+    "  reveal?: string;       // new information the reader learns, if any",
+    "  setups: StorySetup[];  // things planted on this page",
+    "}",
+    "",
+    "interface StoryOutline {",
+    "  beats: StoryBeat[];",
+    "}",
+    "",
+    "Rules:",
+    `- Write exactly ${maxPages} beats, pages 0 to ${maxPages - 1}. Readers may reach a satisfying ending from page ${minPages - 1} on,`,
+    "  so the beats from there should converge towards the resolution.",
+    "- Page 0 opens with definition.startHook; the last beat resolves definition.conflict towards one of definition.endingOptions.",
+    `- Follow the ${structure.label} structure: ${arc.join(" → ")}. Spread these beats over the pages in this order`,
+    "  (a beat may span several pages) and use their names as beat titles.",
+    ...structure.finaleRules.map(rule => `- Last beat: ${rule.replace(/^- /, "")}`),
+    `- Plant 0–${MAX_SETUPS_PER_BEAT} set-ups per beat; every payoffPage must be later than the page that plants it.`,
+    "- No set-ups on the last beat. Prefer few set-ups that all pay off over many loose threads.",
+    "- Beats are goals, not prose: one sentence each for goal, complication and reveal.",
+    "- Readers choose between options on every page, so keep beats flexible enough to fit any reasonable choice.",
+    "",
+    "Output must be VALID JSON ONLY (no markdown, no prose outside JSON).",
+  ].join("\n");
+  const inputs = { definition, configuration: configuration ?? null, pagePolicy: { minPages, maxPages } };
+
+  const { json } = await generateJsonFromInputs<StoryOutline>(inputs, instructions);
+  const outline = normalizeStoryOutline(json, maxPages);
+  if (outline.beats.length === 0) {
+    throw new Error("Story outline has no usable beats");
+  }
+  return outline;
+}
+
+/**
+ * Coerces an outline from the model or a client into shape: beats sorted by page within
+ * [0, maxPages), one beat per page, and set-ups whose payoff falls after their beat and
+ * within the story. Set-up ids are made unique across the outline.
+ */
+export function normalizeStoryOutline(input: unknown, maxPages: number): StoryOutline {
+  const raw = (input && typeof input === "object" ? input : {}) as { beats?: unknown };
+  const list = Array.isArray(raw.beats) ? raw.beats : [];
+  const byPage = new Map<number, StoryBeat>();
+  const setupIds = new Set<string>();
+  list.forEach((item, index) => {
+    const b = (item ?? {}) as Partial<StoryBeat>;
+    const page = typeof b.page === "number" && Number.isInteger(b.page) ? b.page : index;
+    if (page < 0 || page >= maxPages || byPage.has(page)) return;
+    const goal = cleanText(b.goal);
+    if (!goal) return;
+    const beat: StoryBeat = {
+      page,
+      title: cleanText(b.title) || `Page ${page + 1}`,
+      goal,
+      complication: cleanText(b.complication),
+      setups: normalizeSetups(b.setups, page, maxPages, setupIds),
+    };
+    const reveal = cleanText(b.reveal);
+    if (reveal) beat.reveal = reveal;
+    byPage.set(page, beat);
+  });
+  return { beats: Array.from(byPage.values()).sort((a, b) => a.page - b.page) };
+}
+
+/**
+ * The beat planned for `stepIndex` and the set-ups planted before it that are still open.
+ * On the final page every open set-up is due. Returns null when the outline has no beat
+ * for this page, so callers fall back to generic pacing.
+ */
+export function resolveOutlineStep(
+  outline: StoryOutline | null | undefined,
+  stepIndex: number,
+  isFinalPage: boolean,
+): OutlineStepGuidance | null {
+  const beat = outline?.beats.find(b => b.page === stepIndex);
+  if (!outline || !beat) return null;
+  const dueSetups: StorySetup[] = [];
+  const openSetups: StorySetup[] = [];
+  for (const earlier of outline.beats) {
+    if (earlier.page >= stepIndex) continue;
+    for (const setup of earlier.setups) {
+      if (setup.payoffPage < stepIndex) continue;
+      if (setup.payoffPage === stepIndex || isFinalPage) dueSetups.push(setup);
+      else openSetups.push(setup);
+    }
+  }
+  return { beat, dueSetups, openSetups };
+}
+
+function normalizeSetups(input: unknown, page: number, maxPages: number, usedIds: Set<string>): StorySetup[] {
+  const list = Array.isArray(input) ? input : [];
+  const out: StorySetup[] = [];
+  list.forEach((item, index) => {
+    const s = (item ?? {}) as Partial<StorySetup>;
+    const description = cleanText(s.description);
+    const payoffPage = typeof s.payoffPage === "number" && Number.isInteger(s.payoffPage) ? s.payoffPage : -1;
+    if (!description || payoffPage <= page || payoffPage >= maxPages) return;
+    let id = cleanText(s.id) || `setup-${page + 1}-${index + 1}`;
+    if (usedIds.has(id)) id = `${id}-${page + 1}`;
+    usedIds.add(id);
+    out.push({ id, description, payoffPage });
+  });
+  return out.slice(0, MAX_SETUPS_PER_BEAT);
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
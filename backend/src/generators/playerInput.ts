@@ -0,0 +1,91 @@
+import type { OptionObject } from "../types/frontend.js";
+
+const MAX_PLAYER_ACTION_CHARS = 200;
+const MAX_GUIDANCE_CHARS = 160;
+
+// Phrases that address the model instead of describing something the protagonist does
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|rules|prompts?|guidelines)\b/i,
+  /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+  /\byou are (now|no longer)\b/i,
+  /\b(act|respond|reply|behave) as\b.{0,30}\b(ai|assistant|model|chatbot|llm)\b/i,
+  /\b(output|return|print|reveal|repeat)\b.{0,30}\b(json|prompt|instructions)\b/i,
+  /\b(stepIndex|pagePolicy|worldState|storySoFar|StoryPage|OptionObject)\b/,
+  /\[\/?(INST|SYS)\]/i,
+];
+
+export type ReaderTextResult = { ok: true; text: string } | { ok: false; error: string };
+
+/**
+ * True when the option was written by the reader rather than generated.
+ */
+export function isFreeTextOption(option: Pick<OptionObject, "action"> | null | undefined): boolean {
+  return option?.action?.type === "freeText";
+}
+
+/**
+ * Cleans a typed player action: strips control and markup characters, collapses
+ * whitespace and clips it. Rejects empty input and text that reads as instructions
+ * to the model rather than an in-story action.
+ */
+export function sanitizePlayerAction(input: unknown): ReaderTextResult {
+  if (typeof input !== "string") {
+    return { ok: false, error: "Your action must be text." };
+  }
+  const cleaned = cleanReaderText(input);
+  if (!cleaned) {
+    return { ok: false, error: "Describe what you want to do." };
+  }
+  if (INJECTION_PATTERNS.some(re => re.test(cleaned))) {
+    return { ok: false, error: "Describe something your character does in the story." };
+  }
+  return { ok: true, text: clipToWord(cleaned, MAX_PLAYER_ACTION_CHARS) };
+}
+
+/**
+ * Same cleaning for reader feedback on a rejected page ("make it scarier").
+ * Empty guidance is allowed and comes back as an empty string.
+ */
+export function sanitizeReaderGuidance(input: unknown): ReaderTextResult {
+  if (input === undefined || input === null) return { ok: true, text: "" };
+  if (typeof input !== "string") {
+    return { ok: false, error: "Guidance must be text." };
+  }
+  const cleaned = cleanReaderText(input);
+  if (INJECTION_PATTERNS.some(re => re.test(cleaned))) {
+    return { ok: false, error: "Describe how the page should change, e.g. \"make it scarier\"." };
+  }
+  return { ok: true, text: clipToWord(cleaned, MAX_GUIDANCE_CHARS) };
+}
+
+/**
+ * Same cleaning for other reader-written fields that reach a prompt (e.g. a cast member's
+ * description). `label` names the field in the error; empty input comes back as "".
+ */
+export function sanitizeReaderField(input: unknown, label: string, maxChars: number): ReaderTextResult {
+  if (input === undefined || input === null) return { ok: true, text: "" };
+  if (typeof input !== "string") {
+    return { ok: false, error: `${label} must be text.` };
+  }
+  const cleaned = cleanReaderText(input);
+  if (INJECTION_PATTERNS.some(re => re.test(cleaned))) {
+    return { ok: false, error: `${label} should describe the story, not give instructions.` };
+  }
+  return { ok: true, text: clipToWord(cleaned, maxChars) };
+}
+
+function cleanReaderText(input: string): string {
+  return input
+    .normalize("NFKC")
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u2028-\u202e\u2060-\u206f\ufeff]/g, " ")
+    .replace(/[`{}<>\\|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function clipToWord(value: string, limit: number): string {
+  if (value.length <= limit) return value;
+  const cut = value.slice(0, limit);
+  const lastSpace = cut.lastIndexOf(" ");
+  return (lastSpace > limit * 0.6 ? cut.slice(0, lastSpace) : cut).trimEnd();
+}
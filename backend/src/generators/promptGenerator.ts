@@ -1,12 +1,24 @@
 import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { resolveNarrativeStructure } from "./narrativeStructures.js";
+import { buildAudienceGuidance, buildReadabilityRetryNote, checkReadingLevel, resolveAudienceSettings } from "./configurationGuidance.js";
+import { buildLanguageGuidance, resolveStoryLanguage } from "./languageGuidance.js";
+import { applyCast, buildCastGuidance, buildCastRetryNote, findMissingCastNames } from "./castConfiguration.js";
+import { buildLoreGuidance, toLoreInput } from "./loreGuidance.js";
+import type { LorePassage } from "../lore/loreStore.js";
 import { StoryConfiguration, StoryDefinition } from "../types/frontend.js";
 
 /**
  * Generates a StoryDefinition using the text agent, from a StoryConfiguration.
+ * `lore` holds passages retrieved from the selected world bible documents.
  */
 export async function generateStoryDefinitionFromConfiguration(
   configuration: StoryConfiguration,
+  lore: LorePassage[] = [],
 ): Promise<StoryDefinition> {
+  const structure = resolveNarrativeStructure(configuration.narrativeStructure);
+  const audience = resolveAudienceSettings(configuration);
+  const language = resolveStoryLanguage(configuration);
+  const cast = configuration.cast ?? [];
   const instructions = [
     "You are a top-tier narrative designer and showrunner-level storyteller.",
     "Deliver an irresistibly engaging, original, high-concept StoryDefinition that hooks instantly and sustains tension.",
@@ -35,7 +47,7 @@ export async function generateStoryDefinitionFromConfiguration(
     "}",
     "",
     "Creative Directives (bar-raisers):",
-    "- Hook Magnetism: startHook must be a single, present-tense line (12–22 words) that poses a sharp dilemma, promise, or reversal.",
+    `- Hook Magnetism: startHook must be a single, ${audience.tense}-tense line (12–22 words) that poses a sharp dilemma, promise, or reversal.`,
     "- Specificity > Generality: avoid bland phrases; prefer concrete, surprising details and active verbs.",
     "- Show, Don’t Tell: imply character and world through actions, sensory cues, and consequences.",
     "- Freshness: subvert common tropes in the chosen genre with at least one unexpected angle.",
@@ -71,22 +83,63 @@ export async function generateStoryDefinitionFromConfiguration(
     "- length ‘medium’: balanced detail with clear arc and color.",
     "- length ‘long’: richer texture and micro-detail, but never rambling.",
     "- density ‘short’: short sentences, high clarity; ‘medium’: varied cadence; ‘dense’: layered clauses, metaphor sparingly.",
+    `- narrativeStructure: shape plot and endingOptions for a ${structure.label} (${[structure.opening, ...structure.beats, structure.finale].map(b => b.title).join(" → ")}).`,
     "",
     "Quality Guardrails:",
     "- Avoid clichés, buzzwords, and generic adjectives (e.g., “mysterious,” “dark,” “very”). Replace with precise imagery.",
     "- Use active voice and strong verbs; no passive hedging unless intentional.",
     "- Respect cultural nuance; no stereotypes or insensitive reductions.",
     "",
+    ...buildAudienceGuidance(audience, { narration: false }),
+    "- The whole premise (conflict, antagonist, endings) must fit the content rating; tagline and overview must fit the reading level.",
+    "",
+    ...buildLanguageGuidance(language, "every prose field (title, tagline, overview, plot, conflict, resolution, startHook, ending titles and descriptions, character roles and descriptions, location, worldDescription, timePeriod)"),
+    "- Character and place names may stay as they are when they read naturally in the story language.",
+    "",
+    ...(cast.length > 0 ? [...buildCastGuidance(cast), ""] : []),
+    ...(lore.length > 0 ? [...buildLoreGuidance(lore), ""] : []),
     "Strict Output Rules:",
     "- Produce a single valid JSON object that exactly matches StoryDefinition.",
     "- Do not include commentary, markdown, or explanations.",
   ].join("\n");
 
-  const { json } = await generateJsonFromInputs<StoryDefinition>(
-    { configuration },
-    instructions,
-  );
-  return json;
+  const loreInput = toLoreInput(lore);
+  // Supplied characters replace the model's versions verbatim
+  const draft = async (note?: string): Promise<StoryDefinition> => {
+    const { json } = await generateJsonFromInputs<StoryDefinition>(
+      loreInput ? { configuration, lore: loreInput } : { configuration },
+      note ? `${instructions}\n\n${note}` : instructions,
+    );
+    return applyCast(json, cast);
+  };
+
+  let definition = await draft();
+  // Every supplied character must be part of the story; rewrite once naming the ones left out
+  const missing = findMissingCastNames(definition, cast);
+  if (missing.length > 0) {
+    try {
+      const retry = await draft(buildCastRetryNote(missing));
+      if (findMissingCastNames(retry, cast).length < missing.length) definition = retry;
+    } catch {
+      // keep the first draft
+    }
+    const stillMissing = findMissingCastNames(definition, cast);
+    if (stillMissing.length > 0) {
+      console.warn("[promptGenerator] supplied cast missing from the story prose", { stillMissing });
+    }
+  }
+
+  // Tagline and overview are reader-facing; rewrite once if they read above the level
+  const check = checkReadingLevel(`${definition?.tagline ?? ""} ${definition?.overview ?? ""}`, audience.readingLevel, language);
+  if (check.ok) return definition;
+  try {
+    const retry = await draft(buildReadabilityRetryNote(check));
+    const recheck = checkReadingLevel(`${retry?.tagline ?? ""} ${retry?.overview ?? ""}`, audience.readingLevel, language);
+    const keepsCast = findMissingCastNames(retry, cast).length <= findMissingCastNames(definition, cast).length;
+    return recheck.grade < check.grade && keepsCast ? retry : definition;
+  } catch {
+    return definition;
+  }
 }
 
 
@@ -0,0 +1,112 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { buildSequelSeed, buildSeriesLink } from "./sequelGenerator.js";
+import type { Story, StoryDefinition } from "../types/frontend.js";
+
+const definition = {
+  title: "The Drowned Bell",
+  genre: "fantasy",
+  overview: "Mara hunts the bell that drowned Velmora.",
+  endingOptions: [
+    { id: "e1", title: "The bell is silenced", description: "Velmora rests." },
+    { id: "e2", title: "The tide rises", description: "The city is lost." },
+  ],
+  protagonist: { id: "mara", name: "Mara", role: "diver" },
+  antagonist: { id: "ossian", name: "Ossian", role: "bell-keeper" },
+  supportingCast: [{ id: "tam", name: "Tam", role: "ferryman" }],
+} as unknown as StoryDefinition;
+
+function finishedStory(overrides: Partial<Story> = {}): Story {
+  return {
+    id: "story-1",
+    status: "ready",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    configuration: { length: "small", density: "medium", description: "A drowned city", mode: "graph" },
+    definition,
+    structure: {
+      frontCover: { title: "The Drowned Bell", tagline: "" },
+      pages: [
+        { id: "start", text: "Mara dives.", options: [] },
+        { id: "end-1", text: "The bell falls silent. Velmora sleeps.", options: [] },
+      ],
+      backCover: { summary: "" },
+      graph: {
+        startPageId: "start",
+        nodes: [
+          { id: "start", text: "Mara dives.", options: [] },
+          { id: "end-1", text: "The bell falls silent. Velmora sleeps.", options: [], endingIndex: 0 },
+        ],
+      },
+    },
+    state: {
+      location: "Velmora",
+      timeOfDay: "dawn",
+      inventory: ["bell clapper"],
+      characters: [
+        { characterId: "ossian", name: "Ossian", status: "killed by the falling bell", relationship: -80 },
+        { characterId: "tam", name: "Tam", status: "exhausted", relationship: 60 },
+      ],
+      facts: ["The tide-singers owe Mara a debt"],
+      flags: {},
+      stats: {},
+    },
+    outline: {
+      beats: [
+        { page: 0, title: "Dive", goal: "", complication: "", setups: [{ id: "s1", description: "Who cast the bell?", payoffPage: 4 }] },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+test("the seed carries the ending reached, the survivors and the open threads", () => {
+  const seed = buildSequelSeed(finishedStory());
+  assert.ok(seed);
+  assert.equal(seed.ending.title, "The bell is silenced");
+  assert.deepEqual(seed.survivingCharacters.map(c => c.name), ["Mara", "Tam"]);
+  assert.equal(seed.survivingCharacters[1]?.status, "exhausted");
+  assert.deepEqual(seed.fallenCharacters, ["Ossian"]);
+  assert.deepEqual(seed.openThreads, ["Who cast the bell?"]);
+  assert.deepEqual(seed.worldFacts, ["The tide-singers owe Mara a debt"]);
+});
+
+test("a story without pages cannot be continued", () => {
+  const story = finishedStory();
+  assert.equal(buildSequelSeed({ ...story, structure: { ...story.structure!, pages: [] } }), null);
+});
+
+test("series links number the parts and append the finished story", () => {
+  const first = buildSeriesLink(finishedStory(), "Mara silenced the bell.", "story-2");
+  assert.deepEqual(first.series, {
+    id: "story-1",
+    part: 2,
+    previous: [{ storyId: "story-1", title: "The Drowned Bell", summary: "Mara silenced the bell.", ending: "The bell is silenced" }],
+  });
+  assert.equal(first.previousSeries.nextStoryId, "story-2");
+  assert.equal(first.previousSeries.part, 1);
+
+  // Stepwise parts have no named ending; the last page stands in
+  const second = finishedStory({ id: "story-2", series: first.series });
+  delete second.structure!.graph;
+  const next = buildSeriesLink(second, "Mara went north.", "story-3");
+  assert.equal(next.series.part, 3);
+  assert.equal(next.series.id, "story-1");
+  assert.deepEqual(next.series.previous.map(e => e.ending), ["The bell is silenced", "The bell falls silent."]);
+});
+
+test("malformed state, graph and outline entries are skipped", () => {
+  const story = finishedStory();
+  const seed = buildSequelSeed({
+    ...story,
+    structure: { ...story.structure!, graph: { startPageId: "start", nodes: [null, { id: "end-1", endingIndex: 1 }] } },
+    state: { ...story.state!, characters: [null, { name: 4 }, { name: "Tam", status: "exhausted" }], facts: [7, "The reef is open"] },
+    outline: { beats: [null, { setups: [{ payoffPage: 9 }, { description: "Who rang it?", payoffPage: 9 }] }] },
+  } as unknown as Story);
+  assert.ok(seed);
+  assert.equal(seed.ending.title, "The tide rises");
+  assert.deepEqual(seed.survivingCharacters.map(c => c.name), ["Mara", "Ossian", "Tam"]);
+  assert.deepEqual(seed.worldFacts, ["The reef is open"]);
+  assert.deepEqual(seed.openThreads, ["Who rang it?"]);
+  assert.equal(buildSequelSeed({ ...story, structure: { pages: "oops" } } as unknown as Story), null);
+});
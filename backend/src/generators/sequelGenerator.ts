@@ -0,0 +1,226 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { resolveNarrativeStructure } from "./narrativeStructures.js";
+import { buildAudienceGuidance, resolveAudienceSettings } from "./configurationGuidance.js";
+import { buildLanguageGuidance, resolveStoryLanguage } from "./languageGuidance.js";
+import { applyCast, buildCastGuidance, findMissingCastNames } from "./castConfiguration.js";
+import { buildLoreGuidance, toLoreInput } from "./loreGuidance.js";
+import type { LorePassage } from "../lore/loreStore.js";
+import type {
+  CastMember,
+  Character,
+  CharacterStatus,
+  SeriesEntry,
+  Story,
+  StoryDefinition,
+  StorySeries,
+} from "../types/frontend.js";
+
+// How many closing pages are quoted verbatim; earlier ones reach the prompt through memory
+const FINAL_PAGES = 3;
+const DEAD = /\b(dead|died|dies|killed|slain|deceased|perished|executed|destroyed|gone forever)\b/i;
+
+/**
+ * What a sequel is built on: the finished story's bible, the ending the reader actually
+ * reached, who is still alive and which threads were left open.
+ */
+export interface SequelSeed {
+  previousDefinition: StoryDefinition;
+  series: SeriesEntry[];
+  ending: { title?: string; description?: string; finalPages: string[] };
+  storySoFar: string | null;
+  survivingCharacters: { name: string; role?: string; status?: string; relationship?: number }[];
+  fallenCharacters: string[];
+  openThreads: string[];
+  worldFacts: string[];
+  inventory: string[];
+}
+
+export interface SequelResult {
+  definition: StoryDefinition;
+  // What happened in the finished story; becomes its SeriesEntry.summary
+  previously: string;
+}
+
+/**
+ * Collects the seed from a finished Story. Returns null when the story has no
+ * definition or no pages to continue from. The story comes back from the client, so
+ * malformed state, graph and outline entries are skipped rather than trusted.
+ */
+export function buildSequelSeed(story: Story): SequelSeed | null {
+  const definition = story.definition && typeof story.definition === "object" ? story.definition : null;
+  const pages = arrayOf(story.structure?.pages).filter(p => typeof p?.text === "string");
+  const last = pages[pages.length - 1];
+  if (!definition || !last) return null;
+
+  // Graph stories know which ending they reached; stepwise ones are read from the last pages
+  const endingIndex = arrayOf(story.structure?.graph?.nodes).find(n => n?.id === last.id)?.endingIndex;
+  const endingOption = typeof endingIndex === "number" ? arrayOf(definition.endingOptions)[endingIndex] : undefined;
+
+  const statuses: CharacterStatus[] = arrayOf(story.state?.characters).filter(
+    s => typeof s?.name === "string" && typeof s.status === "string",
+  );
+  const characters: Character[] = [
+    definition.protagonist,
+    ...(definition.antagonist ? [definition.antagonist] : []),
+    ...arrayOf(definition.supportingCast),
+  ].filter((c): c is Character => typeof c?.name === "string" && Boolean(c.name.trim()));
+  const statusOf = (name: string) => statuses.find(s => s.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+  const survivingCharacters: SequelSeed["survivingCharacters"] = [];
+  const fallenCharacters: string[] = [];
+  const seen = new Set<string>();
+  for (const { name, role } of [...characters, ...statuses.map(s => ({ name: s.name, role: undefined }))]) {
+    const key = name.trim().toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const status = statusOf(name);
+    if (status && DEAD.test(status.status)) {
+      fallenCharacters.push(name);
+      continue;
+    }
+    survivingCharacters.push({
+      name,
+      ...(role ? { role } : {}),
+      ...(status ? { status: status.status, relationship: status.relationship } : {}),
+    });
+  }
+
+  // Set-ups planned for pages the story never reached were left hanging
+  const openThreads = arrayOf(story.outline?.beats)
+    .flatMap(beat => arrayOf(beat?.setups))
+    .filter(setup => typeof setup?.description === "string" && setup.payoffPage >= pages.length)
+    .map(setup => setup.description);
+
+  return {
+    previousDefinition: definition,
+    series: arrayOf(story.series?.previous),
+    ending: {
+      ...(endingOption ? { title: endingOption.title, description: endingOption.description } : {}),
+      finalPages: pages.slice(-FINAL_PAGES).map(p => p.text),
+    },
+    storySoFar: typeof story.memory?.synopsis === "string" ? story.memory.synopsis.trim() || null : null,
+    survivingCharacters,
+    fallenCharacters,
+    openThreads,
+    worldFacts: arrayOf(story.state?.facts).filter((f): f is string => typeof f === "string"),
+    inventory: arrayOf(story.state?.inventory).filter((i): i is string => typeof i === "string"),
+  };
+}
+
+function arrayOf<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * What to look up in the world bible for a sequel: where the story ended and what was left open.
+ */
+export function buildSequelLoreQuery(seed: SequelSeed): string {
+  return [seed.ending.title, seed.ending.description, seed.ending.finalPages.at(-1), ...seed.openThreads]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Writes the StoryDefinition of the next part of a saga, continuing from the ending
+ * the reader reached. Same configuration (language, audience, structure) as the
+ * finished story; its supplied cast returns unless they fell, and `lore` holds passages
+ * from its world bible documents.
+ */
+export async function generateSequelDefinition(
+  seed: SequelSeed,
+  story: Story,
+  cast: CastMember[] = [],
+  lore: LorePassage[] = [],
+): Promise<SequelResult> {
+  const configuration = story.configuration;
+  const fallen = new Set(seed.fallenCharacters.map(name => name.trim().toLowerCase()));
+  const returning = cast.filter(member => !fallen.has(member.name.trim().toLowerCase()));
+  const structure = resolveNarrativeStructure(configuration.narrativeStructure);
+  const audience = resolveAudienceSettings(configuration);
+  const language = resolveStoryLanguage(configuration);
+  const partNumber = (story.series?.part ?? 1) + 1;
+
+  const instructions = [
+    "You are a showrunner writing the next installment of an interactive saga.",
+    `Write part ${partNumber}: a new, complete story that begins after the ending the reader reached in \`previousDefinition\`.`,
+    "",
+    "Continuity (STRICT):",
+    "- `ending` is what actually happened; other endingOptions of the previous story did NOT happen.",
+    "- Only `survivingCharacters` may appear alive. `fallenCharacters` may be mourned or remembered, never brought back without an in-world explanation.",
+    "- Carry relationships and statuses forward (a betrayed ally stays wary).",
+    "- Pick up at least one of `openThreads` or `worldFacts` as the seed of the new conflict; do not retell the previous plot.",
+    "- Keep the world, its rules and its tone; the protagonist may be the same or a surviving companion.",
+    "- `series` lists earlier parts (oldest first) for older continuity.",
+    "",
+    "The new story:",
+    "- Raise the stakes with a fresh central conflict, a new or evolved antagonist and a new place or layer of the world.",
+    "- Its startHook opens soon after the previous ending and reminds the reader where things stand in one or two sentences.",
+    `- Shape plot and endingOptions for a ${structure.label} (${[structure.opening, ...structure.beats, structure.finale].map(b => b.title).join(" → ")}).`,
+    "",
+    ...buildAudienceGuidance(audience, { narration: false }),
+    "",
+    ...buildLanguageGuidance(language, "every prose field of the definition and `previously`"),
+    "",
+    ...(returning.length > 0 ? [...buildCastGuidance(returning), ""] : []),
+    ...(lore.length > 0 ? [...buildLoreGuidance(lore), ""] : []),
+    "Return STRICT JSON:",
+    "{ \"previously\": string; \"definition\": StoryDefinition }",
+    "- previously: 2–4 sentences on what happened in the previous story, its ending included, for a series recap.",
+    "- definition: the same StoryDefinition shape as `previousDefinition` (title, genre, theme, tagline, overview, plot, conflict,",
+    "  resolution, startHook, endingOptions, protagonist, antagonist, supportingCast, location, worldDescription, timePeriod).",
+    "- Keep genre as in the previous story. Character ids of returning characters stay the same.",
+    "- Do not include commentary, markdown, or explanations.",
+  ].join("\n");
+
+  const loreInput = toLoreInput(lore);
+  const { json } = await generateJsonFromInputs<Partial<SequelResult>>(
+    { ...seed, configuration: { ...configuration, cast: returning }, ...(loreInput ? { lore: loreInput } : {}) },
+    instructions,
+  );
+  const definition = json?.definition;
+  if (!definition || typeof definition !== "object" || typeof definition.title !== "string") {
+    throw new Error("Sequel response has no StoryDefinition");
+  }
+  const previously = typeof json.previously === "string" && json.previously.trim()
+    ? json.previously.trim()
+    : seed.storySoFar ?? seed.previousDefinition.overview;
+  const withCast = applyCast({ ...definition, genre: seed.previousDefinition.genre || definition.genre }, returning);
+  const missing = findMissingCastNames(withCast, returning);
+  if (missing.length > 0) {
+    console.warn("[sequelGenerator] supplied cast missing from the sequel prose", { missing });
+  }
+  return { definition: withCast, previously };
+}
+
+/**
+ * The series link of the sequel and the updated link of the finished story.
+ */
+export function buildSeriesLink(
+  story: Story,
+  previously: string,
+  sequelId: string,
+): { series: StorySeries; previousSeries: StorySeries } {
+  const seed = story.series;
+  const id = seed?.id ?? story.id;
+  const part = seed?.part ?? 1;
+  const pages = story.structure?.pages ?? [];
+  const endingIndex = story.structure?.graph?.nodes.find(n => n.id === pages[pages.length - 1]?.id)?.endingIndex;
+  const entry: SeriesEntry = {
+    storyId: story.id,
+    title: story.definition?.title ?? story.structure?.frontCover?.title ?? "",
+    summary: previously,
+    ending:
+      (endingIndex !== undefined ? story.definition?.endingOptions?.[endingIndex]?.title : undefined) ??
+      firstSentence(pages[pages.length - 1]?.text ?? ""),
+  };
+  return {
+    series: { id, part: part + 1, previous: [...(seed?.previous ?? []), entry] },
+    previousSeries: { id, part, previous: seed?.previous ?? [], ...(seed?.recap ? { recap: seed.recap } : {}), nextStoryId: sequelId },
+  };
+}
+
+// Stepwise stories have no named ending; the last page's opening sentence stands in
+function firstSentence(text: string): string {
+  const sentence = (text.trim().match(/^[^.!?]*[.!?]?/)?.[0] ?? "").trim();
+  return sentence.length > 160 ? `${sentence.slice(0, 157).trimEnd()}…` : sentence;
+}
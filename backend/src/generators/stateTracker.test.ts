@@ -0,0 +1,83 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { createInitialStoryState, normalizeStoryState } from "./stateTracker.js";
+import type { StoryDefinition, StoryState } from "../types/frontend.js";
+
+const previous: StoryState = {
+  location: "Velmora",
+  timeOfDay: "dawn",
+  inventory: ["rope"],
+  characters: [{ characterId: "tam", name: "Tam", status: "exhausted", relationship: 20 }],
+  facts: ["The bell is silent"],
+  flags: { metTam: true },
+  stats: { courage: 2 },
+};
+
+test("the initial state lists every named character at a neutral score", () => {
+  const state = createInitialStoryState({
+    location: "Velmora",
+    protagonist: { id: "mara", name: "Mara", role: "diver" },
+    supportingCast: [{ id: "tam", name: "Tam", role: "ferryman" }, { id: "ghost", name: "", role: "echo" }],
+  } as unknown as StoryDefinition);
+  assert.equal(state.location, "Velmora");
+  assert.deepEqual(state.characters.map(c => [c.name, c.relationship]), [["Mara", 0], ["Tam", 0]]);
+});
+
+test("malformed fields fall back to the previous state", () => {
+  const state = normalizeStoryState({ location: 4, inventory: "rope", characters: null, flags: ["x"], stats: 3 }, previous);
+  assert.deepEqual(state, previous);
+  assert.deepEqual(normalizeStoryState(null), {
+    location: "",
+    timeOfDay: "",
+    inventory: [],
+    characters: [],
+    facts: [],
+    flags: {},
+    stats: {},
+  });
+});
+
+test("lists are cleaned, de-duplicated and capped", () => {
+  const state = normalizeStoryState(
+    {
+      location: `  The   ${"long ".repeat(60)}hall `,
+      inventory: ["Lamp", "lamp", 7, "  ", ...Array.from({ length: 30 }, (_, i) => `item ${i}`)],
+      facts: Array.from({ length: 40 }, (_, i) => `fact ${i}`),
+    },
+    previous,
+  );
+  assert.ok(state.location.startsWith("The long"));
+  assert.ok(state.location.length <= 200);
+  assert.equal(state.inventory.length, 20);
+  assert.deepEqual(state.inventory.slice(0, 2), ["Lamp", "item 0"]);
+  // The newest facts are kept
+  assert.equal(state.facts.length, 30);
+  assert.equal(state.facts[0], "fact 10");
+  assert.equal(state.facts[29], "fact 39");
+});
+
+test("character relationships are clamped and statuses filled in", () => {
+  const state = normalizeStoryState({
+    characters: [
+      { name: "Tam", relationship: 250.4 },
+      { name: "Ossian", characterId: "ossian", status: "wounded", relationship: -900 },
+      { name: "Tam", relationship: 10 },
+      { name: "Nix", relationship: Number.NaN },
+      { relationship: 5 },
+    ],
+  });
+  assert.deepEqual(state.characters, [
+    { characterId: "tam", name: "Tam", status: "unknown", relationship: 100 },
+    { characterId: "ossian", name: "Ossian", status: "wounded", relationship: -100 },
+    { characterId: "nix", name: "Nix", status: "unknown", relationship: 0 },
+  ]);
+});
+
+test("only boolean flags and finite stats are kept", () => {
+  const state = normalizeStoryState({
+    flags: { " metTam ": true, lit: "yes", "": false },
+    stats: { courage: 3, luck: Number.POSITIVE_INFINITY, gold: "12" },
+  });
+  assert.deepEqual(state.flags, { metTam: true });
+  assert.deepEqual(state.stats, { courage: 3 });
+});
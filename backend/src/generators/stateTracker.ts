@@ -0,0 +1,184 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { applyOptionEffects, sanitizeEffects } from "./optionRules.js";
+import { isFreeTextOption } from "./playerInput.js";
+import type {
+  Character,
+  CharacterStatus,
+  OptionObject,
+  StoryDefinition,
+  StoryPage,
+  StoryState,
+} from "../types/frontend.js";
+
+const MAX_INVENTORY_ITEMS = 20;
+const MAX_FACTS = 30;
+const MAX_FIELD_CHARS = 200;
+
+/**
+ * Seeds a StoryState from the definition: setting plus every named character
+ * at a neutral relationship score.
+ */
+export function createInitialStoryState(definition: StoryDefinition): StoryState {
+  const cast: Character[] = [
+    definition?.protagonist,
+    definition?.antagonist,
+    ...(Array.isArray(definition?.supportingCast) ? definition.supportingCast : []),
+  ].filter((c): c is Character => Boolean(c && c.name));
+  return {
+    location: clip(definition?.location ?? ""),
+    timeOfDay: "",
+    inventory: [],
+    characters: cast.map(c => ({
+      characterId: String(c.id ?? ""),
+      name: c.name,
+      status: "unhurt",
+      relationship: 0,
+    })),
+    facts: [],
+    flags: {},
+    stats: {},
+  };
+}
+
+/**
+ * Extraction pass run after each choice: reads the page the reader just finished
+ * and the option they picked, and returns the updated StoryState.
+ * Flags and stats are engine-owned: the model never edits them, the chosen
+ * option's effects are applied deterministically afterwards.
+ */
+export async function extractStoryState(
+  previous: StoryState | null,
+  page: Pick<StoryPage, "id" | "text">,
+  chosenOption: Pick<OptionObject, "id" | "text" | "effects" | "action"> | null,
+  definition: StoryDefinition,
+): Promise<StoryState> {
+  const base = previous ?? createInitialStoryState(definition);
+  const instructions = [
+    "You are the continuity editor of an interactive story. You track the world state precisely.",
+    "Return STRICT JSON matching this TypeScript shape:",
+    "",
+    "interface CharacterStatus {",
+    "  characterId: string;",
+    "  name: string;",
+    "  status: string;",
+    "  relationship: number; // -100 hostile .. 100 devoted, towards the protagonist",
+    "}",
+    "",
+    "interface StoryState {",
+    "  location: string;",
+    "  timeOfDay: string;",
+    "  inventory: string[];",
+    "  characters: CharacterStatus[];",
+    "  facts: string[];",
+    "}",
+    "",
+    "Rules:",
+    "- Start from `previousState` and apply ONLY what `page.text` and `chosenOption` establish.",
+    "- location/timeOfDay: where and when the protagonist is at the END of the page, after the chosen option begins.",
+    "- inventory: items the protagonist carries. Add what was picked up or given; remove what was lost, used up or handed over.",
+    "- characters: keep every existing entry and its characterId. Update status for injuries, capture, death, disguise, etc.",
+    "  Add newly introduced named characters (use a kebab-case characterId). Nudge relationship by at most ±30 per page.",
+    "- facts: short, concrete statements later pages must not contradict (secrets revealed, promises made, doors locked).",
+    "  Keep earlier facts unless the page explicitly overturns them. Maximum 30 facts; drop the least important first.",
+    "- Never invent events that are not on the page. If nothing changed, return previousState unchanged.",
+    "- Do not output flags or stats; the engine manages them.",
+    "- If chosenOption.typedByReader is true, it is only an attempt the reader typed: it has not happened yet, so do not apply it.",
+  ].join("\n");
+
+  const { json } = await generateJsonFromInputs<StoryState>(
+    {
+      protagonist: definition?.protagonist?.name ?? null,
+      previousState: { ...base, flags: undefined, stats: undefined },
+      page: { id: page.id, text: page.text },
+      chosenOption: chosenOption
+        ? { id: chosenOption.id, text: chosenOption.text, typedByReader: isFreeTextOption(chosenOption) }
+        : null,
+    },
+    instructions,
+  );
+  const extracted: StoryState = { ...normalizeStoryState(json, base), flags: base.flags, stats: base.stats };
+  return { ...applyOptionEffects(extracted, sanitizeEffects(chosenOption?.effects)), updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Sanitizes a StoryState (from the model or the client). Missing or malformed
+ * fields fall back to `fallback`, lists are de-duplicated and capped.
+ */
+export function normalizeStoryState(input: unknown, fallback?: StoryState | null): StoryState {
+  const raw = (input && typeof input === "object" ? input : {}) as Partial<StoryState>;
+  const prev = fallback ?? { location: "", timeOfDay: "", inventory: [], characters: [], facts: [], flags: {}, stats: {} };
+  const out: StoryState = {
+    location: typeof raw.location === "string" ? clip(raw.location) : prev.location,
+    timeOfDay: typeof raw.timeOfDay === "string" ? clip(raw.timeOfDay) : prev.timeOfDay,
+    inventory: Array.isArray(raw.inventory) ? dedupeStrings(raw.inventory).slice(0, MAX_INVENTORY_ITEMS) : prev.inventory,
+    characters: Array.isArray(raw.characters) ? normalizeCharacters(raw.characters) : prev.characters,
+    facts: Array.isArray(raw.facts) ? dedupeStrings(raw.facts).slice(-MAX_FACTS) : prev.facts,
+    flags: isRecord(raw.flags) ? normalizeFlags(raw.flags) : prev.flags,
+    stats: isRecord(raw.stats) ? normalizeStats(raw.stats) : prev.stats,
+  };
+  if (typeof raw.updatedAt === "string") out.updatedAt = raw.updatedAt;
+  return out;
+}
+
+function normalizeCharacters(list: unknown[]): CharacterStatus[] {
+  const seen = new Set<string>();
+  const out: CharacterStatus[] = [];
+  for (const item of list) {
+    const c = (item ?? {}) as Partial<CharacterStatus>;
+    const name = typeof c.name === "string" ? clip(c.name) : "";
+    if (!name) continue;
+    const characterId = typeof c.characterId === "string" && c.characterId.trim() ? c.characterId.trim() : toKebab(name);
+    if (seen.has(characterId)) continue;
+    seen.add(characterId);
+    const score = typeof c.relationship === "number" && Number.isFinite(c.relationship) ? Math.round(c.relationship) : 0;
+    out.push({
+      characterId,
+      name,
+      status: typeof c.status === "string" && c.status.trim() ? clip(c.status) : "unknown",
+      relationship: Math.max(-100, Math.min(100, score)),
+    });
+  }
+  return out;
+}
+
+function normalizeFlags(input: Record<string, unknown>): Record<string, boolean> {
+  const out: Record<string, boolean> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value === "boolean" && key.trim()) out[key.trim()] = value;
+  }
+  return out;
+}
+
+function normalizeStats(input: Record<string, unknown>): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (typeof value === "number" && Number.isFinite(value) && key.trim()) out[key.trim()] = value;
+  }
+  return out;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function dedupeStrings(list: unknown[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const item of list) {
+    const v = typeof item === "string" ? clip(item) : "";
+    const key = v.toLowerCase();
+    if (!v || seen.has(key)) continue;
+    seen.add(key);
+    out.push(v);
+  }
+  return out;
+}
+
+function clip(value: string): string {
+  const v = value.replace(/\s+/g, " ").trim();
+  return v.length > MAX_FIELD_CHARS ? v.slice(0, MAX_FIELD_CHARS).trimEnd() : v;
+}
+
+function toKebab(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "character";
+}
@@ -0,0 +1,243 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { sanitizePlayerAction } from "./playerInput.js";
+import type { OptionAction, StoryConfiguration, StoryDefinition, StoryMemory, StoryPathEntry } from "../types/frontend.js";
+
+// Prompt budget for the "story so far" section
+const STORY_PATH_CHAR_BUDGET = 6000;
+const STORY_PATH_VERBATIM_PAGES = 3;
+const STORY_PATH_CONDENSED_CHARS = 220;
+const STORY_PATH_MAX_ENTRIES = 40;
+// Per-entry caps on client-supplied history; generated pages stay well inside them
+const STORY_PATH_PAGE_CHARS = 5000;
+const STORY_PATH_ID_CHARS = 100;
+const STORY_PATH_CHOICE_CHARS = 500;
+const GENERATED_OPTION_TYPES: OptionAction["type"][] = ["goToNextPage", "branch", "goToPage"];
+// Hard cap on the running synopsis so it never grows back into the problem it solves
+const SYNOPSIS_CHAR_LIMIT = 1200;
+
+/**
+ * When to fold older pages into the synopsis.
+ * - recentWindow: pages at the end of the path that always stay verbatim
+ * - compressBatch: how many pages must sit outside the window before we pay for a summarization call
+ */
+export interface MemoryPolicy {
+  recentWindow: number;
+  compressBatch: number;
+}
+
+/**
+ * Pages [from, to) of the reading path that should be folded into the synopsis.
+ */
+export interface MemoryCompressionPlan {
+  from: number;
+  to: number;
+}
+
+/**
+ * Resolves the compression policy for a configuration. Long and dense stories
+ * keep a tighter verbatim window; small stories effectively never compress.
+ */
+export function resolveMemoryPolicy(configuration?: Pick<StoryConfiguration, "length" | "density"> | null): MemoryPolicy {
+  const length = configuration?.length ?? "medium";
+  const density = configuration?.density ?? "medium";
+  if (length === "long") {
+    return density === "dense"
+      ? { recentWindow: 3, compressBatch: 2 }
+      : { recentWindow: 4, compressBatch: 3 };
+  }
+  if (length === "medium" && density === "dense") {
+    return { recentWindow: 4, compressBatch: 3 };
+  }
+  return { recentWindow: 5, compressBatch: 3 };
+}
+
+/**
+ * Decides whether the memory needs compressing for a path of `pathLength` pages.
+ * Returns null when the unsummarized tail still fits in the window (plus batch slack).
+ */
+export function planMemoryCompression(
+  memory: StoryMemory | null,
+  pathLength: number,
+  policy: MemoryPolicy,
+): MemoryCompressionPlan | null {
+  const from = memory && memory.summarizedPageCount <= pathLength ? memory.summarizedPageCount : 0;
+  const to = pathLength - policy.recentWindow;
+  if (to - from < policy.compressBatch) return null;
+  return { from, to };
+}
+
+/**
+ * Folds pages that fell out of the verbatim window into the running synopsis.
+ * Returns the memory unchanged when the policy says no compression is due.
+ */
+export async function updateStoryMemory(
+  memory: StoryMemory | null,
+  path: StoryPathEntry[],
+  definition: StoryDefinition,
+  configuration?: StoryConfiguration | null,
+): Promise<StoryMemory> {
+  const current = isUsableMemory(memory, path) ? memory : null;
+  const base: StoryMemory = current ?? { synopsis: "", summarizedPageCount: 0 };
+  const plan = planMemoryCompression(current, path.length, resolveMemoryPolicy(configuration));
+  if (!plan) return base;
+
+  const instructions = [
+    "You maintain the running synopsis of an interactive story so later pages stay consistent.",
+    "Return STRICT JSON matching: { \"synopsis\": string }",
+    "",
+    "Rules:",
+    "- Merge `previousSynopsis` with `pagesToFold` into ONE updated synopsis, in story order.",
+    "- Keep every fact later pages may depend on: who is where, injuries, items gained or lost, promises, secrets revealed, relationships changed, and the choices the reader made.",
+    "- Drop atmosphere, imagery and dialogue wording; keep consequences.",
+    `- Past tense, third person, plain prose. Maximum ${SYNOPSIS_CHAR_LIMIT} characters.`,
+    "- Do not invent events that are not in the input.",
+  ].join("\n");
+
+  const { json } = await generateJsonFromInputs<{ synopsis?: string }>(
+    {
+      story: { title: definition?.title, protagonist: definition?.protagonist?.name },
+      previousSynopsis: base.synopsis || null,
+      pagesToFold: path.slice(plan.from, plan.to).map((entry, idx) => ({
+        page: plan.from + idx + 1,
+        text: entry.text,
+        chosenOption: entry.chosenOption?.text ?? null,
+      })),
+    },
+    instructions,
+  );
+  const synopsis = clipToSentence(String(json?.synopsis ?? "").trim(), SYNOPSIS_CHAR_LIMIT);
+  if (!synopsis) return base;
+  return {
+    synopsis,
+    summarizedPageCount: plan.to,
+    throughPageId: path[plan.to - 1]?.pageId ?? "",
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sanitizes a client-supplied StoryMemory; returns null when unusable.
+ */
+export function normalizeStoryMemory(input: unknown): StoryMemory | null {
+  const raw = input as Partial<StoryMemory> | null | undefined;
+  if (!raw || typeof raw !== "object") return null;
+  const synopsis = typeof raw.synopsis === "string" ? raw.synopsis.trim() : "";
+  const count = typeof raw.summarizedPageCount === "number" && Number.isInteger(raw.summarizedPageCount)
+    ? raw.summarizedPageCount
+    : 0;
+  if (!synopsis || count <= 0) return null;
+  const out: StoryMemory = { synopsis: clipToSentence(synopsis, SYNOPSIS_CHAR_LIMIT), summarizedPageCount: count };
+  if (typeof raw.throughPageId === "string") out.throughPageId = raw.throughPageId.slice(0, STORY_PATH_ID_CHARS);
+  if (typeof raw.updatedAt === "string") out.updatedAt = raw.updatedAt;
+  return out;
+}
+
+/**
+ * Builds the "story so far" prompt section: the synopsis (when it still matches
+ * the path) followed by the remaining pages via buildStoryPathSection.
+ */
+export function buildStorySoFarSection(path: StoryPathEntry[], memory: StoryMemory | null): string {
+  if (!isUsableMemory(memory, path)) {
+    return buildStoryPathSection(path);
+  }
+  const folded = memory.summarizedPageCount;
+  const synopsisBlock = `Synopsis of pages 1–${folded}: ${memory.synopsis}`;
+  const budget = Math.max(1000, STORY_PATH_CHAR_BUDGET - synopsisBlock.length);
+  const rest = buildStoryPathSection(path.slice(folded), budget, folded);
+  return rest ? `${synopsisBlock}\n\n${rest}` : synopsisBlock;
+}
+
+function isUsableMemory(memory: StoryMemory | null, path: StoryPathEntry[]): memory is StoryMemory {
+  // Memory folded on another branch (or before ids were recorded) does not describe this path
+  if (!memory || !memory.synopsis || memory.summarizedPageCount <= 0 || !memory.throughPageId) return false;
+  return path[memory.summarizedPageCount - 1]?.pageId === memory.throughPageId;
+}
+
+function clipToSentence(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const clipped = text.slice(0, limit);
+  const lastStop = Math.max(clipped.lastIndexOf(". "), clipped.lastIndexOf("! "), clipped.lastIndexOf("? "));
+  return (lastStop > 0 ? clipped.slice(0, lastStop + 1) : clipped).trim();
+}
+
+/**
+ * Sanitizes a client-supplied reading history. Drops malformed entries and
+ * keeps only the most recent STORY_PATH_MAX_ENTRIES. Actions the reader typed go back
+ * into every later prompt, so they get the same cleaning as a new typed action and are
+ * left out if they fail it; a choice without an action type is treated as typed.
+ * Generated options are kept as written, only clipped.
+ */
+export function normalizeStoryPath(input: unknown): StoryPathEntry[] {
+  if (!Array.isArray(input)) return [];
+  const out: StoryPathEntry[] = [];
+  for (const raw of input) {
+    const entry = raw as Partial<StoryPathEntry> | null;
+    const text = typeof entry?.text === "string" ? entry.text.trim().slice(0, STORY_PATH_PAGE_CHARS) : "";
+    if (!text) continue;
+    const normalized: StoryPathEntry = {
+      pageId: typeof entry?.pageId === "string" ? entry.pageId.slice(0, STORY_PATH_ID_CHARS) : "",
+      text,
+    };
+    const option = entry?.chosenOption;
+    const type = GENERATED_OPTION_TYPES.find(t => t === option?.action?.type) ?? "freeText";
+    const chosen = normalizeChosenText(option?.text, type);
+    if (chosen) {
+      normalized.chosenOption = {
+        id: typeof option?.id === "string" ? option.id.slice(0, STORY_PATH_ID_CHARS) : "",
+        text: chosen,
+        action: { type },
+      };
+    }
+    out.push(normalized);
+  }
+  return out.slice(-STORY_PATH_MAX_ENTRIES);
+}
+
+function normalizeChosenText(text: unknown, type: OptionAction["type"]): string {
+  if (type === "freeText") {
+    const typed = sanitizePlayerAction(text);
+    return typed.ok ? typed.text : "";
+  }
+  return typeof text === "string" ? text.trim().slice(0, STORY_PATH_CHOICE_CHARS) : "";
+}
+
+/**
+ * Renders the reading history as a bounded prompt section.
+ * The most recent pages are kept verbatim; older pages are condensed to their
+ * opening lines, and the oldest are dropped once the character budget is spent.
+ */
+export function buildStoryPathSection(
+  path: StoryPathEntry[],
+  budget: number = STORY_PATH_CHAR_BUDGET,
+  pageOffset = 0,
+): string {
+  if (path.length === 0) return "";
+  const blocks: string[] = [];
+  let used = 0;
+  let omitted = 0;
+  for (let i = path.length - 1; i >= 0; i--) {
+    const entry = path[i]!;
+    const isRecent = path.length - 1 - i < STORY_PATH_VERBATIM_PAGES;
+    const body = isRecent ? entry.text : condensePageText(entry.text);
+    const choice = entry.chosenOption ? `\nChosen: ${entry.chosenOption.text}` : "";
+    const block = `Page ${pageOffset + i + 1}: ${body}${choice}`;
+    if (used + block.length > budget && blocks.length > 0) {
+      omitted = i + 1;
+      break;
+    }
+    blocks.unshift(block);
+    used += block.length;
+  }
+  if (omitted > 0) {
+    blocks.unshift(`[${omitted} earlier page${omitted === 1 ? "" : "s"} omitted]`);
+  }
+  return blocks.join("\n\n");
+}
+
+function condensePageText(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= STORY_PATH_CONDENSED_CHARS) return flat;
+  const clipped = flat.slice(0, STORY_PATH_CONDENSED_CHARS);
+  const lastStop = Math.max(clipped.lastIndexOf(". "), clipped.lastIndexOf("! "), clipped.lastIndexOf("? "));
+  return lastStop > 0 ? clipped.slice(0, lastStop + 1) : `${clipped.trimEnd()}…`;
+}
@@ -1,5 +1,7 @@
 import { generateJsonFromInputs } from "../agents/textAgent.js";
-import { type StoryConfiguration, type StoryDefinition, type StoryPage, type ImageObject } from "../types/frontend.js";
+import { buildAudienceGuidance, buildReadabilityRetryNote, checkReadingLevel, resolveAudienceSettings } from "./configurationGuidance.js";
+import { buildLanguageGuidance, resolveStoryLanguage } from "./languageGuidance.js";
+import { type StoryConfiguration, type StoryDefinition, type StoryPage, type ImageObject, type StorySeries } from "../types/frontend.js";
 
 export interface BackCoverSummary {
   summary: string;
@@ -16,6 +18,8 @@ export async function generateBackCoverSummary(
   configuration?: StoryConfiguration | null,
 ): Promise<BackCoverSummary> {
   const safePages = Array.isArray(pages) ? pages : [];
+  const audience = resolveAudienceSettings(configuration);
+  const language = resolveStoryLanguage(configuration);
   // Character limit guidance (hard cap)
   const charLimit = 400;
   const charGuidance = `Maximum ${charLimit} characters (aim for 320–400) in one paragraph.`;
@@ -50,16 +54,28 @@ export async function generateBackCoverSummary(
     "Image (back cover) JSON fields:",
     "- image.prompt: One sentence for a subtle back‑cover motif that complements (not duplicates) the front cover. Mention mood/lighting, palette, and 1–2 concrete motifs tied to the world/setting. Avoid text, logos, character faces, and spoilers.",
     "- image.alt: 8–14 words, natural language, describing the same motif for accessibility.",
+    "",
+    ...buildAudienceGuidance(audience, { narration: false }),
+    "",
+    ...buildLanguageGuidance(language, "summary and image.alt"),
   ].join("\n");
 
-  const { json } = await generateJsonFromInputs<BackCoverSummary>(
-    {
-      definition,
-      pages: safePages.map(p => ({ id: p.id, text: p.text })), // trim to essentials
-      configuration: configuration ?? null,
-    },
-    instructions,
-  );
+  const inputs = {
+    definition,
+    pages: safePages.map(p => ({ id: p.id, text: p.text })), // trim to essentials
+    configuration: configuration ?? null,
+  };
+  let { json } = await generateJsonFromInputs<BackCoverSummary>(inputs, instructions);
+  // Rewrite once if the blurb reads above the configured level
+  const check = checkReadingLevel(json?.summary ?? "", audience.readingLevel, language);
+  if (!check.ok) {
+    try {
+      const retry = await generateJsonFromInputs<BackCoverSummary>(inputs, `${instructions}\n\n${buildReadabilityRetryNote(check)}`);
+      if (checkReadingLevel(retry.json?.summary ?? "", audience.readingLevel, language).grade < check.grade) json = retry.json;
+    } catch {
+      // keep the first blurb
+    }
+  }
   // Enforce hard character limit on the returned JSON
   const limit = charLimit;
   const original = (json?.summary ?? "").trim();
@@ -81,4 +97,50 @@ export async function generateBackCoverSummary(
   return sanitized;
 }
 
+export interface SeriesRecap {
+  recap: string;
+}
+
+/**
+ * "Previously…" recap read before a later part of a series: what happened in the
+ * earlier parts, endings included, in the order they happened.
+ */
+export async function generateSeriesRecap(
+  series: StorySeries,
+  definition?: StoryDefinition | null,
+  configuration?: StoryConfiguration | null,
+): Promise<SeriesRecap> {
+  const audience = resolveAudienceSettings(configuration);
+  const language = resolveStoryLanguage(configuration);
+  const charLimit = 600;
 
+  const instructions = [
+    "You are the narrator of a serialized saga. Write the \"Previously…\" recap read before the next part begins.",
+    "Return STRICT JSON matching: { \"recap\": string }",
+    "",
+    "Requirements for recap:",
+    `- Maximum ${charLimit} characters, one paragraph, past tense.`,
+    "- Cover the earlier parts in `previous` in order, weighting the most recent one; state how each ended.",
+    "- Name the characters who matter going forward. Skip minor detours.",
+    "- When `definition` (the part about to start) is given, end on the situation it opens with, without spoiling its plot.",
+    "- No meta commentary (\"in the last book\", \"readers\"); tell it as the story itself.",
+    "",
+    ...buildAudienceGuidance(audience, { narration: true }),
+    "",
+    ...buildLanguageGuidance(language, "recap"),
+  ].join("\n");
+
+  const inputs = {
+    part: series.part,
+    previous: series.previous.map(({ title, summary, ending }) => ({ title, summary, ending })),
+    definition: definition ? { title: definition.title, startHook: definition.startHook, protagonist: definition.protagonist?.name } : null,
+    configuration: configuration ?? null,
+  };
+  const { json } = await generateJsonFromInputs<Partial<SeriesRecap>>(inputs, instructions);
+  const recap = (typeof json?.recap === "string" ? json.recap : "").trim();
+  if (!recap) throw new Error("Recap response is empty");
+  if (recap.length <= charLimit) return { recap };
+  const clipped = recap.slice(0, charLimit);
+  const lastStop = Math.max(clipped.lastIndexOf(". "), clipped.lastIndexOf("! "), clipped.lastIndexOf("? "));
+  return { recap: (lastStop > 0 ? clipped.slice(0, lastStop + 1) : clipped).trim() };
+}
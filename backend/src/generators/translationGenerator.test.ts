@@ -0,0 +1,90 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { applySegments, checkTranslatableStory, collectSegments, mapPageText, mergeGlossary } from "./translationGenerator.js";
+import type { Story, StoryPage } from "../types/frontend.js";
+
+const page: StoryPage = {
+  id: "p1",
+  text: "The gate creaks open.",
+  image: { alt: "A rusted gate", prompt: "rusted iron gate at dusk" },
+  options: [
+    {
+      id: "talk",
+      text: "Talk to the guard",
+      action: {
+        type: "branch",
+        text: "The guard squints at you.",
+        options: [{ id: "bribe", text: "Offer a coin", action: { type: "goToNextPage" }, requires: [{ type: "item", item: "coin" }] }],
+      },
+    },
+    { id: "free", text: "Write your own action", action: { type: "freeText", placeholder: "What do you do?" } },
+  ],
+};
+
+test("page segments cover text, alt, options and nested branch options", () => {
+  assert.deepEqual(
+    collectSegments(page, mapPageText).map(s => s.key),
+    [
+      "text",
+      "options.0.text",
+      "options.0.action.text",
+      "options.0.action.options.0.text",
+      "options.1.text",
+      "options.1.action.placeholder",
+      "image.alt",
+    ],
+  );
+});
+
+test("applying segments keeps ids, actions, rules and image prompts", () => {
+  const translated = applySegments(
+    page,
+    mapPageText,
+    new Map([
+      ["text", "La puerta se abre chirriando."],
+      ["options.0.action.options.0.text", "Ofrecer una moneda"],
+    ]),
+  );
+  assert.equal(translated.text, "La puerta se abre chirriando.");
+  assert.equal(translated.image?.prompt, "rusted iron gate at dusk");
+  const branch = translated.options[0]!.action;
+  assert.equal(branch.type, "branch");
+  if (branch.type === "branch") {
+    assert.deepEqual(branch.options[0], {
+      id: "bribe",
+      text: "Ofrecer una moneda",
+      action: { type: "goToNextPage" },
+      requires: [{ type: "item", item: "coin" }],
+    });
+    // Untranslated keys keep the source text
+    assert.equal(branch.text, "The guard squints at you.");
+  }
+  assert.equal(page.text, "The gate creaks open.");
+});
+
+test("the glossary keeps the first rendering of a term", () => {
+  const merged = mergeGlossary(
+    [{ source: "Silverbrook", target: "Arroyoplata" }],
+    [{ source: "silverbrook", target: "Silverbrook" }, { source: "Mara", target: "Mara" }],
+  );
+  assert.deepEqual(merged, [
+    { source: "Silverbrook", target: "Arroyoplata" },
+    { source: "Mara", target: "Mara" },
+  ]);
+});
+
+test("stories with text or lists of the wrong shape are refused before translating", () => {
+  const story = (parts: Partial<Story>): Story => ({ configuration: { language: "en" }, ...parts }) as unknown as Story;
+  const structure = { frontCover: { title: "The Gate", tagline: "" }, pages: [page], backCover: { summary: "" } };
+  assert.deepEqual(checkTranslatableStory(story({ structure } as Partial<Story>)), { ok: true });
+
+  const broken = (parts: unknown) => checkTranslatableStory(story(parts as Partial<Story>));
+  assert.deepEqual(broken({ structure: { ...structure, pages: "p1" } }), { ok: false, error: "Invalid story: structure.pages must be an array." });
+  assert.match(
+    (broken({ structure: { ...structure, pages: [{ ...page, options: [{ id: "go", text: "Go" }] }] } }) as { error: string }).error,
+    /structure\.pages\.0\.options\.0\.action/,
+  );
+  assert.match((broken({ definition: { title: 7, protagonist: { name: "Mara", role: "diver" } } }) as { error: string }).error, /definition\.title/);
+  assert.match((broken({ definition: { title: "The Gate" } }) as { error: string }).error, /definition\.protagonist/);
+  assert.match((broken({ tree: { nodes: {}, offPathPages: { x: { id: "x", text: 3 } } } }) as { error: string }).error, /tree\.offPathPages\.x/);
+});
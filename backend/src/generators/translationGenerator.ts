@@ -0,0 +1,472 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { getLanguageName, resolveStoryLanguage } from "./languageGuidance.js";
+import type {
+  BackCover,
+  Character,
+  FrontCover,
+  OptionObject,
+  Story,
+  StoryDefinition,
+  StoryLanguage,
+  StoryPage,
+} from "../types/frontend.js";
+
+// Names and invented terms with their agreed rendering, shared by every page
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+// One translatable string, addressed by its path inside the document (e.g. "options.0.text")
+export interface TextSegment {
+  key: string;
+  text: string;
+}
+
+type TextMapper = (key: string, text: string) => string;
+
+interface SegmentTranslation {
+  segments: Map<string, string>;
+  glossary: GlossaryEntry[];
+}
+
+export type TranslatableStoryResult = { ok: true } | { ok: false; error: string };
+
+const MAX_GLOSSARY_ENTRIES = 80;
+const DEFINITION_TEXT_FIELDS = [
+  "title",
+  "theme",
+  "tagline",
+  "overview",
+  "plot",
+  "conflict",
+  "resolution",
+  "startHook",
+  "location",
+  "worldDescription",
+  "timePeriod",
+] as const;
+const CHARACTER_TEXT_FIELDS = ["name", "role", "description", "motivation", "backstory"] as const;
+
+/**
+ * Translates a whole Story into `target`. Ids, option actions, requirements and the
+ * tree shape are kept; only reader-facing text changes. A glossary of names and
+ * invented terms is built from the definition first and grows page by page, so a
+ * name is rendered the same way everywhere. Engine-facing data (outline, state,
+ * memory) and image prompts are left as they are; generation reads them in any language.
+ */
+export async function translateStory(story: Story, target: StoryLanguage): Promise<Story> {
+  const source = resolveStoryLanguage(story.configuration);
+  const definition = story.definition;
+  let glossary = definition ? await buildTranslationGlossary(definition, source, target) : [];
+
+  const translateDoc = async <T>(doc: T, mapper: (doc: T, fn: TextMapper) => T, context: string): Promise<T> => {
+    const segments = collectSegments(doc, mapper);
+    if (segments.length === 0) return doc;
+    const result = await translateSegments(segments, { source, target, glossary, context });
+    glossary = mergeGlossary(glossary, result.glossary);
+    return applySegments(doc, mapper, result.segments);
+  };
+
+  const translated: Story = { ...story, configuration: { ...story.configuration, language: target }, updatedAt: new Date().toISOString() };
+  if (definition) {
+    translated.definition = await translateDoc(definition, mapDefinitionText, "the story bible (definition)");
+  }
+
+  const structure = story.structure;
+  if (!structure && !story.tree) return translated;
+
+  // A page can appear in the reading path, the graph and the tree; translate each id once
+  const pagesById = new Map<string, StoryPage>();
+  for (const page of [
+    ...(structure?.pages ?? []),
+    ...(structure?.graph?.nodes ?? []),
+    ...Object.values(story.tree?.offPathPages ?? {}),
+  ]) {
+    if (page?.id && !pagesById.has(page.id)) pagesById.set(page.id, page);
+  }
+  const translatedPages = new Map<string, StoryPage>();
+  let pageNumber = 0;
+  for (const [id, page] of pagesById) {
+    pageNumber += 1;
+    translatedPages.set(id, await translateDoc(page, mapPageText, `story page ${pageNumber} of ${pagesById.size}`));
+  }
+  const swap = <P extends StoryPage>(page: P): P => ({ ...page, ...translatedPages.get(page.id) });
+
+  if (structure) {
+    const covers = await translateDoc(
+      { frontCover: structure.frontCover, backCover: structure.backCover },
+      mapCoversText,
+      "the front and back covers",
+    );
+    translated.structure = {
+      ...structure,
+      ...covers,
+      pages: structure.pages.map(swap),
+      ...(structure.graph ? { graph: { ...structure.graph, nodes: structure.graph.nodes.map(swap) } } : {}),
+    };
+  }
+
+  if (story.tree) {
+    const tree = story.tree;
+    const nodes = { ...tree.nodes };
+    // Chosen options read back from the translated parent page; typed actions are translated as text
+    const typed: TextSegment[] = [];
+    for (const [id, node] of Object.entries(nodes)) {
+      if (!node.chosenOptionText) continue;
+      const parent = node.parentId ? translatedPages.get(node.parentId) : undefined;
+      const option = parent && findOption(parent.options, node.chosenOptionId);
+      if (option && option.action.type !== "freeText") {
+        nodes[id] = { ...node, chosenOptionText: option.text };
+      } else {
+        typed.push({ key: id, text: node.chosenOptionText });
+      }
+    }
+    if (typed.length > 0) {
+      const result = await translateSegments(typed, { source, target, glossary, context: "actions the reader typed" });
+      for (const { key } of typed) {
+        const text = result.segments.get(key);
+        if (text && nodes[key]) nodes[key] = { ...nodes[key], chosenOptionText: text };
+      }
+    }
+    translated.tree = {
+      ...tree,
+      nodes,
+      offPathPages: Object.fromEntries(Object.entries(tree.offPathPages).map(([id, page]) => [id, swap(page)])),
+    };
+  }
+  return translated;
+}
+
+/**
+ * Checks the parts of a Story that translation reads: every text it rewrites must be a
+ * string and every list it walks an array. Stories come from the browser's storage, so
+ * a malformed one is refused up front rather than failing halfway through the model calls.
+ */
+export function checkTranslatableStory(story: Story): TranslatableStoryResult {
+  const problem = findDefinitionProblem(story.definition) ?? findStructureProblem(story.structure) ?? findTreeProblem(story.tree);
+  return problem ? { ok: false, error: `Invalid story: ${problem}.` } : { ok: true };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isOptionalText(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+function findImageProblem(image: unknown, label: string): string | null {
+  if (image === undefined || image === null) return null;
+  return isRecord(image) && isOptionalText(image.alt) ? null : `${label}.image must be an object with a text alt`;
+}
+
+function findCharacterProblem(character: unknown, label: string): string | null {
+  if (!isRecord(character)) return `${label} must be an object`;
+  const field = CHARACTER_TEXT_FIELDS.find(f => !isOptionalText(character[f]));
+  return field ? `${label}.${field} must be text` : null;
+}
+
+function findDefinitionProblem(definition: unknown): string | null {
+  if (definition === undefined || definition === null) return null;
+  if (!isRecord(definition)) return "definition must be an object";
+  const field = DEFINITION_TEXT_FIELDS.find(f => !isOptionalText(definition[f]));
+  if (field) return `definition.${field} must be text`;
+  const characterProblem =
+    findCharacterProblem(definition.protagonist, "definition.protagonist") ??
+    (definition.antagonist ? findCharacterProblem(definition.antagonist, "definition.antagonist") : null);
+  if (characterProblem) return characterProblem;
+  const { supportingCast, endingOptions } = definition;
+  if (supportingCast !== undefined && supportingCast !== null) {
+    if (!Array.isArray(supportingCast)) return "definition.supportingCast must be an array";
+    for (const [i, c] of supportingCast.entries()) {
+      const problem = findCharacterProblem(c, `definition.supportingCast.${i}`);
+      if (problem) return problem;
+    }
+  }
+  if (endingOptions !== undefined && endingOptions !== null) {
+    if (!Array.isArray(endingOptions)) return "definition.endingOptions must be an array";
+    const bad = endingOptions.findIndex(e => !isRecord(e) || !isOptionalText(e.title) || !isOptionalText(e.description));
+    if (bad >= 0) return `definition.endingOptions.${bad} must have a text title and description`;
+  }
+  return findImageProblem(definition.image, "definition");
+}
+
+function findOptionsProblem(options: unknown, label: string): string | null {
+  if (options === undefined || options === null) return null;
+  if (!Array.isArray(options)) return `${label} must be an array`;
+  for (const [i, option] of options.entries()) {
+    const key = `${label}.${i}`;
+    if (!isRecord(option) || typeof option.id !== "string" || !isOptionalText(option.text)) {
+      return `${key} must have a text id and text`;
+    }
+    const action = option.action;
+    if (!isRecord(action) || typeof action.type !== "string") return `${key}.action must have a type`;
+    if (action.type === "branch") {
+      if (!isOptionalText(action.text)) return `${key}.action.text must be text`;
+      const problem = findOptionsProblem(action.options, `${key}.action.options`);
+      if (problem) return problem;
+    } else if (action.type === "freeText" && !isOptionalText(action.placeholder)) {
+      return `${key}.action.placeholder must be text`;
+    }
+  }
+  return null;
+}
+
+function findPageProblem(page: unknown, label: string): string | null {
+  if (!isRecord(page) || typeof page.id !== "string" || !isOptionalText(page.text)) {
+    return `${label} must have a text id and text`;
+  }
+  const { segments } = page;
+  if (segments !== undefined && segments !== null) {
+    if (!Array.isArray(segments)) return `${label}.segments must be an array`;
+    const bad = segments.findIndex(segment => !isRecord(segment) || typeof segment.text !== "string");
+    if (bad >= 0) return `${label}.segments.${bad} must have text`;
+  }
+  return findOptionsProblem(page.options, `${label}.options`) ?? findImageProblem(page.image, label);
+}
+
+function findPagesProblem(pages: unknown, label: string): string | null {
+  if (!Array.isArray(pages)) return `${label} must be an array`;
+  for (const [i, page] of pages.entries()) {
+    const problem = findPageProblem(page, `${label}.${i}`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function findStructureProblem(structure: unknown): string | null {
+  if (structure === undefined || structure === null) return null;
+  if (!isRecord(structure)) return "structure must be an object";
+  const problem = findPagesProblem(structure.pages, "structure.pages");
+  if (problem) return problem;
+  const { graph, frontCover, backCover } = structure;
+  if (graph !== undefined && graph !== null) {
+    if (!isRecord(graph)) return "structure.graph must be an object";
+    const graphProblem = findPagesProblem(graph.nodes, "structure.graph.nodes");
+    if (graphProblem) return graphProblem;
+  }
+  if (frontCover !== undefined && frontCover !== null) {
+    if (!isRecord(frontCover) || !isOptionalText(frontCover.title) || !isOptionalText(frontCover.tagline)) {
+      return "structure.frontCover must have a text title and tagline";
+    }
+    const imageProblem = findImageProblem(frontCover.image, "structure.frontCover");
+    if (imageProblem) return imageProblem;
+  }
+  if (backCover !== undefined && backCover !== null) {
+    if (!isRecord(backCover) || !isOptionalText(backCover.summary)) return "structure.backCover must have a text summary";
+    return findImageProblem(backCover.image, "structure.backCover");
+  }
+  return null;
+}
+
+function findTreeProblem(tree: unknown): string | null {
+  if (tree === undefined || tree === null) return null;
+  if (!isRecord(tree) || !isRecord(tree.nodes) || !isRecord(tree.offPathPages)) {
+    return "tree must have nodes and offPathPages objects";
+  }
+  for (const [id, node] of Object.entries(tree.nodes)) {
+    if (!isRecord(node) || !isOptionalText(node.parentId) || !isOptionalText(node.chosenOptionId) || !isOptionalText(node.chosenOptionText)) {
+      return `tree.nodes.${id} must have text links`;
+    }
+  }
+  for (const [id, page] of Object.entries(tree.offPathPages)) {
+    const problem = findPageProblem(page, `tree.offPathPages.${id}`);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/**
+ * Character, place and invented-term names from the definition with how to render them
+ * in the target language (often unchanged).
+ */
+export async function buildTranslationGlossary(
+  definition: StoryDefinition,
+  source: StoryLanguage,
+  target: StoryLanguage,
+): Promise<GlossaryEntry[]> {
+  const instructions = [
+    `You are a literary translator preparing to translate a story from ${getLanguageName(source)} to ${getLanguageName(target)}.`,
+    "List the proper names and invented terms in the StoryDefinition: characters, places, organisations, titles, made-up words.",
+    `For each, give the rendering to use in ${getLanguageName(target)}. Keep personal names as they are unless they are meaningful`,
+    "words (e.g. 'Silverbrook' may become a translated place name); use established translations for real places.",
+    `Return STRICT JSON: { "glossary": Array<{ "source": string; "target": string }> } with at most ${MAX_GLOSSARY_ENTRIES} entries.`,
+  ].join("\n");
+  try {
+    const { json } = await generateJsonFromInputs<{ glossary?: unknown }>({ definition }, instructions);
+    return mergeGlossary([], normalizeGlossary(json?.glossary));
+  } catch (err) {
+    // Pages still translate without it; they just add their own entries
+    console.error("[translation] glossary failed", err);
+    return [];
+  }
+}
+
+async function translateSegments(
+  segments: TextSegment[],
+  ctx: { source: StoryLanguage; target: StoryLanguage; glossary: GlossaryEntry[]; context: string },
+): Promise<SegmentTranslation> {
+  const from = getLanguageName(ctx.source);
+  const to = getLanguageName(ctx.target);
+  const instructions = [
+    `You are a literary translator. Translate ${ctx.context} from ${from} to ${to}.`,
+    "Each segment has a key and a text. Translate every text; return every key unchanged, exactly once.",
+    "- Keep the voice, tense, point of view, paragraph breaks and reading level of the original.",
+    "- Use the glossary renderings for every name and term it lists, exactly.",
+    "- Choice texts stay short imperative phrases, as in the original.",
+    "- Add to `glossary` any new name or invented term you had to render; do not repeat existing entries.",
+    'Return STRICT JSON: { "segments": Array<{ "key": string; "text": string }>; "glossary": Array<{ "source": string; "target": string }> }',
+  ].join("\n");
+  const { json } = await generateJsonFromInputs<{ segments?: unknown; glossary?: unknown }>(
+    { glossary: ctx.glossary, segments },
+    instructions,
+  );
+  const keys = new Set(segments.map(s => s.key));
+  const out = new Map<string, string>();
+  for (const item of Array.isArray(json?.segments) ? json.segments : []) {
+    const { key, text } = (item ?? {}) as { key?: unknown; text?: unknown };
+    if (typeof key === "string" && keys.has(key) && typeof text === "string" && text.trim()) {
+      out.set(key, text.trim());
+    }
+  }
+  if (out.size < keys.size) {
+    console.warn(`[translation] ${keys.size - out.size} segment(s) untranslated in ${ctx.context}; keeping the originals`);
+  }
+  return { segments: out, glossary: normalizeGlossary(json?.glossary) };
+}
+
+/**
+ * Every translatable string of `doc`, as seen by `mapper`.
+ */
+export function collectSegments<T>(doc: T, mapper: (doc: T, fn: TextMapper) => T): TextSegment[] {
+  const segments: TextSegment[] = [];
+  mapper(doc, (key, text) => {
+    if (text.trim()) segments.push({ key, text });
+    return text;
+  });
+  return segments;
+}
+
+/**
+ * Copy of `doc` with translated segments put back; keys without a translation keep the source.
+ */
+export function applySegments<T>(doc: T, mapper: (doc: T, fn: TextMapper) => T, translations: Map<string, string>): T {
+  return mapper(doc, (key, text) => translations.get(key) ?? text);
+}
+
+/**
+ * Adds new entries, keeping the first rendering of a source term.
+ */
+export function mergeGlossary(existing: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] {
+  const seen = new Set(existing.map(e => e.source.toLowerCase()));
+  const merged = [...existing];
+  for (const entry of added) {
+    if (merged.length >= MAX_GLOSSARY_ENTRIES) break;
+    const key = entry.source.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(entry);
+  }
+  return merged;
+}
+
+export function mapPageText<P extends StoryPage>(page: P, fn: TextMapper): P {
+  const out: P = { ...page, text: fn("text", page.text ?? ""), options: mapOptionsText(page.options ?? [], "options", fn) };
+  if (page.segments) out.segments = page.segments.map((segment, i) => ({ ...segment, text: fn(`segments.${i}.text`, segment.text) }));
+  if (page.image?.alt) out.image = { ...page.image, alt: fn("image.alt", page.image.alt) };
+  return out;
+}
+
+function mapOptionsText(options: OptionObject[], prefix: string, fn: TextMapper): OptionObject[] {
+  return options.map((option, i) => {
+    const key = `${prefix}.${i}`;
+    const mapped: OptionObject = { ...option, text: fn(`${key}.text`, option.text ?? "") };
+    const action = option.action;
+    if (action?.type === "branch") {
+      mapped.action = {
+        ...action,
+        text: fn(`${key}.action.text`, action.text ?? ""),
+        options: mapOptionsText(action.options ?? [], `${key}.action.options`, fn),
+      };
+    } else if (action?.type === "freeText" && action.placeholder) {
+      mapped.action = { ...action, placeholder: fn(`${key}.action.placeholder`, action.placeholder) };
+    }
+    return mapped;
+  });
+}
+
+// genre stays as written: it selects the narration voice
+export function mapDefinitionText(definition: StoryDefinition, fn: TextMapper): StoryDefinition {
+  const mapCharacter = (c: Character, key: string): Character => {
+    const out: Character = { ...c, name: fn(`${key}.name`, c.name ?? ""), role: fn(`${key}.role`, c.role ?? "") };
+    if (c.description) out.description = fn(`${key}.description`, c.description);
+    if (c.motivation) out.motivation = fn(`${key}.motivation`, c.motivation);
+    if (c.backstory) out.backstory = fn(`${key}.backstory`, c.backstory);
+    return out;
+  };
+  const out: StoryDefinition = {
+    ...definition,
+    title: fn("title", definition.title ?? ""),
+    theme: fn("theme", definition.theme ?? ""),
+    tagline: fn("tagline", definition.tagline ?? ""),
+    overview: fn("overview", definition.overview ?? ""),
+    plot: fn("plot", definition.plot ?? ""),
+    conflict: fn("conflict", definition.conflict ?? ""),
+    resolution: fn("resolution", definition.resolution ?? ""),
+    startHook: fn("startHook", definition.startHook ?? ""),
+    endingOptions: (definition.endingOptions ?? []).map((e, i) => ({
+      ...e,
+      title: fn(`endingOptions.${i}.title`, e.title ?? ""),
+      description: fn(`endingOptions.${i}.description`, e.description ?? ""),
+    })),
+    protagonist: mapCharacter(definition.protagonist, "protagonist"),
+    location: fn("location", definition.location ?? ""),
+    worldDescription: fn("worldDescription", definition.worldDescription ?? ""),
+    timePeriod: fn("timePeriod", definition.timePeriod ?? ""),
+  };
+  if (definition.antagonist) out.antagonist = mapCharacter(definition.antagonist, "antagonist");
+  if (definition.supportingCast) {
+    out.supportingCast = definition.supportingCast.map((c, i) => mapCharacter(c, `supportingCast.${i}`));
+  }
+  if (definition.image?.alt) out.image = { ...definition.image, alt: fn("image.alt", definition.image.alt) };
+  return out;
+}
+
+function mapCoversText(
+  covers: { frontCover: FrontCover; backCover: BackCover },
+  fn: TextMapper,
+): { frontCover: FrontCover; backCover: BackCover } {
+  const { frontCover, backCover } = covers;
+  const front: FrontCover = {
+    ...frontCover,
+    title: fn("frontCover.title", frontCover?.title ?? ""),
+    tagline: fn("frontCover.tagline", frontCover?.tagline ?? ""),
+  };
+  if (frontCover?.image?.alt) front.image = { ...frontCover.image, alt: fn("frontCover.image.alt", frontCover.image.alt) };
+  // The back cover is only written once the story ends
+  if (!backCover) return { frontCover: front, backCover };
+  const back: BackCover = { ...backCover, summary: fn("backCover.summary", backCover.summary ?? "") };
+  if (backCover.image?.alt) back.image = { ...backCover.image, alt: fn("backCover.image.alt", backCover.image.alt) };
+  return { frontCover: front, backCover: back };
+}
+
+function findOption(options: OptionObject[], id: string | null): OptionObject | undefined {
+  if (!id) return undefined;
+  for (const option of options) {
+    if (option.id === id) return option;
+    if (option.action.type === "branch") {
+      const nested = findOption(option.action.options ?? [], id);
+      if (nested) return nested;
+    }
+  }
+  return undefined;
+}
+
+function normalizeGlossary(input: unknown): GlossaryEntry[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .map(item => (item ?? {}) as { source?: unknown; target?: unknown })
+    .filter((e): e is GlossaryEntry => typeof e.source === "string" && e.source.trim() !== "" && typeof e.target === "string" && e.target.trim() !== "")
+    .map(e => ({ source: e.source.trim(), target: e.target.trim() }));
+}
@@ -0,0 +1,63 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { assignVoices, inferVoiceTraits, planPageSpeech } from "./voiceCasting.js";
+import type { VoiceProfile } from "../agents/voiceRoster.js";
+
+const roster: VoiceProfile[] = [
+  { id: "narrator", name: "Nora", gender: "female", age: "middle-aged", accent: "british", style: "warm" },
+  { id: "oldman", name: "Bill", gender: "male", age: "old", accent: "american", style: "gruff" },
+  { id: "youngman", name: "Liam", gender: "male", age: "young", accent: "american", style: "bright" },
+  { id: "girl", name: "Sarah", gender: "female", age: "young", accent: "american", style: "soft" },
+];
+
+test("traits are read from role and description", () => {
+  assert.deepEqual(inferVoiceTraits({ role: "ferryman", description: "An elderly man with a Scottish lilt" }), {
+    gender: "male",
+    age: "old",
+    accent: "scottish",
+  });
+  assert.deepEqual(inferVoiceTraits({ role: "apprentice", description: "She keeps the lighthouse." }), { gender: "female", age: "young" });
+  assert.deepEqual(inferVoiceTraits({ role: "stranger", description: "" }), {});
+});
+
+test("characters get matching voices that differ from each other and the narrator", () => {
+  const voices = assignVoices(
+    [
+      { id: "mara", traits: { gender: "female", age: "young" } },
+      { id: "ossian", traits: { gender: "male", age: "old" } },
+      { id: "tam", traits: { gender: "male" } },
+    ],
+    "narrator",
+    roster,
+  );
+  assert.equal(voices.narratorVoiceId, "narrator");
+  assert.deepEqual(voices.characters.map(c => [c.characterId, c.voiceId]), [
+    ["mara", "girl"],
+    ["ossian", "oldman"],
+    ["tam", "youngman"],
+  ]);
+  // Same input, same casting
+  assert.deepEqual(assignVoices([{ id: "mara", traits: { gender: "female", age: "young" } }], "narrator", roster).characters[0]?.voiceId, "girl");
+});
+
+test("page runs follow the speakers and join consecutive lines of one voice", () => {
+  const voices = { narratorVoiceId: "narrator", characters: [{ characterId: "mara", voiceId: "girl", voiceName: "Sarah" }] };
+  const runs = planPageSpeech(
+    {
+      text: "",
+      segments: [
+        { type: "narration", text: "Mara surfaced." },
+        { type: "dialogue", text: "The bell is here.", speakerId: "mara" },
+        { type: "dialogue", text: "Go back!", speakerId: "guard" },
+        { type: "narration", text: "Nobody answered." },
+      ],
+    },
+    voices,
+  );
+  assert.deepEqual(runs, [
+    { voiceId: "narrator", text: "Mara surfaced." },
+    { voiceId: "girl", text: "The bell is here." },
+    { voiceId: "narrator", text: "Go back! Nobody answered." },
+  ]);
+  assert.deepEqual(planPageSpeech({ text: "Plain page." }, voices), [{ voiceId: "narrator", text: "Plain page." }]);
+});
@@ -0,0 +1,153 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { getVoiceId } from "../agents/speechAgents.js";
+import { getVoiceCatalog, type VoiceAge, type VoiceGender, type VoiceProfile } from "../agents/voiceRoster.js";
+import { collectSpeakers } from "./dialogueSegments.js";
+import { resolveStoryLanguage } from "./languageGuidance.js";
+import type { Character, StoryConfiguration, StoryDefinition, StoryPage, StoryVoices } from "../types/frontend.js";
+
+// What a character should sound like; missing traits match any voice
+export interface VoiceTraits {
+  gender?: VoiceGender;
+  age?: VoiceAge;
+  accent?: string;
+}
+
+// One stretch of a page read by a single voice
+export interface SpeechRun {
+  voiceId: string;
+  text: string;
+}
+
+const FEMALE = /\b(she|her|woman|girl|queen|princess|mother|daughter|sister|lady|wife|witch|priestess|duchess|empress|grandmother|aunt|niece)\b/i;
+const MALE = /\b(he|his|him|man|boy|king|prince|father|son|brother|lord|husband|wizard|priest|duke|emperor|grandfather|uncle|nephew)\b/i;
+const OLD = /\b(old|elderly|aged|ancient|grey-haired|gray-haired|white-haired|grandmother|grandfather|veteran|retired|wizened)\b/i;
+const YOUNG = /\b(young|child|kid|teen|teenage|teenager|boy|girl|youth|student|apprentice|orphan|\d{1}-year-old|1\d-year-old)\b/i;
+const ACCENTS = ["british", "american", "australian", "swedish", "transatlantic", "irish", "scottish"];
+
+/**
+ * Traits read from a character's role and description with simple word rules; the
+ * fallback when the casting model is unavailable.
+ */
+export function inferVoiceTraits(character: Pick<Character, "role" | "description">): VoiceTraits {
+  const text = `${character.role ?? ""} ${character.description ?? ""}`;
+  const traits: VoiceTraits = {};
+  const female = FEMALE.test(text);
+  const male = MALE.test(text);
+  if (female !== male) traits.gender = female ? "female" : "male";
+  if (OLD.test(text)) traits.age = "old";
+  else if (YOUNG.test(text)) traits.age = "young";
+  const accent = ACCENTS.find(a => new RegExp(`\\b${a}\\b`, "i").test(text));
+  if (accent) traits.accent = accent;
+  return traits;
+}
+
+function scoreVoice(voice: VoiceProfile, traits: VoiceTraits): number {
+  let score = 0;
+  if (traits.gender) score += voice.gender === traits.gender ? 4 : -6;
+  if (traits.age) score += voice.age === traits.age ? 2 : voice.age === "middle-aged" ? 0 : -1;
+  if (traits.accent && voice.accent === traits.accent) score += 1;
+  return score;
+}
+
+/**
+ * Gives every character the best-matching roster voice. Voices already taken (and the
+ * narrator's) are avoided while the roster lasts, so speakers stay distinguishable.
+ * Ties go to the first roster entry, which keeps casting stable across calls.
+ */
+export function assignVoices(
+  characters: { id: string; traits: VoiceTraits }[],
+  narratorVoiceId: string,
+  roster: VoiceProfile[] = getVoiceCatalog().voices,
+): StoryVoices {
+  const uses = new Map<string, number>([[narratorVoiceId, 1]]);
+  const assigned: StoryVoices["characters"] = [];
+  for (const { id, traits } of characters) {
+    let best: VoiceProfile | undefined;
+    let bestScore = -Infinity;
+    for (const voice of roster) {
+      const score = scoreVoice(voice, traits) - 8 * (uses.get(voice.id) ?? 0);
+      if (score > bestScore) {
+        best = voice;
+        bestScore = score;
+      }
+    }
+    if (!best) break;
+    uses.set(best.id, (uses.get(best.id) ?? 0) + 1);
+    assigned.push({ characterId: id, voiceId: best.id, voiceName: best.name });
+  }
+  return { narratorVoiceId, characters: assigned };
+}
+
+/**
+ * Casting step: the model reads each character's description for gender, age and accent,
+ * then voices are assigned from the roster. The narrator keeps the genre (or language) voice.
+ * Roster and narrator default to the voice catalog's; other speech providers, or a narrator
+ * the reader picked, are passed in.
+ */
+export async function generateVoiceCasting(
+  definition: StoryDefinition,
+  configuration?: StoryConfiguration | null,
+  voices: { roster?: VoiceProfile[]; narratorVoiceId?: string } = {},
+): Promise<StoryVoices> {
+  const narratorVoiceId = voices.narratorVoiceId ?? getVoiceId(definition.genre, resolveStoryLanguage(configuration));
+  const characters = [...collectSpeakers(definition).entries()].map(([id, c]) => ({ id, character: c }));
+  if (characters.length === 0) return { narratorVoiceId, characters: [] };
+
+  let traitsById = new Map<string, VoiceTraits>();
+  try {
+    const instructions = [
+      "You are a voice casting director for an audiobook.",
+      "For each character, decide how their voice should sound from their name, role and description.",
+      'Return STRICT JSON: { "characters": Array<{ "id": string; "gender": "male" | "female" | null; "age": "young" | "middle-aged" | "old" | null; "accent": string | null }> }',
+      `- accent is one of ${ACCENTS.join(", ")} or null when nothing suggests one.`,
+      "- Use null when the description gives no clue; do not guess from the name alone unless it is clearly gendered.",
+    ].join("\n");
+    const { json } = await generateJsonFromInputs<{ characters?: unknown }>(
+      { characters: characters.map(({ id, character }) => ({ id, name: character.name, role: character.role, description: character.description ?? "" })) },
+      instructions,
+    );
+    traitsById = parseTraits(json?.characters);
+  } catch (err) {
+    console.warn("[voiceCasting] casting model failed; inferring traits from descriptions", err);
+  }
+
+  return assignVoices(
+    characters.map(({ id, character }) => ({ id, traits: traitsById.get(id) ?? inferVoiceTraits(character) })),
+    narratorVoiceId,
+    voices.roster,
+  );
+}
+
+function parseTraits(input: unknown): Map<string, VoiceTraits> {
+  const out = new Map<string, VoiceTraits>();
+  if (!Array.isArray(input)) return out;
+  for (const raw of input) {
+    const item = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    if (typeof item.id !== "string") continue;
+    const traits: VoiceTraits = {};
+    if (item.gender === "male" || item.gender === "female") traits.gender = item.gender;
+    if (item.age === "young" || item.age === "middle-aged" || item.age === "old") traits.age = item.age;
+    if (typeof item.accent === "string" && ACCENTS.includes(item.accent.toLowerCase())) traits.accent = item.accent.toLowerCase();
+    out.set(item.id, traits);
+  }
+  return out;
+}
+
+/**
+ * Splits a page into runs for multi-voice narration: narration in the narrator's voice,
+ * dialogue in the speaker's. Consecutive runs of one voice are joined into one request.
+ */
+export function planPageSpeech(page: Pick<StoryPage, "text" | "segments">, voices: StoryVoices): SpeechRun[] {
+  const voiceOf = new Map(voices.characters.map(c => [c.characterId, c.voiceId]));
+  const segments = page.segments?.length ? page.segments : [{ type: "narration" as const, text: page.text }];
+  const runs: SpeechRun[] = [];
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    const voiceId = (segment.type === "dialogue" ? voiceOf.get(segment.speakerId) : undefined) ?? voices.narratorVoiceId;
+    const last = runs[runs.length - 1];
+    if (last && last.voiceId === voiceId) last.text = `${last.text} ${text}`;
+    else runs.push({ voiceId, text });
+  }
+  return runs;
+}
@@ -1,11 +1,11 @@
 import { loadEnv } from "./config/env.js";
 import express, { type Request, type Response } from "express";
 import cors from "cors";
-import { Readable } from "stream";
 import { generateTextFromHashes } from "./agents/textAgent.js";
-import { generateSpeech } from "./agents/speechAgents.js";
 import storyRouter from "./routes/storyRoutes.js";
-import { createAudioRouter, createImageRouter } from "./routes/agentRoutes.js";
+import { createImageRouter } from "./routes/agentRoutes.js";
+import { createLoreRouter } from "./routes/loreRoutes.js";
+import { createSpeechRouter } from "./routes/speechRoutes.js";
 
 loadEnv();
 
@@ -33,22 +33,6 @@ app.get("/api/agents/image/health", (_req: Request, res: Response) => {
   });
 });
 
-// Audio agent route
-const elevenLabsToken = process.env.ELEVENLABS_TOKEN?.trim();
-const accountId = process.env.CLOUDFLARE_ACCOUNT_ID?.trim();
-const gatewayId = process.env.CLOUDFLARE_AI_GATEWAY_ID?.trim();
-
-if (elevenLabsToken && accountId && gatewayId) {
-  const audioRouter = createAudioRouter({
-    env: {
-      ELEVENLABS_TOKEN: elevenLabsToken,
-      AI_GATEWAY_ACCOUNT_ID: accountId,
-      AI_GATEWAY_ID: gatewayId,
-    },
-  });
-  app.use("/api/agents/audio", audioRouter);
-}
-
 app.get("/", (_req: Request, res: Response) => {
   res.status(200).json({ status: "ok" });
 });
@@ -56,6 +40,9 @@ app.get("/", (_req: Request, res: Response) => {
 // Mount story routes (includes POST /api/story/define)
 app.use("/api/story", storyRouter);
 
+// World bible documents retrieved into story prompts (StoryConfiguration.loreIds)
+app.use("/api/lore", createLoreRouter());
+
 // Readiness probe for the text generation endpoint
 app.get("/api/text/generate", (_req: Request, res: Response) => {
   const modelId =
@@ -155,82 +142,11 @@ app.post(
   },
 );
 
-// Speech generation endpoint
-interface SpeechGenerateRequestBody {
-  text: string;
-  genre?: string;
-}
-
-app.post(
-  "/api/speech/generate",
-  async (req: Request<unknown, unknown, SpeechGenerateRequestBody>, res: Response) => {
-    const { text, genre } = req.body ?? {};
-
-    if (!text || typeof text !== "string" || text.trim().length === 0) {
-      return res
-        .status(400)
-        .json({ error: "Invalid payload. 'text' must be a non-empty string." });
-    }
-
-    // Get environment variables
-    const elevenLabsToken = process.env.ELEVENLABS_TOKEN?.trim();
-    const accountId = process.env.CLOUDFLARE_ACCOUNT_ID?.trim();
-    const gatewayId = process.env.CLOUDFLARE_AI_GATEWAY_ID?.trim();
-
-    // Check that all required environment variables are set
-    if (!elevenLabsToken || !accountId || !gatewayId) {
-      console.error("Missing ElevenLabs or Cloudflare Gateway .env variables");
-      return res.status(500).json({ 
-        error: "Server configuration error. Missing required environment variables." 
-      });
-    }
-
-    try {
-      // Create env object for the speech agent
-      const env = {
-        ELEVENLABS_TOKEN: elevenLabsToken,
-        AI_GATEWAY_ACCOUNT_ID: accountId,
-        AI_GATEWAY_ID: gatewayId,
-      };
-
-      // Call the speech generation function with genre support
-      const speechResponse = await generateSpeech(text, env, genre);
-
-      // Check if the response is an error
-      if (!speechResponse.ok) {
-        const errorText = await speechResponse.text();
-        return res.status(speechResponse.status).json({ error: errorText });
-      }
-
-      // Set the audio headers from the ElevenLabs response
-      res.setHeader('Content-Type', speechResponse.headers.get('Content-Type') || 'audio/mpeg');
-      const contentLength = speechResponse.headers.get('Content-Length');
-      if (contentLength) {
-        res.setHeader('Content-Length', contentLength);
-      }
-
-      // Stream the audio response
-      if (speechResponse.body) {
-        // Convert the Web Stream (from fetch) to a Node.js Stream (for Express)
-        const nodeStream = Readable.fromWeb(speechResponse.body as any);
-        // Pipe the audio stream directly to the client
-        nodeStream.pipe(res);
-        return;
-      } else {
-        return res.status(500).json({ error: "Empty audio response from API." });
-      }
-    } catch (error) {
-      const message =
-        error instanceof Error ? error.message : "Unknown speech generation error.";
-      console.error("Speech generation failed:", message);
-      // Check if headers were already sent (which happens if streaming started)
-      if (!res.headersSent) {
-        return res.status(502).json({ error: message });
-      }
-    }
-    return;
-  },
-);
+// Narration: /generate, /prerender, /timed, /audio/:key (cached, with Range), /voices, /cast and /page.
+// Also served at the older /api/agents/audio path, through the same provider and cache
+const speechRouter = createSpeechRouter();
+app.use("/api/speech", speechRouter);
+app.use("/api/agents/audio", speechRouter);
 
 app.listen(port, () => {
   console.log(`Backend listening on http://localhost:${port}`);
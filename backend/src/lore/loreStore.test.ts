@@ -0,0 +1,75 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { chunkLoreDocument, createLoreStore, normalizeLoreInput, tokenizeLore } from "./loreStore.js";
+
+const BIBLE = [
+  "# Places",
+  "## The Drowned City",
+  "Velmora sank beneath the tide three centuries ago. Its bell towers still ring at low water.",
+  "",
+  "## Ashfall Reach",
+  "A desert of grey cinders where the fire-priests keep their vigil.",
+  "",
+  "# Magic",
+  "Tide-singing bends water to the singer's voice, but every song costs a memory.",
+].join("\n");
+
+test("markdown headings start passages and label them with their path", () => {
+  const chunks = chunkLoreDocument(BIBLE);
+  assert.deepEqual(chunks.map(c => c.heading), ["Places > The Drowned City", "Places > Ashfall Reach", "Magic"]);
+  assert.match(chunks[0]?.text ?? "", /^Velmora sank/);
+});
+
+test("long paragraphs are split on sentence boundaries", () => {
+  const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} about the old empire.`).join(" ");
+  const chunks = chunkLoreDocument(text, 200);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(c => c.text.length <= 200 && /\.$/.test(c.text)));
+});
+
+test("tokens fold case, accents and plurals and skip stopwords", () => {
+  assert.deepEqual(tokenizeLore("The Dragons of Évora's cities"), ["dragon", "evora", "city"]);
+});
+
+test("search ranks the passage about the query first and respects the document scope", async () => {
+  const store = createLoreStore({ dir: null });
+  const bible = await store.create({ title: "Tidewater bible", content: BIBLE });
+  const other = await store.create({ title: "Other setting", content: "The drowned city of Ys lies off the coast of Brittany." });
+
+  const passages = await store.search("bell towers of the drowned city");
+  assert.equal(passages[0]?.heading, "Places > The Drowned City");
+
+  const scoped = await store.search("drowned city", { documentIds: [other.id] });
+  assert.deepEqual(scoped.map(p => p.documentId), [other.id]);
+  assert.deepEqual(await store.search("tide singing memory", { documentIds: [] }), []);
+  assert.equal((await store.search("singing costs"))[0]?.documentId, bible.id);
+});
+
+test("documents survive a restart when stored on disk", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "lore-"));
+  try {
+    const first = createLoreStore({ dir });
+    const created = await first.create({ title: "Tidewater bible", content: BIBLE });
+    await first.update(created.id, { title: "Tidewater canon" });
+
+    const second = createLoreStore({ dir });
+    const [summary] = await second.list();
+    assert.equal(summary?.title, "Tidewater canon");
+    assert.equal(summary?.chunkCount, 3);
+    assert.equal((await second.search("ashfall"))[0]?.heading, "Places > Ashfall Reach");
+
+    assert.equal(await second.remove(created.id), true);
+    assert.deepEqual(await readdir(dir), []);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("uploads need a title and content; updates may send either", () => {
+  assert.equal(normalizeLoreInput({ title: "Bible" }).ok, false);
+  assert.equal(normalizeLoreInput({ title: " ", content: "x" }).ok, false);
+  assert.deepEqual(normalizeLoreInput({ content: "New text" }, { partial: true }), { ok: true, content: "New text" });
+});
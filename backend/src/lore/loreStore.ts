@@ -0,0 +1,348 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+const MAX_TITLE_CHARS = 120;
+const MAX_CONTENT_CHARS = 200_000;
+const CHUNK_CHARS = 900;
+const DEFAULT_SEARCH_LIMIT = 5;
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be been but by for from had has have he her his i in into is it its of on or " +
+    "she so than that the their them then there these they this to was we were what when where which " +
+    "who will with you your"
+  ).split(" "),
+);
+
+export interface LoreDocumentSummary {
+  id: string;
+  title: string;
+  chars: number;
+  chunkCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LoreDocument extends LoreDocumentSummary {
+  content: string;
+}
+
+// A retrieved piece of a lore document, ready to quote in a prompt
+export interface LorePassage {
+  documentId: string;
+  title: string;
+  heading?: string;
+  text: string;
+  score: number;
+}
+
+export interface LoreChunk {
+  heading?: string;
+  text: string;
+}
+
+export interface LoreSearchOptions {
+  // Restrict to these documents; omitted searches all of them
+  documentIds?: string[];
+  limit?: number;
+}
+
+export interface LoreStore {
+  list(): Promise<LoreDocumentSummary[]>;
+  get(id: string): Promise<LoreDocument | null>;
+  create(input: { title: string; content: string }): Promise<LoreDocument>;
+  update(id: string, patch: { title?: string; content?: string }): Promise<LoreDocument | null>;
+  remove(id: string): Promise<boolean>;
+  search(query: string, options?: LoreSearchOptions): Promise<LorePassage[]>;
+}
+
+export type LoreInputResult =
+  | { ok: true; title?: string; content?: string }
+  | { ok: false; error: string };
+
+/**
+ * Validates an uploaded lore document. With `partial` (updates) both fields are optional,
+ * otherwise title and content are required.
+ */
+export function normalizeLoreInput(input: unknown, options: { partial?: boolean } = {}): LoreInputResult {
+  const raw = (input && typeof input === "object" ? input : {}) as { title?: unknown; content?: unknown };
+  const result: { ok: true; title?: string; content?: string } = { ok: true };
+
+  if (raw.title !== undefined || !options.partial) {
+    const title = typeof raw.title === "string" ? raw.title.replace(/\s+/g, " ").trim() : "";
+    if (!title) return { ok: false, error: "Lore documents need a title." };
+    if (title.length > MAX_TITLE_CHARS) return { ok: false, error: `Lore titles are limited to ${MAX_TITLE_CHARS} characters.` };
+    result.title = title;
+  }
+  if (raw.content !== undefined || !options.partial) {
+    const content = typeof raw.content === "string" ? raw.content.replace(/\r\n?/g, "\n").trim() : "";
+    if (!content) return { ok: false, error: "Lore documents need some markdown or text content." };
+    if (content.length > MAX_CONTENT_CHARS) {
+      return { ok: false, error: `Lore documents are limited to ${MAX_CONTENT_CHARS} characters.` };
+    }
+    result.content = content;
+  }
+  return result;
+}
+
+/**
+ * Splits markdown or plain text into passages of about `maxChars`. Markdown headings
+ * start a new passage and label it with its heading path ("Places > The Drowned City"),
+ * so a retrieved passage still says what it is about.
+ */
+export function chunkLoreDocument(content: string, maxChars = CHUNK_CHARS): LoreChunk[] {
+  const chunks: LoreChunk[] = [];
+  const headings: string[] = [];
+  let paragraphs: string[] = [];
+  let current = "";
+
+  const flush = () => {
+    if (!current.trim()) return;
+    const heading = headings.filter(Boolean).join(" > ");
+    chunks.push(heading ? { heading, text: current.trim() } : { text: current.trim() });
+    current = "";
+  };
+  const addParagraph = (paragraph: string) => {
+    for (const piece of splitLongParagraph(paragraph, maxChars)) {
+      if (current && current.length + piece.length + 2 > maxChars) flush();
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  };
+  const endParagraph = () => {
+    const paragraph = paragraphs.join(" ").replace(/\s+/g, " ").trim();
+    paragraphs = [];
+    if (paragraph) addParagraph(paragraph);
+  };
+
+  for (const line of content.split("\n")) {
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      endParagraph();
+      flush();
+      const depth = heading[1]!.length;
+      headings.length = depth - 1;
+      headings[depth - 1] = heading[2] ?? "";
+    } else if (!line.trim()) {
+      endParagraph();
+    } else {
+      paragraphs.push(line.trim());
+    }
+  }
+  endParagraph();
+  flush();
+  return chunks;
+}
+
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+  const pieces: string[] = [];
+  let piece = "";
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph]) {
+    if (piece && piece.length + sentence.length > maxChars) {
+      pieces.push(piece.trim());
+      piece = "";
+    }
+    piece += sentence;
+  }
+  if (piece.trim()) pieces.push(piece.trim());
+  return pieces;
+}
+
+/**
+ * Lowercased, accent-folded word tokens without stopwords; plurals are folded onto the
+ * singular so "dragons" finds "dragon".
+ */
+export function tokenizeLore(text: string): string[] {
+  const words = text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter(w => w.length > 1 && !STOPWORDS.has(w)).map(foldPlural);
+}
+
+function foldPlural(word: string): string {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+interface IndexedChunk extends LoreChunk {
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface StoredDocument {
+  document: LoreDocument;
+  chunks: IndexedChunk[];
+}
+
+function indexDocument(document: Omit<LoreDocument, "chars" | "chunkCount">): StoredDocument {
+  const chunks = chunkLoreDocument(document.content).map(chunk => {
+    // The heading is part of what a passage is about, so it is indexed with the text
+    const tokens = tokenizeLore(`${chunk.heading ?? ""} ${chunk.text}`);
+    const terms = new Map<string, number>();
+    for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1);
+    return { ...chunk, terms, length: tokens.length };
+  });
+  return {
+    document: { ...document, chars: document.content.length, chunkCount: chunks.length },
+    chunks,
+  };
+}
+
+function toSummary({ content: _content, ...summary }: LoreDocument): LoreDocumentSummary {
+  return summary;
+}
+
+/**
+ * Lore documents kept in memory with a BM25 index over their passages. With a `dir`
+ * every document is also written there as `<id>.json` and read back on first use;
+ * `dir: null` keeps everything in memory (tests).
+ */
+export function createLoreStore(options: { dir?: string | null } = {}): LoreStore {
+  const dir = options.dir === undefined ? resolveLoreDir() : options.dir;
+  const documents = new Map<string, StoredDocument>();
+  let loaded: Promise<void> | null = null;
+
+  const ensureLoaded = () => {
+    if (!loaded) loaded = dir ? loadFromDisk(dir, documents) : Promise.resolve();
+    return loaded;
+  };
+
+  const persist = async (stored: StoredDocument) => {
+    if (!dir) return;
+    const { id, title, content, createdAt, updatedAt } = stored.document;
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${id}.json`);
+    // Write-then-rename so a crash never leaves a half-written document behind
+    await fs.writeFile(`${file}.tmp`, JSON.stringify({ id, title, content, createdAt, updatedAt }, null, 2), "utf8");
+    await fs.rename(`${file}.tmp`, file);
+  };
+
+  return {
+    async list() {
+      await ensureLoaded();
+      return [...documents.values()]
+        .map(stored => toSummary(stored.document))
+        .sort((a, b) => a.title.localeCompare(b.title));
+    },
+
+    async get(id) {
+      await ensureLoaded();
+      return documents.get(id)?.document ?? null;
+    },
+
+    async create({ title, content }) {
+      await ensureLoaded();
+      const now = new Date().toISOString();
+      const stored = indexDocument({ id: randomUUID(), title, content, createdAt: now, updatedAt: now });
+      await persist(stored);
+      documents.set(stored.document.id, stored);
+      return stored.document;
+    },
+
+    async update(id, patch) {
+      await ensureLoaded();
+      const existing = documents.get(id);
+      if (!existing) return null;
+      const { document } = existing;
+      const stored = indexDocument({
+        id,
+        title: patch.title ?? document.title,
+        content: patch.content ?? document.content,
+        createdAt: document.createdAt,
+        updatedAt: new Date().toISOString(),
+      });
+      await persist(stored);
+      documents.set(id, stored);
+      return stored.document;
+    },
+
+    async remove(id) {
+      await ensureLoaded();
+      if (!documents.has(id)) return false;
+      if (dir) await fs.rm(path.join(dir, `${id}.json`), { force: true });
+      documents.delete(id);
+      return true;
+    },
+
+    async search(query, searchOptions = {}) {
+      await ensureLoaded();
+      const queryTerms = [...new Set(tokenizeLore(query))];
+      const scope = searchOptions.documentIds
+        ? searchOptions.documentIds.map(id => documents.get(id)).filter((d): d is StoredDocument => Boolean(d))
+        : [...documents.values()];
+      const candidates = scope.flatMap(stored => stored.chunks.map(chunk => ({ stored, chunk })));
+      if (queryTerms.length === 0 || candidates.length === 0) return [];
+
+      // Document frequencies are taken over the searched passages only
+      const avgLength = candidates.reduce((sum, { chunk }) => sum + chunk.length, 0) / candidates.length || 1;
+      const idf = new Map<string, number>();
+      for (const term of queryTerms) {
+        const df = candidates.filter(({ chunk }) => chunk.terms.has(term)).length;
+        idf.set(term, Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5)));
+      }
+
+      const scored = candidates.map(({ stored, chunk }) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = chunk.terms.get(term) ?? 0;
+          if (tf === 0) continue;
+          score += (idf.get(term) ?? 0) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * chunk.length) / avgLength));
+        }
+        return { stored, chunk, score };
+      });
+
+      return scored
+        .filter(s => s.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(1, searchOptions.limit ?? DEFAULT_SEARCH_LIMIT))
+        .map(({ stored, chunk, score }) => {
+          const passage: LorePassage = {
+            documentId: stored.document.id,
+            title: stored.document.title,
+            text: chunk.text,
+            score: Math.round(score * 1000) / 1000,
+          };
+          if (chunk.heading) passage.heading = chunk.heading;
+          return passage;
+        });
+    },
+  };
+}
+
+async function loadFromDisk(dir: string, documents: Map<string, StoredDocument>): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return; // nothing uploaded yet
+  }
+  for (const file of files.filter(f => f.endsWith(".json"))) {
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(dir, file), "utf8")) as Partial<LoreDocument>;
+      if (typeof raw.id !== "string" || typeof raw.title !== "string" || typeof raw.content !== "string") continue;
+      const createdAt = typeof raw.createdAt === "string" ? raw.createdAt : new Date().toISOString();
+      const updatedAt = typeof raw.updatedAt === "string" ? raw.updatedAt : createdAt;
+      documents.set(raw.id, indexDocument({ id: raw.id, title: raw.title, content: raw.content, createdAt, updatedAt }));
+    } catch (err) {
+      console.warn(`[lore] skipping unreadable document ${file}`, err);
+    }
+  }
+}
+
+function resolveLoreDir(): string {
+  return path.resolve(process.env.LORE_DIR?.trim() || path.join(process.cwd(), "data", "lore"));
+}
+
+let defaultStore: LoreStore | null = null;
+
+/**
+ * The process-wide store shared by the lore and story routes. Created on first use so
+ * LORE_DIR from `.env` is already loaded.
+ */
+export function getDefaultLoreStore(): LoreStore {
+  if (!defaultStore) defaultStore = createLoreStore();
+  return defaultStore;
+}
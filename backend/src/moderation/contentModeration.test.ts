@@ -0,0 +1,54 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import {
+  buildContentRejectedBody,
+  createModerationClassifier,
+  forStoryLanguage,
+  produceModerated,
+  type ModerationClassifier,
+} from "./contentModeration.js";
+
+// Rejects any text containing "dragon"
+const strict: ModerationClassifier = {
+  name: "test",
+  async classify(text) {
+    return /dragon/.test(text) ? { allowed: false, categories: ["violence"] } : { allowed: true, categories: [] };
+  },
+};
+
+test("a rejected draft is regenerated once and the clean retry is kept", async () => {
+  const drafts = ["a dragon attacks", "a quiet morning"];
+  let calls = 0;
+  const result = await produceModerated(strict, "G", async () => drafts[calls++]!, text => text);
+  assert.deepEqual(result, { ok: true, value: "a quiet morning" });
+  assert.equal(calls, 2);
+});
+
+test("two rejected drafts return the verdict instead of a value", async () => {
+  let calls = 0;
+  const result = await produceModerated(strict, "G", async () => `dragon ${++calls}`, text => text);
+  assert.equal(result.ok, false);
+  assert.equal(calls, 2);
+  if (!result.ok) {
+    assert.deepEqual(buildContentRejectedBody("output", result.verdict, "G"), {
+      error: "We couldn't write a page that fits this story's G rating (violence). Try another choice.",
+      code: "content_rejected",
+      stage: "output",
+      categories: ["violence"],
+    });
+  }
+});
+
+test("the provider is picked from MODERATION_PROVIDER, keyword by default", () => {
+  assert.equal(createModerationClassifier(undefined)?.name, "keyword");
+  assert.equal(createModerationClassifier("LLM")?.name, "llm");
+  assert.equal(createModerationClassifier("off"), null);
+});
+
+test("keyword rules are kept for English and handed to the model for other languages", () => {
+  const keyword = createModerationClassifier("keyword");
+  assert.equal(forStoryLanguage(keyword, "en"), keyword);
+  assert.equal(forStoryLanguage(keyword, "fr")?.name, "llm");
+  assert.equal(forStoryLanguage(strict, "fr"), strict);
+  assert.equal(forStoryLanguage(null, "de"), null);
+});
@@ -0,0 +1,110 @@
+import type { ContentRating, StoryLanguage } from "../types/frontend.js";
+import { createKeywordClassifier } from "./keywordClassifier.js";
+import { createLlmClassifier } from "./llmClassifier.js";
+
+export type ModerationCategory =
+  | "sexual"
+  | "violence"
+  | "gore"
+  | "self-harm"
+  | "drugs"
+  | "profanity"
+  | "hate"
+  | "minors";
+
+// "input": text written by the user (descriptions, typed actions); "output": generated story text
+export type ModerationStage = "input" | "output";
+
+export interface ModerationVerdict {
+  allowed: boolean;
+  categories: ModerationCategory[];
+  reason?: string;
+}
+
+/**
+ * Decides whether text fits a content rating. Implementations must not throw for
+ * ordinary text; an unavailable backend should fall back or allow.
+ */
+export interface ModerationClassifier {
+  readonly name: string;
+  classify(text: string, rating: ContentRating, stage: ModerationStage): Promise<ModerationVerdict>;
+}
+
+export type ModerationResult<T> = { ok: true; value: T } | { ok: false; verdict: ModerationVerdict };
+
+// Body of the 422 response; `code` lets the frontend tell a rejection from other errors
+export interface ContentRejectedBody {
+  error: string;
+  code: "content_rejected";
+  stage: ModerationStage;
+  categories: ModerationCategory[];
+}
+
+/**
+ * Classifier selected by MODERATION_PROVIDER: "keyword" (default, local rules),
+ * "llm" (model-based, falling back to keyword rules) or "off".
+ */
+export function createModerationClassifier(provider = process.env.MODERATION_PROVIDER): ModerationClassifier | null {
+  switch (provider?.trim().toLowerCase()) {
+    case "off":
+    case "none":
+      return null;
+    case "llm":
+      return createLlmClassifier({ fallback: createKeywordClassifier() });
+    case "keyword":
+    default:
+      return createKeywordClassifier();
+  }
+}
+
+/**
+ * The keyword rules only know English words, so for stories in other languages a
+ * keyword classifier hands over to the model and stays on as its fallback.
+ */
+export function forStoryLanguage(classifier: ModerationClassifier | null, language: StoryLanguage): ModerationClassifier | null {
+  if (classifier?.name !== "keyword" || language === "en") return classifier;
+  return createLlmClassifier({ fallback: classifier });
+}
+
+/**
+ * Screens user-written text. A null classifier allows everything.
+ */
+export async function screenInput(
+  classifier: ModerationClassifier | null,
+  text: string,
+  rating: ContentRating,
+): Promise<ModerationVerdict> {
+  if (!classifier || !text.trim()) return { allowed: true, categories: [] };
+  return classifier.classify(text, rating, "input");
+}
+
+/**
+ * Runs `produce` and screens its text. A rejected draft is regenerated up to
+ * `maxAttempts - 1` times; the last verdict is returned if none passes.
+ */
+export async function produceModerated<T>(
+  classifier: ModerationClassifier | null,
+  rating: ContentRating,
+  produce: () => Promise<T>,
+  toText: (value: T) => string,
+  maxAttempts = 2,
+): Promise<ModerationResult<T>> {
+  let verdict: ModerationVerdict = { allowed: true, categories: [] };
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const value = await produce();
+    if (!classifier) return { ok: true, value };
+    verdict = await classifier.classify(toText(value), rating, "output");
+    if (verdict.allowed) return { ok: true, value };
+    console.warn(`[moderation] ${classifier.name} rejected a draft (attempt ${attempt + 1}/${maxAttempts})`, verdict);
+  }
+  return { ok: false, verdict };
+}
+
+export function buildContentRejectedBody(stage: ModerationStage, verdict: ModerationVerdict, rating: ContentRating): ContentRejectedBody {
+  const what = verdict.categories.length > 0 ? ` (${verdict.categories.join(", ")})` : "";
+  const error =
+    stage === "input"
+      ? `That request doesn't fit this story's ${rating} rating${what}. Try describing it differently.`
+      : `We couldn't write a page that fits this story's ${rating} rating${what}. Try another choice.`;
+  return { error, code: "content_rejected", stage, categories: verdict.categories };
+}
@@ -0,0 +1,46 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { classifyByKeywords } from "./keywordClassifier.js";
+
+test("violence passes at PG-13 but not below", () => {
+  const text = "The knight was stabbed and blood pooled on the flagstones.";
+  assert.equal(classifyByKeywords(text, "PG-13").allowed, true);
+  const verdict = classifyByKeywords(text, "PG");
+  assert.equal(verdict.allowed, false);
+  assert.deepEqual(verdict.categories, ["violence"]);
+});
+
+test("each rating admits progressively more", () => {
+  assert.equal(classifyByKeywords("They kissed under the stars.", "G").allowed, false);
+  assert.equal(classifyByKeywords("They kissed under the stars.", "PG").allowed, true);
+  assert.equal(classifyByKeywords("Damn it, the door is locked.", "PG").allowed, false);
+  assert.equal(classifyByKeywords("Damn it, the door is locked.", "PG-13").allowed, true);
+  assert.equal(classifyByKeywords("The corridor was slick with entrails.", "PG-13").allowed, false);
+  assert.equal(classifyByKeywords("The corridor was slick with entrails.", "R").allowed, true);
+});
+
+test("explicit sexual content and sexualised minors are blocked at every rating", () => {
+  assert.equal(classifyByKeywords("An erotic scene follows.", "R").allowed, false);
+  const verdict = classifyByKeywords("The children undressed for the nude scene.", "R");
+  assert.equal(verdict.allowed, false);
+  assert.ok(verdict.categories.includes("minors"));
+});
+
+test("matching is whole-word, so innocent words are left alone", () => {
+  assert.equal(classifyByKeywords("Shell collectors met at the hello booth in Sussex.", "G").allowed, true);
+  assert.equal(classifyByKeywords("The children built a sandcastle.", "G").allowed, true);
+});
+
+test("non-explicit sexual mentions pass at R; explicit terms never do", () => {
+  assert.equal(classifyByKeywords("Their sexual tension simmered.", "R").allowed, true);
+  assert.deepEqual(classifyByKeywords("Their sexual tension simmered.", "PG-13").categories, ["sexual"]);
+  assert.equal(classifyByKeywords("The scene turned pornographic.", "R").allowed, false);
+});
+
+test("minors are flagged only when they share a scene with sexual terms", () => {
+  // "sextant" is not a sexual term
+  assert.equal(classifyByKeywords("The captain checked her sextant while the children slept below deck.", "R").allowed, true);
+  assert.equal(classifyByKeywords("The children slept below deck, far from the sexton.", "G").allowed, true);
+  const apart = `The children waved from the harbour wall. ${"The voyage went on for weeks. ".repeat(8)}Years later the lovers undressed by the fire.`;
+  assert.equal(classifyByKeywords(apart, "R").allowed, true);
+});
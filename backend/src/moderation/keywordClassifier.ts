@@ -0,0 +1,82 @@
+import type { ContentRating } from "../types/frontend.js";
+import type { ModerationCategory, ModerationClassifier, ModerationVerdict } from "./contentModeration.js";
+
+interface KeywordRule {
+  category: ModerationCategory;
+  pattern: RegExp;
+  // Lowest rating at which a match is acceptable; null blocks it at every rating
+  allowedFrom: ContentRating | null;
+}
+
+const RATINGS: ContentRating[] = ["G", "PG", "PG-13", "R"];
+
+// Whole-word, case-insensitive; stems are listed so "stabbed" and "stabbing" both match
+const RULES: KeywordRule[] = [
+  { category: "violence", pattern: /\b(?:blood(?:y|ied)?|bleed(?:s|ing)?|wound(?:s|ed)?)\b/i, allowedFrom: "PG-13" },
+  { category: "violence", pattern: /\b(?:murder\w*|stab\w*|strangl\w*|behead\w*|execut(?:e|ed|ion)|massacre\w*)\b/i, allowedFrom: "PG-13" },
+  { category: "violence", pattern: /\b(?:torture\w*)\b/i, allowedFrom: "R" },
+  { category: "gore", pattern: /\b(?:gore|gory|entrails|disembowel\w*|dismember\w*|mutilat\w*|viscera)\b/i, allowedFrom: "R" },
+  { category: "self-harm", pattern: /\b(?:suicid\w*|self[- ]harm\w*|kill(?:s|ed|ing)? (?:himself|herself|themselves|myself|yourself))\b/i, allowedFrom: "R" },
+  { category: "drugs", pattern: /\b(?:cocaine|heroin|meth(?:amphetamine)?|overdos\w*|narcotics?)\b/i, allowedFrom: "R" },
+  { category: "profanity", pattern: /\b(?:damn\w*|hell|crap\w*|bastard\w*)\b/i, allowedFrom: "PG-13" },
+  { category: "profanity", pattern: /\b(?:fuck\w*|shit\w*|bitch\w*|asshole\w*)\b/i, allowedFrom: "R" },
+  { category: "sexual", pattern: /\b(?:kiss(?:es|ed|ing)?|make out|making out)\b/i, allowedFrom: "PG" },
+  { category: "sexual", pattern: /\b(?:naked|nude|nudity|undress\w*|seduc\w*|lust\w*)\b/i, allowedFrom: "R" },
+  // Mentions ("their sexual tension") are for adult stories; explicit terms are never written
+  { category: "sexual", pattern: /\b(?:sex|sexy|sexual(?:ly|ity)?)\b/i, allowedFrom: "R" },
+  { category: "sexual", pattern: /\b(?:intercourse|orgasm\w*|erotic\w*|porn\w*|genital\w*)\b/i, allowedFrom: null },
+];
+
+const SEXUAL_CONTEXT = /\b(?:sex|sexy|sexual(?:ly|ity)?|naked|nude|nudity|erotic\w*|seduc\w*|undress\w*|porn\w*)\b/gi;
+const MINOR_CONTEXT = /\b(?:child(?:ren)?|kids?|minors?|underage|toddlers?|(?:[1-9]|1[0-7])[- ]year[- ]olds?)\b/gi;
+// How close (in characters) a sexual term and a minor must be to be read as one scene
+const MINOR_WINDOW_CHARS = 120;
+
+/**
+ * Local rule-based classifier: matches word lists against the rating's allowances.
+ * Fast and deterministic, but blind to context ("a bloody good time" trips the
+ * violence rule), so it errs towards rejecting at low ratings. The word lists are
+ * English only; forStoryLanguage() swaps in the model for other story languages.
+ */
+export function createKeywordClassifier(): ModerationClassifier {
+  return {
+    name: "keyword",
+    async classify(text, rating) {
+      return classifyByKeywords(text, rating);
+    },
+  };
+}
+
+export function classifyByKeywords(text: string, rating: ContentRating): ModerationVerdict {
+  const categories = new Set<ModerationCategory>();
+  const matches: string[] = [];
+  const level = RATINGS.indexOf(rating);
+
+  for (const rule of RULES) {
+    if (rule.allowedFrom !== null && RATINGS.indexOf(rule.allowedFrom) <= level) continue;
+    const match = text.match(rule.pattern);
+    if (match) {
+      categories.add(rule.category);
+      matches.push(match[0]);
+    }
+  }
+  // Sexual content near minors is refused outright, whatever the rating
+  if (findsNear(text, SEXUAL_CONTEXT, MINOR_CONTEXT, MINOR_WINDOW_CHARS)) {
+    categories.add("minors");
+    matches.push("sexual content involving minors");
+  }
+
+  if (categories.size === 0) return { allowed: true, categories: [] };
+  return {
+    allowed: false,
+    categories: [...categories],
+    reason: `Matched ${matches.map(m => `"${m}"`).join(", ")} above ${rating}`,
+  };
+}
+
+// True when a match of `a` and a match of `b` start within `window` characters of each other
+function findsNear(text: string, a: RegExp, b: RegExp, window: number): boolean {
+  const positions = [...text.matchAll(b)].map(m => m.index);
+  if (positions.length === 0) return false;
+  return [...text.matchAll(a)].some(m => positions.some(p => Math.abs(p - m.index) <= window));
+}
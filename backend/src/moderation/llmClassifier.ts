@@ -0,0 +1,54 @@
+import { generateJsonFromInputs } from "../agents/textAgent.js";
+import { describeContentRating } from "../generators/configurationGuidance.js";
+import type { ModerationCategory, ModerationClassifier, ModerationVerdict } from "./contentModeration.js";
+
+const CATEGORIES: ModerationCategory[] = ["sexual", "violence", "gore", "self-harm", "drugs", "profanity", "hate", "minors"];
+
+interface LlmVerdictJson {
+  allowed?: unknown;
+  categories?: unknown;
+  reason?: unknown;
+}
+
+/**
+ * Model-based classifier: judges context ("a bloody good time" is fine at G) where the
+ * keyword rules cannot. When the model call fails the `fallback` decides; without one
+ * the text is allowed, so an outage never blocks reading.
+ */
+export function createLlmClassifier(options: { fallback?: ModerationClassifier } = {}): ModerationClassifier {
+  return {
+    name: "llm",
+    async classify(text, rating, stage) {
+      const instructions = [
+        "You are a content moderator for an interactive fiction app.",
+        `Decide whether the TEXT fits the content rating ${rating}: ${describeContentRating(rating)}`,
+        stage === "input"
+          ? "The TEXT is a reader's request. Judge what it asks the story to depict, not the words used to ask."
+          : "The TEXT is a generated story page. Judge what it depicts on the page.",
+        "Fiction may mention things it does not show; only flag content the rating does not allow.",
+        "Sexual content involving minors is never allowed at any rating.",
+        `Return STRICT JSON: { "allowed": boolean; "categories": Array<${CATEGORIES.map(c => `"${c}"`).join(" | ")}>; "reason": string }`,
+        "categories lists only the categories that exceed the rating; empty when allowed. reason is one short sentence.",
+      ].join("\n");
+
+      try {
+        const { json } = await generateJsonFromInputs<LlmVerdictJson>({ rating, stage, text }, instructions);
+        return normalizeVerdict(json);
+      } catch (err) {
+        console.error("[moderation] llm classifier failed", err);
+        return options.fallback ? options.fallback.classify(text, rating, stage) : { allowed: true, categories: [] };
+      }
+    },
+  };
+}
+
+function normalizeVerdict(json: LlmVerdictJson): ModerationVerdict {
+  const categories = Array.isArray(json?.categories)
+    ? json.categories.filter((c): c is ModerationCategory => CATEGORIES.includes(c as ModerationCategory))
+    : [];
+  // A missing flag with flagged categories is read as a rejection
+  const allowed = typeof json?.allowed === "boolean" ? json.allowed : categories.length === 0;
+  const verdict: ModerationVerdict = { allowed, categories: allowed ? [] : categories };
+  if (typeof json?.reason === "string" && json.reason.trim()) verdict.reason = json.reason.trim();
+  return verdict;
+}
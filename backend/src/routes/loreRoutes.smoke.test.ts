@@ -0,0 +1,37 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import express from "express";
+import request from "supertest";
+import { createLoreRouter } from "./loreRoutes.js";
+import { createStoryRouter } from "./storyRoutes.js";
+import { createLoreStore } from "../lore/loreStore.js";
+
+test("lore documents can be uploaded, searched, and unknown ids are refused by /define", async () => {
+  const store = createLoreStore({ dir: null });
+  const app = express();
+  app.use(express.json());
+  app.use("/api/lore", createLoreRouter({ store }));
+  app.use("/api/story", createStoryRouter({ moderation: null, lore: store }));
+
+  const created = await request(app)
+    .post("/api/lore")
+    .send({ title: "Tidewater", content: "# Velmora\nThe drowned city rings its bells at low tide." })
+    .expect(201);
+  assert.equal(created.body.chunkCount, 1);
+
+  const listed = await request(app).get("/api/lore").expect(200);
+  assert.deepEqual(listed.body.map((d: { id: string }) => d.id), [created.body.id]);
+  assert.equal(listed.body[0].content, undefined);
+
+  const found = await request(app).get("/api/lore/search").query({ q: "drowned bells" }).expect(200);
+  assert.equal(found.body[0]?.heading, "Velmora");
+
+  const refused = await request(app)
+    .post("/api/story/define")
+    .send({ length: "small", density: "medium", description: "A heist in Velmora.", loreIds: ["missing"] })
+    .expect(400);
+  assert.match(refused.body.error, /Unknown lore document/);
+
+  await request(app).delete(`/api/lore/${created.body.id}`).expect(204);
+  await request(app).get(`/api/lore/${created.body.id}`).expect(404);
+});
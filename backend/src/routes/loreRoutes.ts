@@ -0,0 +1,96 @@
+import express, { type Request, type Response, type Router } from "express";
+import { getDefaultLoreStore, normalizeLoreInput, type LoreStore } from "../lore/loreStore.js";
+
+export interface LoreRouterDeps {
+  // Omitted: the shared store (LORE_DIR, default backend/data/lore)
+  store?: LoreStore;
+}
+
+/**
+ * World bible documents: upload markdown or plain text once, then pick documents by id
+ * in StoryConfiguration.loreIds and the story generators retrieve the relevant passages.
+ */
+export function createLoreRouter(deps: LoreRouterDeps = {}): Router {
+  const router: Router = express.Router();
+  const getStore = () => deps.store ?? getDefaultLoreStore();
+
+  // List documents (without their content)
+  router.get("/", async (_req: Request, res: Response) => {
+    try {
+      return res.json(await getStore().list());
+    } catch (err) {
+      console.error("Error listing lore documents:", err);
+      return res.status(500).json({ error: "Failed to list lore documents." });
+    }
+  });
+
+  // Preview what retrieval would quote: ?q=query&ids=a,b (ids optional)
+  router.get("/search", async (req: Request, res: Response) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) {
+      return res.status(400).json({ error: "Missing query. Expect ?q=...&ids=optional,comma,separated" });
+    }
+    const ids = typeof req.query.ids === "string" ? req.query.ids.split(",").map(id => id.trim()).filter(Boolean) : undefined;
+    try {
+      return res.json(await getStore().search(q, ids ? { documentIds: ids } : {}));
+    } catch (err) {
+      console.error("Error searching lore:", err);
+      return res.status(500).json({ error: "Failed to search lore." });
+    }
+  });
+
+  router.get("/:id", async (req: Request, res: Response) => {
+    try {
+      const document = await getStore().get(String(req.params.id));
+      return document ? res.json(document) : res.status(404).json({ error: "Lore document not found." });
+    } catch (err) {
+      console.error("Error reading lore document:", err);
+      return res.status(500).json({ error: "Failed to read lore document." });
+    }
+  });
+
+  // Upload a document: { title, content } where content is markdown or plain text
+  router.post("/", async (req: Request, res: Response) => {
+    const input = normalizeLoreInput(req.body);
+    if (!input.ok) {
+      return res.status(400).json({ error: input.error });
+    }
+    try {
+      const document = await getStore().create({ title: input.title ?? "", content: input.content ?? "" });
+      return res.status(201).json(document);
+    } catch (err) {
+      console.error("Error saving lore document:", err);
+      return res.status(500).json({ error: "Failed to save lore document." });
+    }
+  });
+
+  // Replace the title and/or content of a document; it is re-chunked and re-indexed
+  router.put("/:id", async (req: Request, res: Response) => {
+    const input = normalizeLoreInput(req.body, { partial: true });
+    if (!input.ok) {
+      return res.status(400).json({ error: input.error });
+    }
+    const patch: { title?: string; content?: string } = {};
+    if (input.title !== undefined) patch.title = input.title;
+    if (input.content !== undefined) patch.content = input.content;
+    try {
+      const document = await getStore().update(String(req.params.id), patch);
+      return document ? res.json(document) : res.status(404).json({ error: "Lore document not found." });
+    } catch (err) {
+      console.error("Error updating lore document:", err);
+      return res.status(500).json({ error: "Failed to update lore document." });
+    }
+  });
+
+  router.delete("/:id", async (req: Request, res: Response) => {
+    try {
+      const removed = await getStore().remove(String(req.params.id));
+      return removed ? res.status(204).end() : res.status(404).json({ error: "Lore document not found." });
+    } catch (err) {
+      console.error("Error deleting lore document:", err);
+      return res.status(500).json({ error: "Failed to delete lore document." });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,293 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import express from "express";
+import request from "supertest";
+import { createSpeechRouter } from "./speechRoutes.js";
+import { createLocalSpeechProvider } from "../speech/localSpeechProvider.js";
+import type { SpeechProvider } from "../speech/speechProvider.js";
+import { createAudioCache } from "../utils/audioCache.js";
+import { audioDuration } from "../utils/audioFormat.js";
+
+const NARRATOR = "JBFqnCBsd6RMkjVDRZzb";
+const MARA = "EXAVITQu4vr4xnSDxMaL";
+
+// ElevenLabs-like alignment: every character takes a tenth of a second
+function fakeAlignment(text: string) {
+  const characters = [...text];
+  return {
+    characters,
+    character_start_times_seconds: characters.map((_, i) => i / 10),
+    character_end_times_seconds: characters.map((_, i) => (i + 1) / 10),
+  };
+}
+
+// Every fake file starts with an empty ID3v2 tag, as ElevenLabs MP3s do
+function fakeMp3(label: string) {
+  return Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0, ...Buffer.from(label)]);
+}
+
+function fakeProvider(synthesize: SpeechProvider["synthesize"], maxChars = 10_000): SpeechProvider {
+  return {
+    name: "fake",
+    modelId: "fake-model",
+    capabilities: { format: "mp3", timestamps: true, maxChars },
+    synthesize,
+    listVoices: async () => [],
+    narratorVoiceId: () => NARRATOR,
+  };
+}
+
+// supertest buffers audio responses as text otherwise
+const collectBody: Parameters<request.Test["parse"]>[0] = (response, done) => {
+  const chunks: Buffer[] = [];
+  response.on("data", (chunk: Buffer) => chunks.push(chunk));
+  response.on("end", () => done(null, Buffer.concat(chunks)));
+};
+
+test("/page stitches the narrator and speaker segments into one stream, in order", async () => {
+  const calls: string[] = [];
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      cache: createAudioCache({ dir: null }),
+      provider: fakeProvider(async ({ text, voiceId }) => {
+        calls.push(`${voiceId === MARA ? "mara" : "narrator"}:${text}`);
+        return { ok: true, audio: fakeMp3(`[${text}]`) };
+      }),
+    }),
+  );
+
+  const res = await request(app)
+    .post("/api/speech/page")
+    .send({
+      page: {
+        text: "Mara surfaced. The bell is here.",
+        segments: [
+          { type: "narration", text: "Mara surfaced." },
+          { type: "dialogue", text: "The bell is here.", speakerId: "mara" },
+        ],
+      },
+      voices: { narratorVoiceId: NARRATOR, characters: [{ characterId: "mara", voiceId: MARA, voiceName: "Sarah" }] },
+    })
+    .buffer(true)
+    .parse(collectBody)
+    .expect(200)
+    .expect("Content-Type", "audio/mpeg");
+
+  assert.deepEqual(calls, ["narrator:Mara surfaced.", "mara:The bell is here."]);
+  const body = res.body as Buffer;
+  assert.equal(body.subarray(0, 3).toString(), "ID3");
+  assert.equal(body.subarray(10).toString(), "[Mara surfaced.][The bell is here.]");
+
+  await request(app)
+    .post("/api/speech/page")
+    .send({ page: { text: "Hi." }, voices: { narratorVoiceId: "../../admin", characters: [] } })
+    .expect(400);
+});
+
+test("long narration is chunked at sentences, rendered concurrently and streamed in order", async () => {
+  const requests: Array<{ text: string; previousText?: string | undefined; nextText?: string | undefined }> = [];
+  let active = 0;
+  let peak = 0;
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      cache: createAudioCache({ dir: null }),
+      // Later chunks finish first, so only the route keeps them in order
+      provider: fakeProvider(async ({ text, previousText, nextText }) => {
+        requests.push({ text, previousText, nextText });
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise(resolve => setTimeout(resolve, 40 - requests.length * 5));
+        active -= 1;
+        return { ok: true, audio: fakeMp3(`[${text}]`) };
+      }, 20),
+    }),
+  );
+
+  const text = "The tide turned. Mara dove again. The gate was open. Light poured out. She swam in.";
+  const res = await request(app)
+    .post("/api/speech/generate")
+    .send({ text })
+    .buffer(true)
+    .parse(collectBody)
+    .expect(200)
+    .expect("X-Speech-Segments", "5");
+
+  const body = res.body as Buffer;
+  assert.equal(body.subarray(10).toString(), "[The tide turned.][Mara dove again.][The gate was open.][Light poured out.][She swam in.]");
+  assert.equal(peak, 3);
+  assert.deepEqual(requests[1], { text: "Mara dove again.", previousText: "The tide turned.", nextText: "The gate was open." });
+
+  // Stitched once streamed, so the repeat is a plain cached file
+  await request(app).post("/api/speech/generate").send({ text }).expect(200).expect("Accept-Ranges", "bytes");
+  assert.equal(requests.length, 5);
+});
+
+test("/voices lists the provider's voices and the reader's narrator replaces the genre's", async () => {
+  const voiceIds: string[] = [];
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      cache: createAudioCache({ dir: null }),
+      provider: {
+        ...fakeProvider(async ({ voiceId }) => {
+          voiceIds.push(voiceId);
+          return { ok: true, audio: fakeMp3(voiceId) };
+        }),
+        listVoices: async () => [
+          { id: NARRATOR, name: "George", gender: "male", age: "middle-aged", accent: "british", style: "warm", genres: ["adventure"] },
+          { id: MARA, name: "Sarah", gender: "female", age: "young", accent: "american", style: "soft" },
+        ],
+      },
+    }),
+  );
+
+  const catalog = await request(app).get("/api/speech/voices").query({ genre: "adventure" }).expect(200);
+  assert.deepEqual(catalog.body, {
+    provider: "fake",
+    narratorVoiceId: NARRATOR,
+    voices: [
+      { id: NARRATOR, label: "George", gender: "male", age: "middle-aged", accent: "british", style: "warm", genres: ["adventure"] },
+      { id: MARA, label: "Sarah", gender: "female", age: "young", accent: "american", style: "soft", genres: [] },
+    ],
+  });
+
+  await request(app).post("/api/speech/generate").send({ text: "Once.", genre: "adventure" }).expect(200);
+  await request(app).post("/api/speech/generate").send({ text: "Once.", genre: "adventure", voiceId: MARA }).expect(200);
+  await request(app).post("/api/speech/generate").send({ text: "Once.", voiceId: "../x" }).expect(400);
+  assert.deepEqual(voiceIds, [NARRATOR, MARA]);
+
+  const definition = { genre: "adventure", protagonist: { id: "tom", name: "Tom", role: "sailor", description: "Keeps the lighthouse" } };
+  const cast = await request(app).post("/api/speech/cast").send({ definition, narratorVoiceId: MARA }).expect(200);
+  assert.equal(cast.body.narratorVoiceId, MARA);
+  assert.deepEqual(cast.body.characters.map((c: { voiceId: string }) => c.voiceId), [NARRATOR]);
+  await request(app).post("/api/speech/cast").send({ definition, narratorVoiceId: 7 }).expect(400);
+});
+
+test("narration is synthesized once, then served from the cache with byte ranges", async () => {
+  let calls = 0;
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      cache: createAudioCache({ dir: null }),
+      timings: createAudioCache({ dir: null, extension: "json" }),
+      provider: fakeProvider(async ({ text, timestamps }) => {
+        if (!timestamps) calls += 1;
+        return { ok: true, audio: Buffer.from(`audio:${text}`), alignment: fakeAlignment(text) };
+      }),
+    }),
+  );
+  const body = { text: "Mara dives.", genre: "fantasy" };
+
+  const first = await request(app).post("/api/speech/generate").send(body).expect(200).expect("Accept-Ranges", "bytes");
+  const key = String(first.headers["x-audio-key"]);
+  assert.match(key, /^[a-f0-9]{64}$/);
+  await request(app).post("/api/speech/generate").send(body).expect(200);
+  const prerendered = await request(app).post("/api/speech/prerender").send(body).expect(202);
+  assert.equal(prerendered.body.url, `/api/speech/audio/${key}`);
+  assert.equal(calls, 1);
+
+  const ranged = await request(app)
+    .get(`/api/speech/audio/${key}`)
+    .set("Range", "bytes=6-")
+    .buffer(true)
+    .parse(collectBody)
+    .expect(206)
+    .expect("Content-Range", "bytes 6-16/17");
+  assert.equal((ranged.body as Buffer).toString(), "Mara dives.");
+  await request(app).get(`/api/speech/audio/${key}`).set("Range", "bytes=99-").expect(416);
+  await request(app).get(`/api/speech/audio/${"0".repeat(64)}`).expect(404);
+});
+
+test("/timed returns word timings across the speakers of a page, rendered once", async () => {
+  let calls = 0;
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      cache: createAudioCache({ dir: null }),
+      timings: createAudioCache({ dir: null, extension: "json" }),
+      // 16000 bytes of constant-bitrate MP3 play for one second
+      provider: fakeProvider(async ({ text }) => {
+        calls += 1;
+        return { ok: true, audio: Buffer.alloc(16_000, text.length), alignment: fakeAlignment(text) };
+      }),
+    }),
+  );
+  const body = {
+    page: {
+      text: "Mara surfaced. Go back!",
+      segments: [
+        { type: "narration", text: "Mara surfaced." },
+        { type: "dialogue", text: "Go back!", speakerId: "mara" },
+      ],
+    },
+    voices: { narratorVoiceId: NARRATOR, characters: [{ characterId: "mara", voiceId: MARA, voiceName: "Sarah" }] },
+  };
+
+  const manifest = await request(app).post("/api/speech/timed").send(body).expect(200);
+  assert.equal(manifest.body.text, "Mara surfaced. Go back!");
+  assert.equal(manifest.body.duration, 2);
+  assert.deepEqual(manifest.body.words, [
+    { text: "Mara", start: 0, end: 4, startTime: 0, endTime: 0.4 },
+    { text: "surfaced.", start: 5, end: 14, startTime: 0.5, endTime: 1.4 },
+    { text: "Go", start: 15, end: 17, startTime: 1, endTime: 1.2 },
+    { text: "back!", start: 18, end: 23, startTime: 1.3, endTime: 1.8 },
+  ]);
+  const audio = await request(app).get(manifest.body.audioUrl).expect(200);
+  assert.equal(Number(audio.headers["content-length"]), 32_000);
+
+  await request(app).post("/api/speech/timed").send(body).expect(200);
+  assert.equal(calls, 2);
+});
+
+test("the local tone provider narrates pages as WAV without any tokens", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/speech",
+    createSpeechRouter({
+      provider: createLocalSpeechProvider({ engine: "tone" }),
+      cache: createAudioCache({ dir: null, extension: "wav" }),
+      timings: createAudioCache({ dir: null, extension: "json" }),
+    }),
+  );
+  const cast = await request(app)
+    .post("/api/speech/cast")
+    .send({ definition: { genre: "fantasy", protagonist: { id: "mara", name: "Mara", role: "diver", description: "A young woman" } } })
+    .expect(200);
+  assert.equal(cast.body.narratorVoiceId, "tone-mid");
+  assert.deepEqual(cast.body.characters.map((c: { voiceId: string }) => c.voiceId), ["tone-bright"]);
+
+  const page = {
+    page: {
+      text: "Mara surfaced. Go!",
+      segments: [
+        { type: "narration", text: "Mara surfaced." },
+        { type: "dialogue", text: "Go!", speakerId: "mara" },
+      ],
+    },
+    voices: cast.body,
+  };
+  const res = await request(app).post("/api/speech/page").send(page).buffer(true).parse(collectBody).expect(200).expect("Content-Type", "audio/wav");
+  // 17 characters at 60 ms each, stitched under one header
+  assert.equal(audioDuration(res.body as Buffer), 1.02);
+
+  const manifest = await request(app).post("/api/speech/timed").send(page).expect(200);
+  assert.equal(manifest.body.duration, 1.02);
+  assert.deepEqual(manifest.body.words.map((w: { text: string; startTime: number }) => [w.text, w.startTime]), [
+    ["Mara", 0],
+    ["surfaced.", 0.3],
+    ["Go!", 0.84],
+  ]);
+});
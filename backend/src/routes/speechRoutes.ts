@@ -0,0 +1,506 @@
+import express, { type Request, type Response, type Router } from "express";
+import type { SpeechAlignment } from "../agents/speechAgents.js";
+import { generateVoiceCasting, planPageSpeech, type SpeechRun } from "../generators/voiceCasting.js";
+import { resolveStoryLanguage } from "../generators/languageGuidance.js";
+import { createSpeechProvider, type SpeechProvider } from "../speech/speechProvider.js";
+import {
+  getAudioCacheKey,
+  getDefaultAudioCache,
+  getDefaultTimingCache,
+  isAudioCacheKey,
+  type AudioCache,
+} from "../utils/audioCache.js";
+import { AUDIO_MIME_TYPES, audioContinuation, audioDuration, detectAudioFormat, stitchAudio } from "../utils/audioFormat.js";
+import { chunkText } from "../utils/textChunker.js";
+import { buildWordTimings, estimateAlignment } from "../utils/wordTimings.js";
+import type {
+  SpeechTimingManifest,
+  SpeechVoiceCatalog,
+  StoryConfiguration,
+  StoryDefinition,
+  StoryPage,
+  StoryVoices,
+  WordTiming,
+} from "../types/frontend.js";
+
+// Voice ids end up in URL paths and engine arguments, so only plain ids are accepted
+const VOICE_ID = /^[A-Za-z0-9][A-Za-z0-9_+-]{1,63}$/;
+const MAX_PAGE_CHARS = 8000;
+const MAX_RUNS = 40;
+// Runs are split at sentences into requests of this size; the first is short so a
+// streamed reading starts soon
+const CHUNK_CHARS = 1200;
+const FIRST_CHUNK_CHARS = 300;
+// Chunks rendering at once, ahead of the one being streamed
+const SYNTHESIS_CONCURRENCY = 3;
+
+export interface SpeechRouterDeps {
+  // Omitted: chosen from SPEECH_PROVIDER on first use; null answers every request with 500
+  provider?: SpeechProvider | null;
+  // Omitted: the shared cache configured from AUDIO_CACHE_DIR
+  cache?: AudioCache;
+  // Omitted: word timings kept beside the shared audio cache
+  timings?: AudioCache;
+}
+
+// One synthesis request: part of a run, with the text around it in the same voice
+interface NarrationChunk extends SpeechRun {
+  previousText: string | undefined;
+  nextText: string | undefined;
+}
+
+// What to read and in which voices; `key` addresses the finished audio in the cache
+interface NarrationPlan {
+  key: string;
+  chunks: NarrationChunk[];
+  language: string | undefined;
+}
+
+type NarrationPlanResult = NarrationPlan | { error: string; status: number };
+
+interface TimedChunk {
+  audio: Buffer;
+  alignment: SpeechAlignment;
+  rendered: boolean;
+}
+
+// The provider answered with an error; its status is passed on to the client
+class SpeechUpstreamError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Narration endpoints. Every rendered chunk is kept in the audio cache, keyed by text,
+ * voice and model, so re-reading a page (or reading a pre-rendered one) costs nothing.
+ */
+export function createSpeechRouter(deps: SpeechRouterDeps = {}): Router {
+  const router: Router = express.Router();
+
+  // Resolved lazily: the default router is built at import time, before .env is loaded
+  let provider: SpeechProvider | null | undefined = deps.provider;
+  function getProvider(): SpeechProvider | null {
+    if (provider === undefined) provider = createSpeechProvider();
+    return provider;
+  }
+
+  function getCache(speech: SpeechProvider): AudioCache {
+    return deps.cache ?? getDefaultAudioCache(speech.capabilities.format);
+  }
+
+  function getTimings(): AudioCache {
+    return deps.timings ?? getDefaultTimingCache();
+  }
+
+  // The neighbouring text shapes prosody only slightly, so it is left out of the key
+  function chunkKey(speech: SpeechProvider, chunk: NarrationChunk): string {
+    return getAudioCacheKey(chunk.text, chunk.voiceId, speech.modelId);
+  }
+
+  function synthesizeChunk(speech: SpeechProvider, chunk: NarrationChunk, language: string | undefined, timestamps = false) {
+    return speech.synthesize({
+      text: chunk.text,
+      voiceId: chunk.voiceId,
+      language,
+      previousText: chunk.previousText,
+      nextText: chunk.nextText,
+      ...(timestamps ? { timestamps } : {}),
+    });
+  }
+
+  function renderChunk(speech: SpeechProvider, chunk: NarrationChunk, language: string | undefined): Promise<Buffer> {
+    return getCache(speech).getOrRender(chunkKey(speech, chunk), async () => {
+      const result = await synthesizeChunk(speech, chunk, language);
+      if (!result.ok) throw new SpeechUpstreamError(result.status, result.error);
+      return result.audio;
+    });
+  }
+
+  // The whole narration as one file; a single chunk is its own cache entry
+  function renderNarration(speech: SpeechProvider, plan: NarrationPlan): Promise<Buffer> {
+    const [first] = plan.chunks;
+    if (plan.chunks.length === 1 && first) return renderChunk(speech, first, plan.language);
+    return getCache(speech).getOrRender(plan.key, async () => {
+      const jobs = startInOrder(plan.chunks, SYNTHESIS_CONCURRENCY, chunk => renderChunk(speech, chunk, plan.language));
+      return stitchAudio(await Promise.all(jobs));
+    });
+  }
+
+  // Timings only fit the audio rendered with them, so a chunk without stored timings is
+  // rendered again and replaces the cached audio. Both live under the chunk's audio key.
+  // Providers that report no timings get them spread evenly over the audio.
+  const pendingTimedChunks = new Map<string, Promise<TimedChunk>>();
+  function renderTimedChunk(speech: SpeechProvider, chunk: NarrationChunk, language: string | undefined): Promise<TimedChunk> {
+    const key = chunkKey(speech, chunk);
+    const inFlight = pendingTimedChunks.get(key);
+    if (inFlight) return inFlight;
+    const job = (async (): Promise<TimedChunk> => {
+      const [audio, stored] = await Promise.all([getCache(speech).get(key), getTimings().get(key)]);
+      if (audio && stored) {
+        return { audio, alignment: JSON.parse(stored.toString("utf8")) as SpeechAlignment, rendered: false };
+      }
+      const result = await synthesizeChunk(speech, chunk, language, true);
+      if (!result.ok) throw new SpeechUpstreamError(result.status, result.error);
+      const alignment = result.alignment ?? estimateAlignment(chunk.text, audioDuration(result.audio));
+      await getCache(speech).set(key, result.audio);
+      await getTimings().set(key, Buffer.from(JSON.stringify(alignment), "utf8"));
+      return { audio: result.audio, alignment, rendered: true };
+    })().finally(() => pendingTimedChunks.delete(key));
+    pendingTimedChunks.set(key, job);
+    return job;
+  }
+
+  // Narration with word timings across all its chunks, as one stitched file
+  async function renderTimedNarration(
+    speech: SpeechProvider,
+    plan: NarrationPlan,
+    baseUrl: string,
+  ): Promise<SpeechTimingManifest> {
+    const timedChunks = await Promise.all(
+      startInOrder(plan.chunks, SYNTHESIS_CONCURRENCY, async chunk => ({
+        chunk,
+        ...(await renderTimedChunk(speech, chunk, plan.language)),
+      })),
+    );
+    const words: WordTiming[] = [];
+    let seconds = 0;
+    let chars = 0;
+    for (const { chunk, audio, alignment } of timedChunks) {
+      words.push(...buildWordTimings(alignment, { chars, seconds }));
+      seconds += audioDuration(audio);
+      chars += chunk.text.length + 1;
+    }
+    const rendered = timedChunks.some(t => t.rendered);
+    if (plan.chunks.length > 1 && (rendered || !(await getCache(speech).get(plan.key)))) {
+      await getCache(speech).set(plan.key, stitchAudio(timedChunks.map(t => t.audio)));
+    }
+    return {
+      key: plan.key,
+      audioUrl: `${baseUrl}/audio/${plan.key}`,
+      text: plan.chunks.map(c => c.text).join(" "),
+      duration: Math.round(seconds * 1000) / 1000,
+      words,
+    };
+  }
+
+  function sendRenderError(res: Response, err: unknown): Response {
+    if (err instanceof SpeechUpstreamError) {
+      return res.status(err.status || 502).json({ error: err.message });
+    }
+    const message = err instanceof Error ? err.message : "Unknown speech generation error.";
+    console.error("Speech generation failed:", message);
+    return res.status(502).json({ error: message });
+  }
+
+  // Cached narration is sent whole, with Range support. Otherwise MP3 is streamed chunk by
+  // chunk while the next ones render, so playback starts after the first chunk; a WAV
+  // header states the total length up front, so WAV is rendered whole.
+  async function sendNarration(req: Request, res: Response, speech: SpeechProvider, plan: NarrationPlan): Promise<Response> {
+    const cached = await getCache(speech).get(plan.key);
+    if (cached) return sendAudio(req, res, cached, plan.key);
+    if (speech.capabilities.format === "mp3" && plan.chunks.length > 1) return streamNarration(res, speech, plan);
+    try {
+      return sendAudio(req, res, await renderNarration(speech, plan), plan.key);
+    } catch (err) {
+      return sendRenderError(res, err);
+    }
+  }
+
+  async function streamNarration(res: Response, speech: SpeechProvider, plan: NarrationPlan): Promise<Response> {
+    let closed = false;
+    res.on("close", () => {
+      closed = true;
+    });
+    const jobs = startInOrder(plan.chunks, SYNTHESIS_CONCURRENCY, async chunk => {
+      // Chunks not yet started are dropped once the listener has gone
+      if (closed) throw new Error("Narration request closed.");
+      return renderChunk(speech, chunk, plan.language);
+    });
+    const parts: Buffer[] = [];
+    for (const [index, job] of jobs.entries()) {
+      let audio: Buffer;
+      try {
+        audio = await job;
+      } catch (err) {
+        if (closed) return res;
+        console.error("Narration failed", { chunk: index, voiceId: plan.chunks[index]?.voiceId, err });
+        // Before the first byte the client gets a proper error; after it, a shorter stream
+        if (!res.headersSent) return sendRenderError(res, err);
+        return res.end();
+      }
+      if (!res.headersSent) {
+        res.setHeader("Content-Type", AUDIO_MIME_TYPES.mp3);
+        res.setHeader("X-Speech-Segments", String(plan.chunks.length));
+        res.setHeader("X-Audio-Key", plan.key);
+      }
+      parts.push(audio);
+      // MP3 frames concatenate cleanly; only the tag of each later file must go
+      res.write(index === 0 ? audio : audioContinuation(audio));
+    }
+    res.end();
+    // Complete narration is kept whole too, for seeking through /audio/:key
+    void getCache(speech)
+      .getOrRender(plan.key, async () => stitchAudio(parts))
+      .catch(() => undefined);
+    return res;
+  }
+
+  function sendNoProvider(res: Response): Response {
+    console.error("No speech provider: set SPEECH_PROVIDER=local, or the ElevenLabs and Cloudflare Gateway .env variables");
+    return res.status(500).json({ error: "Server configuration error. Missing required environment variables." });
+  }
+
+  // Read text in the narrator voice for its genre and language: { text, genre?, language? }
+  router.post("/generate", async (req: Request, res: Response) => {
+    const speech = getProvider();
+    if (!speech) return sendNoProvider(res);
+    const plan = planNarration(req.body ?? {}, speech);
+    if ("error" in plan) {
+      return res.status(plan.status).json({ error: plan.error });
+    }
+    return sendNarration(req, res, speech, plan);
+  });
+
+  // Read-along: the narration's audio URL and when each word is spoken. Takes the body
+  // of /generate or of /page.
+  router.post("/timed", async (req: Request, res: Response) => {
+    const speech = getProvider();
+    if (!speech) return sendNoProvider(res);
+    const plan = planNarration(req.body ?? {}, speech);
+    if ("error" in plan) {
+      return res.status(plan.status).json({ error: plan.error });
+    }
+    try {
+      return res.json(await renderTimedNarration(speech, plan, req.baseUrl));
+    } catch (err) {
+      return sendRenderError(res, err);
+    }
+  });
+
+  // Render narration (with word timings) in the background as soon as a page exists.
+  // Takes the body of /generate or of /page and answers at once with where the audio will be.
+  router.post("/prerender", async (req: Request, res: Response) => {
+    const speech = getProvider();
+    if (!speech) return sendNoProvider(res);
+    const plan = planNarration(req.body ?? {}, speech);
+    if ("error" in plan) {
+      return res.status(plan.status).json({ error: plan.error });
+    }
+    void renderTimedNarration(speech, plan, req.baseUrl).catch(err => {
+      console.warn("[speech] pre-rendering narration failed", { key: plan.key, err: err instanceof Error ? err.message : err });
+    });
+    return res.status(202).json({ key: plan.key, url: `${req.baseUrl}/audio/${plan.key}` });
+  });
+
+  // Cached (or still rendering) narration by key. Content-addressed, so browsers may keep it forever
+  router.get("/audio/:key", async (req: Request, res: Response) => {
+    const key = String(req.params.key ?? "");
+    if (!isAudioCacheKey(key)) {
+      return res.status(400).json({ error: "Invalid audio key." });
+    }
+    const speech = getProvider();
+    const audio = speech ? await getCache(speech).get(key) : null;
+    if (!audio) {
+      return res.status(404).json({ error: "Audio not found. Render it with /generate or /prerender first." });
+    }
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    return sendAudio(req, res, audio, key);
+  });
+
+  // Voices a reader can pick as narrator, and the default for `?genre=&language=`
+  router.get("/voices", async (req: Request, res: Response) => {
+    const speech = getProvider();
+    if (!speech) return sendNoProvider(res);
+    const genre = typeof req.query.genre === "string" ? req.query.genre : undefined;
+    const language = typeof req.query.language === "string" ? req.query.language : undefined;
+    try {
+      const voices = await speech.listVoices();
+      const catalog: SpeechVoiceCatalog = {
+        provider: speech.name,
+        narratorVoiceId: speech.narratorVoiceId(genre, language),
+        voices: voices.map(v => ({
+          id: v.id,
+          label: v.name,
+          gender: v.gender,
+          age: v.age,
+          accent: v.accent,
+          style: v.style,
+          genres: v.genres ?? [],
+        })),
+      };
+      return res.json(catalog);
+    } catch (err) {
+      console.error("Error listing voices:", err);
+      return res.status(502).json({ error: "Failed to list voices." });
+    }
+  });
+
+  // Assign a voice to every character of a StoryDefinition; stored on the Story as `voices`.
+  // `narratorVoiceId` is the reader's pick, kept clear of the characters.
+  router.post("/cast", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const definition = (body as { definition?: StoryDefinition }).definition;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    const narratorVoiceId = (body as { narratorVoiceId?: unknown }).narratorVoiceId;
+    if (!definition || typeof definition !== "object") {
+      return res.status(400).json({ error: "Invalid payload. Expect { definition, configuration?, narratorVoiceId? }" });
+    }
+    if (narratorVoiceId !== undefined && (typeof narratorVoiceId !== "string" || !VOICE_ID.test(narratorVoiceId))) {
+      return res.status(400).json({ error: "Invalid narratorVoiceId." });
+    }
+    try {
+      // Without a provider the catalog is used, so a cast survives configuring one later
+      const speech = getProvider();
+      const voices = speech
+        ? {
+            roster: await speech.listVoices(),
+            narratorVoiceId: narratorVoiceId ?? speech.narratorVoiceId(definition.genre, resolveStoryLanguage(configuration)),
+          }
+        : narratorVoiceId
+          ? { narratorVoiceId }
+          : {};
+      return res.json(await generateVoiceCasting(definition, configuration, voices));
+    } catch (err) {
+      console.error("Error casting voices:", err);
+      return res.status(502).json({ error: "Failed to cast voices." });
+    }
+  });
+
+  // Read one page aloud as a single stitched stream, in each segment's voice
+  router.post("/page", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    if (!(body as { page?: unknown }).page) {
+      return res.status(400).json({ error: "Invalid page. Expect { page: { text, segments? }, voices, language? }" });
+    }
+    const speech = getProvider();
+    if (!speech) return sendNoProvider(res);
+    const plan = planNarration(body, speech);
+    if ("error" in plan) {
+      return res.status(plan.status).json({ error: plan.error });
+    }
+    return sendNarration(req, res, speech, plan);
+  });
+
+  return router;
+}
+
+/**
+ * Validates a narration request: `{ text, genre?, language?, voiceId? }` for the narrator
+ * alone (`voiceId` being the reader's pick over the genre's), or
+ * `{ page: { text, segments? }, voices, language? }` for a multi-voice page.
+ */
+function planNarration(body: unknown, speech: SpeechProvider): NarrationPlanResult {
+  const language = (body as { language?: unknown }).language;
+  const lang = typeof language === "string" && language.trim() ? language.trim() : undefined;
+  const page = (body as { page?: Pick<StoryPage, "text" | "segments"> }).page;
+
+  let runs: SpeechRun[];
+  if (page !== undefined) {
+    const voices = (body as { voices?: StoryVoices }).voices;
+    if (!page || typeof page.text !== "string" || (page.segments !== undefined && !Array.isArray(page.segments))) {
+      return { status: 400, error: "Invalid page. Expect { page: { text, segments? }, voices, language? }" };
+    }
+    if (!voices || typeof voices.narratorVoiceId !== "string" || !Array.isArray(voices.characters)) {
+      return { status: 400, error: "Invalid voices. Expect { narratorVoiceId, characters } from /api/speech/cast." };
+    }
+    const segments = (page.segments ?? []).filter(s => s && typeof s.text === "string");
+    runs = planPageSpeech({ text: page.text, segments }, voices);
+    if (runs.length === 0) {
+      return { status: 400, error: "Page has no text to read." };
+    }
+  } else {
+    const text = (body as { text?: unknown }).text;
+    const genre = (body as { genre?: unknown }).genre;
+    const voiceId = (body as { voiceId?: unknown }).voiceId;
+    if (typeof text !== "string" || text.trim().length === 0) {
+      return { status: 400, error: "Invalid payload. 'text' must be a non-empty string." };
+    }
+    const narrator =
+      typeof voiceId === "string" && voiceId.trim()
+        ? voiceId.trim()
+        : speech.narratorVoiceId(typeof genre === "string" ? genre : undefined, lang);
+    runs = [{ voiceId: narrator, text: text.trim() }];
+  }
+
+  if (runs.length > MAX_RUNS || runs.reduce((n, r) => n + r.text.length, 0) > MAX_PAGE_CHARS) {
+    return { status: 413, error: "Text is too long to narrate in one request." };
+  }
+  if (runs.some(r => !VOICE_ID.test(r.voiceId))) {
+    return { status: 400, error: "Invalid voice id in voices." };
+  }
+  const [first] = runs;
+  const key =
+    runs.length === 1 && first
+      ? getAudioCacheKey(first.text, first.voiceId, speech.modelId)
+      : getAudioCacheKey(runs.map(r => `${r.voiceId}: ${r.text}`).join("\n"), "multi-voice", speech.modelId);
+  const maxChars = Math.min(CHUNK_CHARS, speech.capabilities.maxChars);
+  const chunks = runs.flatMap((run, index) => {
+    const texts = chunkText(run.text, {
+      maxChars,
+      firstChunkChars: index === 0 ? FIRST_CHUNK_CHARS : maxChars,
+      locale: lang,
+    });
+    return texts.map((text, i) => ({ voiceId: run.voiceId, text, previousText: texts[i - 1], nextText: texts[i + 1] }));
+  });
+  return { key, chunks, language: lang };
+}
+
+/**
+ * Starts `task` for every item, item i once item i - limit has settled, and returns the
+ * promises in item order: a window of renders ahead of an in-order reader. Rejections
+ * are observed here so a reader stopping at the first failure leaves none unhandled.
+ */
+function startInOrder<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R>[] {
+  const jobs: Promise<R>[] = [];
+  for (const [index, item] of items.entries()) {
+    const previous = jobs[index - limit];
+    const slot = previous ? previous.then(() => undefined, () => undefined) : Promise.resolve();
+    const job = slot.then(() => task(item));
+    job.catch(() => undefined);
+    jobs.push(job);
+  }
+  return jobs;
+}
+
+// The whole file, or the single byte range asked for so <audio> can seek
+function sendAudio(req: Request, res: Response, audio: Buffer, key: string): Response {
+  res.setHeader("Content-Type", AUDIO_MIME_TYPES[detectAudioFormat(audio)]);
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", `"${key}"`);
+  res.setHeader("X-Audio-Key", key);
+  const range = parseByteRange(req.headers.range, audio.length);
+  if (range === "unsatisfiable") {
+    res.setHeader("Content-Range", `bytes */${audio.length}`);
+    return res.status(416).end();
+  }
+  if (range) {
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${audio.length}`);
+    res.setHeader("Content-Length", String(range.end - range.start + 1));
+    return res.status(206).end(audio.subarray(range.start, range.end + 1));
+  }
+  res.setHeader("Content-Length", String(audio.length));
+  return res.status(200).end(audio);
+}
+
+// `bytes=start-end`, `bytes=start-` or `bytes=-suffix`; anything else is served whole
+function parseByteRange(header: string | undefined, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start >= size || end < start) return "unsatisfiable";
+  return { start, end };
+}
@@ -0,0 +1,91 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import express from "express";
+import request from "supertest";
+import { createStoryRouter } from "./storyRoutes.js";
+import { createKeywordClassifier } from "../moderation/keywordClassifier.js";
+
+test("POST /define rejects a description above the rating with a typed 422", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/story", createStoryRouter({ moderation: createKeywordClassifier() }));
+
+  const response = await request(app)
+    .post("/api/story/define")
+    .send({
+      length: "small",
+      density: "medium",
+      audience: "children",
+      description: "A gory tale where the hero is disembowelled by a troll.",
+    })
+    .expect(422);
+
+  assert.equal(response.body.code, "content_rejected");
+  assert.equal(response.body.stage, "input");
+  assert.deepEqual(response.body.categories, ["gore"]);
+  assert.match(response.body.error, /G rating/);
+});
+
+test("POST /graph rejects a definition without endings before writing anything", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/story", createStoryRouter({ moderation: createKeywordClassifier() }));
+
+  const response = await request(app)
+    .post("/api/story/graph")
+    .send({ definition: { title: "The Drowned Bell", endingOptions: [] } })
+    .expect(400);
+
+  assert.match(response.body.error, /endingOptions/);
+});
+
+test("POST /state screens a typed action before extracting state", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/story", createStoryRouter({ moderation: createKeywordClassifier() }));
+
+  const response = await request(app)
+    .post("/api/story/state")
+    .send({
+      definition: { title: "The Drowned Bell" },
+      page: { id: "p1", text: "The troll blocks the bridge." },
+      chosenOption: { id: "typed", text: "I disembowel the troll.", action: { type: "freeText" } },
+      configuration: { audience: "children" },
+    })
+    .expect(422);
+
+  assert.equal(response.body.stage, "input");
+  assert.deepEqual(response.body.categories, ["gore"]);
+});
+
+test("POST /translate refuses a malformed story with 400", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/story", createStoryRouter({ moderation: null }));
+
+  const response = await request(app)
+    .post("/api/story/translate")
+    .send({
+      story: { configuration: { language: "en" }, structure: { frontCover: { title: "The Drowned Bell" }, pages: [{ id: "p1", text: null, options: "none" }] } },
+      language: "fr",
+    })
+    .expect(400);
+
+  assert.match(response.body.error, /structure\.pages\.0\.options/);
+});
+
+test("POST /state answers 502 when the classifier fails", async () => {
+  const app = express();
+  app.use(express.json());
+  const failing = { name: "failing", classify: async () => Promise.reject(new Error("classifier down")) };
+  app.use("/api/story", createStoryRouter({ moderation: failing }));
+
+  await request(app)
+    .post("/api/story/state")
+    .send({
+      definition: { title: "The Drowned Bell" },
+      page: { id: "p1", text: "The troll blocks the bridge." },
+      chosenOption: { id: "typed", text: "I wave at the troll.", action: { type: "freeText" } },
+    })
+    .expect(502);
+});
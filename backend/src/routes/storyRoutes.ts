@@ -1,14 +1,85 @@
+import { randomUUID } from "node:crypto";
 import express, { type Request, type Response, type Router } from "express";
 import { generateStoryDefinitionFromConfiguration } from "../generators/promptGenerator.js";
-import { generateNextStoryPage } from "../generators/storylineGenerator.js";
-import { type StoryConfiguration, type StoryDefinition, type OptionObject, type StoryPage } from "../types/frontend.js";
+import { generateNextStoryPage, type StoryStepContext } from "../generators/storylineGenerator.js";
+import { generateStoryGraph } from "../generators/graphGenerator.js";
+import { generateStoryOutline, normalizeStoryOutline } from "../generators/outlineGenerator.js";
+import { resolveNarrativeStructure } from "../generators/narrativeStructures.js";
+import { pickAudienceFields, resolveAudienceSettings } from "../generators/configurationGuidance.js";
+import { pickStoryLanguage, resolveStoryLanguage } from "../generators/languageGuidance.js";
+import { checkTranslatableStory, translateStory } from "../generators/translationGenerator.js";
+import { normalizeCast } from "../generators/castConfiguration.js";
+import { buildDefinitionLoreQuery, buildStepLoreQuery, retrieveLore } from "../generators/loreGuidance.js";
+import { getDefaultLoreStore, type LoreStore } from "../lore/loreStore.js";
+import { normalizeStoryMemory, normalizeStoryPath, updateStoryMemory } from "../generators/storyMemory.js";
+import { extractStoryState, normalizeStoryState } from "../generators/stateTracker.js";
+import { isFreeTextOption, sanitizePlayerAction, sanitizeReaderGuidance } from "../generators/playerInput.js";
+import { type Story, type StorySeries, type StoryConfiguration, type StoryDefinition, type OptionObject, type StoryPage } from "../types/frontend.js";
 import { generateImageFromPrompt } from "../agents/imageAgent.js";
 import { getCachedImage, setCachedImage } from "../utils/imageCache.js";
-import { generateBackCoverSummary } from "../generators/summaryGenerator.js";
+import { generateBackCoverSummary, generateSeriesRecap } from "../generators/summaryGenerator.js";
+import { buildSequelLoreQuery, buildSequelSeed, buildSeriesLink, generateSequelDefinition } from "../generators/sequelGenerator.js";
+import {
+  buildContentRejectedBody,
+  createModerationClassifier,
+  forStoryLanguage,
+  produceModerated,
+  screenInput,
+  type ModerationClassifier,
+} from "../moderation/contentModeration.js";
 
-export function createStoryRouter(): Router {
+export interface StoryRouterDeps {
+  // Omitted: chosen from MODERATION_PROVIDER on first use; null disables moderation
+  moderation?: ModerationClassifier | null;
+  // Omitted: the shared store behind /api/lore
+  lore?: LoreStore;
+}
+
+const MAX_LORE_DOCUMENTS = 10;
+
+export function createStoryRouter(deps: StoryRouterDeps = {}): Router {
   const router: Router = express.Router();
 
+  // Resolved lazily: the default router is built at import time, before .env is loaded
+  let moderation: ModerationClassifier | null | undefined = deps.moderation;
+  function getModeration(configuration?: Partial<StoryConfiguration> | null): ModerationClassifier | null {
+    if (moderation === undefined) moderation = createModerationClassifier();
+    return forStoryLanguage(moderation, resolveStoryLanguage(configuration));
+  }
+  function getLore(): LoreStore {
+    return deps.lore ?? getDefaultLoreStore();
+  }
+
+  function pageText(page: StoryPage): string {
+    // Segments are screened too: they are what the reader sees and hears on dialogue pages
+    return [page.text, ...(page.segments ?? []).map(s => s.text), ...optionTexts(page.options ?? [])].join("\n");
+  }
+
+  // Everything a reader of a whole Story sees: the definition, the covers and every page it holds
+  function storyText(story: Story): string {
+    const pages = [
+      ...(story.structure?.pages ?? []),
+      ...(story.structure?.graph?.nodes ?? []),
+      ...Object.values(story.tree?.offPathPages ?? {}),
+    ];
+    const { frontCover, backCover } = story.structure ?? {};
+    return [
+      story.definition ? JSON.stringify(story.definition) : "",
+      frontCover?.title ?? "",
+      frontCover?.tagline ?? "",
+      backCover?.summary ?? "",
+      ...Object.values(story.tree?.nodes ?? {}).map(n => n.chosenOptionText ?? ""),
+      ...pages.map(pageText),
+    ].join("\n");
+  }
+
+  // Branch options open a submenu with its own prompt and choices, all shown to the reader
+  function optionTexts(options: OptionObject[]): string[] {
+    return options.flatMap(o =>
+      o.action?.type === "branch" ? [o.text, o.action.text, ...optionTexts(o.action.options ?? [])] : [o.text],
+    );
+  }
+
   function resolvePagePolicy(length: StoryConfiguration["length"] | undefined): { minPages: number; maxPages: number } {
     switch (length) {
       case "small":
@@ -24,35 +95,105 @@ export function createStoryRouter(): Router {
   // Generate a StoryDefinition document from StoryConfiguration
   router.post("/define", async (req: Request, res: Response) => {
     const body = req.body ?? {};
-    const { length, density, description } = body as Partial<StoryConfiguration>;
+    const { length, density, description, narrativeStructure } = body as Partial<StoryConfiguration>;
 
     if (!length || !density || typeof description !== "string") {
       return res.status(400).json({
-        error: "Invalid StoryConfiguration. Expect { length, density, description }.",
+        error: "Invalid StoryConfiguration. Expect { length, density, description, narrativeStructure?, audience?, contentRating?, readingLevel?, pov?, tense?, language?, cast?, loreIds? }.",
       });
     }
+    const cast = normalizeCast((body as { cast?: unknown }).cast);
+    if (!cast.ok) {
+      return res.status(400).json({ error: cast.error });
+    }
+    const loreIds = (body as { loreIds?: unknown }).loreIds ?? [];
+    if (!Array.isArray(loreIds) || loreIds.length > MAX_LORE_DOCUMENTS || loreIds.some(id => typeof id !== "string")) {
+      return res.status(400).json({ error: `loreIds must be an array of at most ${MAX_LORE_DOCUMENTS} lore document ids.` });
+    }
 
     try {
       const configuration: StoryConfiguration = {
         length,
         density,
         description,
+        narrativeStructure: resolveNarrativeStructure(narrativeStructure).id,
+        ...pickAudienceFields(body),
+        language: resolveStoryLanguage(body as Partial<StoryConfiguration>),
+        ...(cast.cast.length > 0 ? { cast: cast.cast } : {}),
+        ...(loreIds.length > 0 ? { loreIds: [...new Set(loreIds as string[])] } : {}),
       } as StoryConfiguration;
+      for (const id of configuration.loreIds ?? []) {
+        if (!(await getLore().get(id))) {
+          return res.status(400).json({ error: `Unknown lore document: ${id}` });
+        }
+      }
+      const { contentRating } = resolveAudienceSettings(configuration);
 
-      const definition = await generateStoryDefinitionFromConfiguration(configuration);
-      return res.json(definition);
+      const castText = cast.cast.map(m => [m.name, m.role, m.description, m.motivation].filter(Boolean).join(": "));
+      const screened = await screenInput(getModeration(configuration), [description, ...castText].join("\n"), contentRating);
+      if (!screened.allowed) {
+        return res.status(422).json(buildContentRejectedBody("input", screened, contentRating));
+      }
+      const lore = await retrieveLore(getLore(), configuration.loreIds, buildDefinitionLoreQuery(configuration));
+      const result = await produceModerated(
+        getModeration(configuration),
+        contentRating,
+        () => generateStoryDefinitionFromConfiguration(configuration, lore),
+        definition => JSON.stringify(definition),
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
     } catch (err) {
       console.error("Error generating StoryDefinition:", err);
       return res.status(502).json({ error: "Failed to generate StoryDefinition." });
     }
   });
 
-  // Generate the next StoryPage guided by StoryDefinition and an optional previous OptionObject
-  router.post("/step", async (req: Request, res: Response) => {
+  // Plan a per-page beat sheet for a StoryDefinition (stepwise mode); sent back with each /step
+  router.post("/outline", async (req: Request, res: Response) => {
     const body = req.body ?? {};
     const definition = (body as { definition?: StoryDefinition }).definition;
-    const previousOption = (body as { previousOption?: OptionObject }).previousOption;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    if (!definition || typeof definition !== "object") {
+      return res.status(400).json({ error: "Invalid payload. Expect { definition, configuration? }" });
+    }
+    try {
+      const { contentRating } = resolveAudienceSettings(configuration);
+      const result = await produceModerated(
+        getModeration(configuration),
+        contentRating,
+        () => generateStoryOutline(definition, configuration, resolvePagePolicy(configuration?.length)),
+        outline => JSON.stringify(outline),
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
+    } catch (err) {
+      console.error("Error generating StoryOutline:", err);
+      return res.status(502).json({ error: "Failed to generate StoryOutline." });
+    }
+  });
+
+  interface StepRequest {
+    definition: StoryDefinition;
+    stepIndex: number;
+    previousOption: OptionObject | undefined;
+    configuration: StoryConfiguration | undefined;
+    context: StoryStepContext;
+  }
+
+  // Shared payload parsing for /step and /regenerate. Returns an error message for a 400.
+  function parseStepRequest(body: object): StepRequest | { error: string } {
+    const definition = (body as { definition?: StoryDefinition }).definition;
+    let previousOption = (body as { previousOption?: OptionObject }).previousOption;
     const configuration = (body as { configuration?: StoryConfiguration }).configuration;
+    const pathRaw = (body as { path?: unknown }).path;
+    const memoryRaw = (body as { memory?: unknown }).memory;
+    const stateRaw = (body as { state?: unknown }).state;
+    const outlineRaw = (body as { outline?: unknown }).outline;
     let stepIndexRaw = (body as { stepIndex?: unknown; pageNumber?: unknown }).stepIndex;
     const pageNumberRaw = (body as { stepIndex?: unknown; pageNumber?: unknown }).pageNumber;
     if (stepIndexRaw === undefined && pageNumberRaw !== undefined) {
@@ -60,9 +201,13 @@ export function createStoryRouter(): Router {
     }
 
     if (!definition || typeof definition !== "object") {
-      return res.status(400).json({
-        error: "Invalid payload. Expect { definition, stepIndex?, previousOption? } where definition is a StoryDefinition.",
-      });
+      return {
+        error: "Invalid payload. Expect { definition, stepIndex?, previousOption?, path? } where definition is a StoryDefinition.",
+      };
+    }
+
+    if (pathRaw !== undefined && !Array.isArray(pathRaw)) {
+      return { error: "Invalid path. Must be an array of { pageId, text, chosenOption? } entries." };
     }
 
     // Light validation on previousOption shape if provided
@@ -73,39 +218,318 @@ export function createStoryRouter(): Router {
         previousOption.action &&
         typeof (previousOption.action as { type?: unknown }).type === "string";
       if (!ok) {
-        return res.status(400).json({
-          error: "Invalid previousOption. Must match OptionObject shape.",
-        });
+        return { error: "Invalid previousOption. Must match OptionObject shape." };
+      }
+      // Typed player actions are untrusted: clean them before they reach the prompt
+      if (isFreeTextOption(previousOption)) {
+        const checked = sanitizePlayerAction(previousOption.text);
+        if (!checked.ok) {
+          return { error: checked.error };
+        }
+        previousOption = { id: previousOption.id, text: checked.text, action: { type: "freeText" } };
       }
     }
 
+    let stepIndex = 0;
+    if (typeof stepIndexRaw === "number" && Number.isInteger(stepIndexRaw) && stepIndexRaw >= 0) {
+      stepIndex = stepIndexRaw;
+    } else if (typeof stepIndexRaw === "string" && stepIndexRaw.trim().length > 0) {
+      const n = Number.parseInt(stepIndexRaw, 10);
+      if (Number.isInteger(n) && n >= 0) stepIndex = n;
+    }
+    // Enforce configured max pages to avoid stepping past the end
+    const policy = resolvePagePolicy(configuration?.length);
+    if (stepIndex >= policy.maxPages) {
+      stepIndex = policy.maxPages - 1;
+    }
+
+    return {
+      definition,
+      stepIndex,
+      previousOption,
+      configuration,
+      context: {
+        path: normalizeStoryPath(pathRaw),
+        memory: normalizeStoryMemory(memoryRaw),
+        state: stateRaw && typeof stateRaw === "object" ? normalizeStoryState(stateRaw) : null,
+        outline: outlineRaw && typeof outlineRaw === "object" ? normalizeStoryOutline(outlineRaw, policy.maxPages) : null,
+      },
+    };
+  }
+
+  // Screens the reader-written parts of a step (typed action, reroll guidance), then
+  // generates the page, regenerating once if it exceeds the rating
+  async function generateModeratedPage(
+    res: Response,
+    parsed: StepRequest,
+    context: StoryStepContext,
+    readerText: string,
+  ): Promise<Response> {
+    const { contentRating } = resolveAudienceSettings(parsed.configuration);
+    const screened = await screenInput(getModeration(parsed.configuration), readerText, contentRating);
+    if (!screened.allowed) {
+      return res.status(422).json(buildContentRejectedBody("input", screened, contentRating));
+    }
+    const lore = await retrieveLore(
+      getLore(),
+      parsed.configuration?.loreIds,
+      buildStepLoreQuery(parsed.definition, parsed.previousOption, context),
+    );
+    const result = await produceModerated(
+      getModeration(parsed.configuration),
+      contentRating,
+      () => generateNextStoryPage(parsed.definition, parsed.stepIndex, parsed.previousOption, parsed.configuration, { ...context, lore }),
+      pageText,
+    );
+    if (!result.ok) {
+      return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+    }
+    return res.json(result.value);
+  }
+
+  function typedActionText(option: OptionObject | undefined): string {
+    return option && isFreeTextOption(option) ? option.text : "";
+  }
+
+  // Generate the next StoryPage guided by StoryDefinition, an optional previous OptionObject
+  // and the ordered path of pages/choices read so far
+  router.post("/step", async (req: Request, res: Response) => {
+    const parsed = parseStepRequest(req.body ?? {});
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
     try {
-      let stepIndex = 0;
-      if (typeof stepIndexRaw === "number" && Number.isInteger(stepIndexRaw) && stepIndexRaw >= 0) {
-        stepIndex = stepIndexRaw;
-      } else if (typeof stepIndexRaw === "string" && stepIndexRaw.trim().length > 0) {
-        const n = Number.parseInt(stepIndexRaw, 10);
-        if (Number.isInteger(n) && n >= 0) stepIndex = n;
-      }
-      // Enforce configured max pages to avoid stepping past the end
-      const policy = resolvePagePolicy(configuration?.length);
-      if (stepIndex >= policy.maxPages) {
-        stepIndex = policy.maxPages - 1;
-      }
-
-      const page = await generateNextStoryPage(
-        definition as StoryDefinition,
-        stepIndex,
-        previousOption as OptionObject | undefined,
-        configuration as StoryConfiguration | undefined,
-      );
-      return res.json(page);
+      return await generateModeratedPage(res, parsed, parsed.context, typedActionText(parsed.previousOption));
     } catch (err) {
       console.error("Error generating StoryPage:", err);
       return res.status(502).json({ error: "Failed to generate StoryPage." });
     }
   });
 
+  // Replace a page the reader rejected: same inputs as /step plus { rejectedPage, guidance? }
+  router.post("/regenerate", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const parsed = parseStepRequest(body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const rejectedPage = (body as { rejectedPage?: StoryPage }).rejectedPage;
+    if (!rejectedPage || typeof rejectedPage.text !== "string" || !Array.isArray(rejectedPage.options)) {
+      return res.status(400).json({ error: "Invalid rejectedPage. Must match StoryPage shape." });
+    }
+    const guidance = sanitizeReaderGuidance((body as { guidance?: unknown }).guidance);
+    if (!guidance.ok) {
+      return res.status(400).json({ error: guidance.error });
+    }
+    try {
+      const context: StoryStepContext = {
+        ...parsed.context,
+        rejectedPage: {
+          text: rejectedPage.text,
+          options: rejectedPage.options.filter(o => typeof o?.text === "string"),
+        },
+        guidance: guidance.text,
+      };
+      const readerText = [typedActionText(parsed.previousOption), guidance.text].join("\n");
+      return await generateModeratedPage(res, parsed, context, readerText);
+    } catch (err) {
+      console.error("Error regenerating StoryPage:", err);
+      return res.status(502).json({ error: "Failed to regenerate StoryPage." });
+    }
+  });
+
+  // Generate the whole bounded choice graph up front (graph mode)
+  router.post("/graph", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const definition = (body as { definition?: StoryDefinition }).definition;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    // Every leaf of the graph must land on one of the endings, so there is nothing to write without them
+    if (!definition || typeof definition !== "object" || !Array.isArray(definition.endingOptions) || definition.endingOptions.length === 0) {
+      return res.status(400).json({ error: "Invalid payload. Expect { definition, configuration? } with at least one definition.endingOptions entry." });
+    }
+    try {
+      const { contentRating } = resolveAudienceSettings(configuration);
+      const result = await produceModerated(
+        getModeration(configuration),
+        contentRating,
+        () => generateStoryGraph(definition, configuration),
+        graph => graph.nodes.map(pageText).join("\n"),
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
+    } catch (err) {
+      console.error("Error generating StoryGraph:", err);
+      return res.status(502).json({ error: "Failed to generate StoryGraph." });
+    }
+  });
+
+  // Update the world state from the page just read and the option chosen on it
+  router.post("/state", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const definition = (body as { definition?: StoryDefinition }).definition;
+    const page = (body as { page?: StoryPage }).page;
+    let chosenOption = (body as { chosenOption?: OptionObject }).chosenOption ?? null;
+    const stateRaw = (body as { state?: unknown }).state;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    if (!definition || typeof definition !== "object" || !page || typeof page.text !== "string") {
+      return res.status(400).json({ error: "Invalid payload. Expect { definition, page, chosenOption?, state?, configuration? }" });
+    }
+    if (chosenOption && (typeof chosenOption.id !== "string" || typeof chosenOption.text !== "string")) {
+      return res.status(400).json({ error: "Invalid chosenOption. Must match OptionObject shape." });
+    }
+    if (chosenOption && isFreeTextOption(chosenOption)) {
+      const checked = sanitizePlayerAction(chosenOption.text);
+      if (!checked.ok) {
+        return res.status(400).json({ error: checked.error });
+      }
+      chosenOption = { id: chosenOption.id, text: checked.text, action: { type: "freeText" } };
+    }
+    try {
+      // The typed action reaches the model here as well as in /step, so it is screened the same way
+      const { contentRating } = resolveAudienceSettings(configuration);
+      const screened = await screenInput(getModeration(configuration), typedActionText(chosenOption ?? undefined), contentRating);
+      if (!screened.allowed) {
+        return res.status(422).json(buildContentRejectedBody("input", screened, contentRating));
+      }
+      const previous = stateRaw && typeof stateRaw === "object" ? normalizeStoryState(stateRaw) : null;
+      const state = await extractStoryState(previous, page, chosenOption, definition);
+      return res.json(state);
+    } catch (err) {
+      console.error("Error extracting story state:", err);
+      return res.status(502).json({ error: "Failed to update story state." });
+    }
+  });
+
+  // Fold pages that left the verbatim window into the rolling story memory
+  router.post("/memory", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const definition = (body as { definition?: StoryDefinition }).definition;
+    const pathRaw = (body as { path?: unknown }).path;
+    const memoryRaw = (body as { memory?: unknown }).memory;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    if (!definition || typeof definition !== "object" || !Array.isArray(pathRaw)) {
+      return res.status(400).json({ error: "Invalid payload. Expect { definition, path, memory?, configuration? }" });
+    }
+    try {
+      const memory = await updateStoryMemory(
+        normalizeStoryMemory(memoryRaw),
+        normalizeStoryPath(pathRaw),
+        definition,
+        configuration,
+      );
+      return res.json(memory);
+    } catch (err) {
+      console.error("Error updating story memory:", err);
+      return res.status(502).json({ error: "Failed to update story memory." });
+    }
+  });
+
+  // Translate a whole Story into another language, keeping ids and structure
+  router.post("/translate", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const story = (body as { story?: Story }).story;
+    const language = pickStoryLanguage((body as { language?: unknown }).language);
+    if (!story || typeof story !== "object" || !story.configuration || typeof story.configuration !== "object") {
+      return res.status(400).json({ error: "Invalid payload. Expect { story, language } where story is a Story." });
+    }
+    if (!language) {
+      return res.status(400).json({ error: "Invalid language. Expect one of en, es, fr, de, it, pt." });
+    }
+    if (resolveStoryLanguage(story.configuration) === language) {
+      return res.status(400).json({ error: `Story is already in ${language}.` });
+    }
+    const checked = checkTranslatableStory(story);
+    if (!checked.ok) {
+      return res.status(400).json({ error: checked.error });
+    }
+    try {
+      // Judged in the target language, so a keyword classifier hands over to the model
+      const { contentRating } = resolveAudienceSettings(story.configuration);
+      const result = await produceModerated(
+        getModeration({ ...story.configuration, language }),
+        contentRating,
+        () => translateStory(story, language),
+        storyText,
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
+    } catch (err) {
+      console.error("Error translating Story:", err);
+      return res.status(502).json({ error: "Failed to translate Story." });
+    }
+  });
+
+  // Start the next part of a saga from a finished Story: a new definition continuing from
+  // the ending reached, plus the series links for both records
+  router.post("/sequel", async (req: Request, res: Response) => {
+    const story = (req.body as { story?: Story } | undefined)?.story;
+    if (!story || typeof story !== "object" || !story.configuration || typeof story.configuration !== "object") {
+      return res.status(400).json({ error: "Invalid payload. Expect { story } where story is a finished Story." });
+    }
+    const cast = normalizeCast(story.configuration.cast);
+    if (!cast.ok) {
+      return res.status(400).json({ error: cast.error });
+    }
+    try {
+      const seed = buildSequelSeed(story);
+      if (!seed) {
+        return res.status(400).json({ error: "Story has no definition or pages to continue from." });
+      }
+      const { contentRating } = resolveAudienceSettings(story.configuration);
+      const lore = await retrieveLore(getLore(), story.configuration.loreIds, buildSequelLoreQuery(seed));
+      const result = await produceModerated(
+        getModeration(story.configuration),
+        contentRating,
+        () => generateSequelDefinition(seed, story, cast.cast, lore),
+        sequel => JSON.stringify(sequel),
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      const storyId = randomUUID();
+      const links = buildSeriesLink(story, result.value.previously, storyId);
+      return res.json({ storyId, definition: result.value.definition, ...links });
+    } catch (err) {
+      console.error("Error generating sequel:", err);
+      return res.status(502).json({ error: "Failed to generate sequel." });
+    }
+  });
+
+  // "Previously…" recap for a later part of a series
+  router.post("/recap", async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const series = (body as { series?: StorySeries }).series;
+    const definition = (body as { definition?: StoryDefinition }).definition ?? null;
+    const configuration = (body as { configuration?: StoryConfiguration }).configuration ?? null;
+    const validPrevious =
+      Array.isArray(series?.previous) &&
+      series.previous.length > 0 &&
+      series.previous.every(e => typeof e?.title === "string" && typeof e?.summary === "string");
+    if (!series || !validPrevious) {
+      return res.status(400).json({ error: "Invalid payload. Expect { series, definition?, configuration? } with at least one earlier part in series.previous." });
+    }
+    try {
+      const { contentRating } = resolveAudienceSettings(configuration);
+      const result = await produceModerated(
+        getModeration(configuration),
+        contentRating,
+        () => generateSeriesRecap(series, definition, configuration),
+        recap => recap.recap,
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
+    } catch (err) {
+      console.error("Error generating series recap:", err);
+      return res.status(502).json({ error: "Failed to generate series recap." });
+    }
+  });
+
   // Generate a back cover summary from definition (+ optional pages)
   router.post("/summary", async (req: Request, res: Response) => {
     const body = req.body ?? {};
@@ -116,8 +540,17 @@ export function createStoryRouter(): Router {
       return res.status(400).json({ error: "Invalid payload. Expect { definition, pages?, configuration? }" });
     }
     try {
-      const result = await generateBackCoverSummary(definition, Array.isArray(pages) ? pages : [], configuration);
-      return res.json(result);
+      const { contentRating } = resolveAudienceSettings(configuration);
+      const result = await produceModerated(
+        getModeration(configuration),
+        contentRating,
+        () => generateBackCoverSummary(definition, Array.isArray(pages) ? pages : [], configuration),
+        summary => summary.summary,
+      );
+      if (!result.ok) {
+        return res.status(422).json(buildContentRejectedBody("output", result.verdict, contentRating));
+      }
+      return res.json(result.value);
     } catch (err) {
       console.error("Error generating back cover summary:", err);
       return res.status(502).json({ error: "Failed to generate back cover summary." });
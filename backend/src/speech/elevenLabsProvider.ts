@@ -0,0 +1,32 @@
+import { generateSpeech, generateSpeechWithTimestamps, getVoiceId, SPEECH_MODEL_ID, type Env } from "../agents/speechAgents.js";
+import { getVoiceCatalog } from "../agents/voiceRoster.js";
+import type { SpeechProvider } from "./speechProvider.js";
+
+/**
+ * ElevenLabs through the Cloudflare AI Gateway: MP3 with character timestamps, the
+ * voice catalog, and narrators by genre (or ELEVENLABS_VOICE_<LANG>).
+ */
+export function createElevenLabsSpeechProvider(env: Env): SpeechProvider {
+  return {
+    name: "elevenlabs",
+    modelId: SPEECH_MODEL_ID,
+    // eleven_multilingual_v2 reads up to 10,000 characters per request
+    capabilities: { format: "mp3", timestamps: true, maxChars: 10_000 },
+
+    async synthesize({ text, voiceId, language, timestamps, previousText, nextText }) {
+      const context = { previousText, nextText };
+      if (timestamps) return generateSpeechWithTimestamps(text, env, undefined, language, voiceId, context);
+      const response = await generateSpeech(text, env, undefined, language, voiceId, context);
+      if (!response.ok) return { ok: false, status: response.status, error: await response.text() };
+      return { ok: true, audio: Buffer.from(await response.arrayBuffer()) };
+    },
+
+    async listVoices() {
+      return getVoiceCatalog().voices;
+    },
+
+    narratorVoiceId(genre, language) {
+      return getVoiceId(genre, language);
+    },
+  };
+}
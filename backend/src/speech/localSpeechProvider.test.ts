@@ -0,0 +1,77 @@
+import { strict as assert } from "node:assert";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+import { createLocalSpeechProvider } from "./localSpeechProvider.js";
+
+// Stand-ins for espeak-ng: small node scripts run as the provider's `command`
+const dir = mkdtempSync(path.join(tmpdir(), "local-speech-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function stub(name: string, body: string): string {
+  const file = path.join(dir, name);
+  writeFileSync(file, `#!/usr/bin/env node\n${body}\n`);
+  chmodSync(file, 0o755);
+  return file;
+}
+
+// Echoes stdin back as the samples of a WAV whose header carries streaming placeholders,
+// and fails unless the voice arrives as `-v <voice>`
+const echo = stub(
+  "espeak-echo",
+  `const args = process.argv.slice(2);
+if (args[args.indexOf("-v") + 1] !== "en-us+f2") { process.stderr.write("unknown voice"); process.exit(1); }
+const chunks = [];
+process.stdin.on("data", c => chunks.push(c));
+process.stdin.on("end", () => {
+  const data = Buffer.concat(chunks);
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(0xffffffff, 4);
+  header.write("WAVEfmt ", 8, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(22050, 24);
+  header.writeUInt32LE(44100, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(0xffffffff, 40);
+  process.stdout.write(Buffer.concat([header, data]));
+});`,
+);
+
+test("espeak-ng output is read from stdout and its WAV header rewritten", async () => {
+  const speech = createLocalSpeechProvider({ command: echo });
+  const result = await speech.synthesize({ text: "The tide turned.", voiceId: "en-us+f2" });
+  assert.ok(result.ok);
+  assert.equal(result.audio.readUInt32LE(4), 36 + 16);
+  assert.equal(result.audio.readUInt32LE(24), 22050);
+  assert.equal(result.audio.readUInt32LE(40), 16);
+  assert.equal(result.audio.subarray(44).toString(), "The tide turned.");
+});
+
+test("a failing or silent engine is reported, not thrown", async () => {
+  const failed = await createLocalSpeechProvider({ command: echo }).synthesize({ text: "Hello.", voiceId: "xx" });
+  assert.equal(failed.ok, false);
+  assert.equal(!failed.ok && failed.status, 500);
+  assert.match(!failed.ok ? failed.error : "", /unknown voice/);
+
+  const silent = stub("espeak-silent", "process.stdin.resume(); process.stdin.on('end', () => process.exit(0));");
+  const empty = await createLocalSpeechProvider({ command: silent }).synthesize({ text: "Hello.", voiceId: "en-gb" });
+  assert.equal(!empty.ok && empty.status, 502);
+
+  const missing = await createLocalSpeechProvider({ command: path.join(dir, "no-such-engine") }).synthesize({ text: "Hello.", voiceId: "en-gb" });
+  assert.equal(missing.ok, false);
+});
+
+test("an engine that hangs is killed after the timeout", async () => {
+  const hang = stub("espeak-hang", "setTimeout(() => {}, 60_000);");
+  const started = Date.now();
+  const result = await createLocalSpeechProvider({ command: hang, timeoutMs: 300 }).synthesize({ text: "Hello.", voiceId: "en-gb" });
+  assert.equal(result.ok, false);
+  assert.match(!result.ok ? result.error : "", /SIGKILL/);
+  assert.ok(Date.now() - started < 10_000);
+});
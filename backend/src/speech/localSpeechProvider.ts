@@ -0,0 +1,135 @@
+import { spawn } from "node:child_process";
+import type { VoiceProfile } from "../agents/voiceRoster.js";
+import { encodeWav, parseWav } from "../utils/audioFormat.js";
+import type { SpeechProvider, SpeechResult } from "./speechProvider.js";
+
+export type LocalSpeechEngine = "espeak-ng" | "tone";
+
+export interface LocalSpeechOptions {
+  // "espeak-ng" (default) speaks; "tone" beeps once per character, for tests and demos
+  engine?: LocalSpeechEngine;
+  // espeak-ng binary; defaults to the one on PATH
+  command?: string | undefined;
+  timeoutMs?: number;
+}
+
+// espeak-ng voices with variants (+f2, +m7) standing in for gender and age; approximate
+const ESPEAK_VOICES: VoiceProfile[] = [
+  { id: "en-gb", name: "Alan", gender: "male", age: "middle-aged", accent: "british", style: "plain" },
+  { id: "en-us", name: "Sam", gender: "male", age: "middle-aged", accent: "american", style: "plain" },
+  { id: "en-gb-scotland", name: "Angus", gender: "male", age: "middle-aged", accent: "scottish", style: "plain" },
+  { id: "en-us+m7", name: "Walter", gender: "male", age: "old", accent: "american", style: "low" },
+  { id: "en-gb+f3", name: "Helen", gender: "female", age: "middle-aged", accent: "british", style: "plain" },
+  { id: "en-us+f2", name: "Kate", gender: "female", age: "young", accent: "american", style: "bright" },
+  { id: "en-us+f4", name: "Edith", gender: "female", age: "old", accent: "american", style: "soft" },
+];
+
+// Tone "voices" differ by pitch so multi-voice pages stay distinguishable
+const TONE_VOICES: Array<VoiceProfile & { hz: number }> = [
+  { id: "tone-low", name: "Low", gender: "male", age: "old", accent: "none", style: "tone", hz: 110 },
+  { id: "tone-mid", name: "Mid", gender: "male", age: "middle-aged", accent: "none", style: "tone", hz: 165 },
+  { id: "tone-high", name: "High", gender: "female", age: "middle-aged", accent: "none", style: "tone", hz: 247 },
+  { id: "tone-bright", name: "Bright", gender: "female", age: "young", accent: "none", style: "tone", hz: 330 },
+];
+
+const TONE_SAMPLE_RATE = 16_000;
+const TONE_SECONDS_PER_CHAR = 0.06;
+const ESPEAK_WORDS_PER_MINUTE = "160";
+// No engine limit; keeps one run of espeak-ng well inside the timeout
+const LOCAL_MAX_CHARS = 4000;
+
+/**
+ * Offline speech for development and tests: no tokens, WAV output. espeak-ng reads
+ * the text (timings are estimated by the caller); the tone engine needs nothing
+ * installed and reports exact timings.
+ */
+export function createLocalSpeechProvider(options: LocalSpeechOptions = {}): SpeechProvider {
+  const engine = options.engine ?? "espeak-ng";
+  const command = options.command ?? "espeak-ng";
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const voices: VoiceProfile[] = engine === "tone" ? TONE_VOICES.map(({ hz: _hz, ...voice }) => voice) : ESPEAK_VOICES;
+
+  return {
+    name: "local",
+    modelId: engine,
+    capabilities: { format: "wav", timestamps: engine === "tone", maxChars: LOCAL_MAX_CHARS },
+
+    async synthesize({ text, voiceId, timestamps }): Promise<SpeechResult> {
+      if (engine === "tone") return synthesizeTone(text, voiceId, timestamps === true);
+      try {
+        const output = await runCommand(command, ["--stdout", "--stdin", "-v", voiceId, "-s", ESPEAK_WORDS_PER_MINUTE], text, timeoutMs);
+        const wav = parseWav(output);
+        if (!wav || wav.data.length === 0) return { ok: false, status: 502, error: `${command} produced no audio.` };
+        // Rewritten so the header carries real sizes (espeak-ng streams placeholders to stdout)
+        return { ok: true, audio: encodeWav(wav.data, wav.sampleRate, wav.channels, wav.bitsPerSample) };
+      } catch (err) {
+        console.error("[localSpeech] synthesis failed", { command, voiceId, err: err instanceof Error ? err.message : err });
+        return { ok: false, status: 500, error: `Local speech engine failed: ${err instanceof Error ? err.message : String(err)}` };
+      }
+    },
+
+    async listVoices() {
+      return voices;
+    },
+
+    narratorVoiceId(_genre, language) {
+      if (engine === "tone") return "tone-mid";
+      // espeak-ng names its voices by language code
+      const code = language?.trim().toLowerCase();
+      return code && code !== "en" && /^[a-z]{2}$/.test(code) ? code : "en-gb";
+    },
+  };
+}
+
+// One sine beep per character (silence for spaces), so timings are known exactly
+function synthesizeTone(text: string, voiceId: string, timestamps: boolean): SpeechResult {
+  const hz = TONE_VOICES.find(v => v.id === voiceId)?.hz ?? 165;
+  const characters = [...text];
+  const perChar = Math.round(TONE_SAMPLE_RATE * TONE_SECONDS_PER_CHAR);
+  const samples = new Int16Array(characters.length * perChar);
+  characters.forEach((char, i) => {
+    if (/\s/.test(char)) return;
+    for (let n = 0; n < perChar; n += 1) {
+      // Short fades at both ends keep the beeps from clicking
+      const fade = Math.min(1, n / 80, (perChar - n) / 80);
+      samples[i * perChar + n] = Math.round(Math.sin((2 * Math.PI * hz * n) / TONE_SAMPLE_RATE) * 6000 * fade);
+    }
+  });
+  const audio = encodeWav(Buffer.from(samples.buffer), TONE_SAMPLE_RATE);
+  if (!timestamps) return { ok: true, audio };
+  const seconds = (i: number) => Math.round(i * perChar * 1000 / TONE_SAMPLE_RATE) / 1000;
+  return {
+    ok: true,
+    audio,
+    alignment: {
+      characters,
+      character_start_times_seconds: characters.map((_, i) => seconds(i)),
+      character_end_times_seconds: characters.map((_, i) => seconds(i + 1)),
+    },
+  };
+}
+
+// Text on stdin, audio from stdout; killed after `timeoutMs`
+function runCommand(command: string, args: string[], input: string, timeoutMs: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), timeoutMs);
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", err => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`${command} exited with ${signal ?? code}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+    });
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,71 @@
+import type { SpeechAlignment } from "../agents/speechAgents.js";
+import type { VoiceProfile } from "../agents/voiceRoster.js";
+import type { AudioFormat } from "../utils/audioFormat.js";
+import { createElevenLabsSpeechProvider } from "./elevenLabsProvider.js";
+import { createLocalSpeechProvider } from "./localSpeechProvider.js";
+
+export interface SpeechCapabilities {
+  // Container of the audio synthesize returns
+  format: AudioFormat;
+  // Whether synthesize can report when each character is spoken
+  timestamps: boolean;
+  // Longest text one request may carry; longer narration is split into chunks
+  maxChars: number;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceId: string;
+  language?: string | undefined;
+  // Ask for `alignment`; ignored by providers without the capability
+  timestamps?: boolean;
+  // Neighbouring chunks of the same reading, for providers that carry prosody across requests
+  previousText?: string | undefined;
+  nextText?: string | undefined;
+}
+
+export type SpeechResult =
+  | { ok: true; audio: Buffer; alignment?: SpeechAlignment }
+  | { ok: false; status: number; error: string };
+
+/**
+ * A text-to-speech backend. Implementations must not throw for ordinary text; a
+ * failed synthesis is reported as `{ ok: false }` with an HTTP-like status.
+ */
+export interface SpeechProvider {
+  readonly name: string;
+  // Engine and model; part of the audio cache key
+  readonly modelId: string;
+  readonly capabilities: SpeechCapabilities;
+  synthesize(request: SpeechRequest): Promise<SpeechResult>;
+  // Voices characters can be cast to
+  listVoices(): Promise<VoiceProfile[]>;
+  // Narrator voice for a genre and story language
+  narratorVoiceId(genre?: string, language?: string): string;
+}
+
+/**
+ * Provider selected by SPEECH_PROVIDER: "elevenlabs" (default; needs ELEVENLABS_TOKEN
+ * and the Cloudflare gateway variables), "local" (offline, LOCAL_TTS_ENGINE=espeak-ng
+ * or tone) or "off". Null when speech is off or ElevenLabs is not configured.
+ */
+export function createSpeechProvider(provider = process.env.SPEECH_PROVIDER): SpeechProvider | null {
+  switch (provider?.trim().toLowerCase()) {
+    case "off":
+    case "none":
+      return null;
+    case "local":
+      return createLocalSpeechProvider({
+        engine: process.env.LOCAL_TTS_ENGINE?.trim().toLowerCase() === "tone" ? "tone" : "espeak-ng",
+        command: process.env.LOCAL_TTS_COMMAND?.trim() || undefined,
+      });
+    case "elevenlabs":
+    default: {
+      const token = process.env.ELEVENLABS_TOKEN?.trim();
+      const accountId = process.env.CLOUDFLARE_ACCOUNT_ID?.trim();
+      const gatewayId = process.env.CLOUDFLARE_AI_GATEWAY_ID?.trim();
+      if (!token || !accountId || !gatewayId) return null;
+      return createElevenLabsSpeechProvider({ ELEVENLABS_TOKEN: token, AI_GATEWAY_ACCOUNT_ID: accountId, AI_GATEWAY_ID: gatewayId });
+    }
+  }
+}
@@ -4,11 +4,41 @@
  */
 export type StoryLength = 'small' | 'medium' | 'long';
 export type StoryDensity = 'short' | 'medium' | 'dense';
+// 'stepwise' generates one page per choice; 'graph' generates the whole choice graph up front
+export type StoryMode = 'stepwise' | 'graph';
+// Beat pattern the pages are paced by (see backend generators/narrativeStructures.ts)
+export type NarrativeStructure =
+  | 'three-act'
+  | 'heros-journey'
+  | 'save-the-cat'
+  | 'kishotenketsu'
+  | 'five-act-tragedy'
+  | 'mystery';
+
+// Who the story is for and how it may read (see backend generators/configurationGuidance.ts)
+export type StoryAudience = 'children' | 'middle-grade' | 'young-adult' | 'adult';
+export type ContentRating = 'G' | 'PG' | 'PG-13' | 'R';
+export type ReadingLevel = 'early' | 'elementary' | 'intermediate' | 'advanced';
+export type NarrativePov = 'first' | 'second' | 'third-limited' | 'third-omniscient';
+export type NarrativeTense = 'past' | 'present';
+// Language the story is written and narrated in (see backend generators/languageGuidance.ts)
+export type StoryLanguage = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt';
 
 export interface StoryConfiguration {
   length: StoryLength;
   density: StoryDensity;
   description: string;
+  mode?: StoryMode;
+  narrativeStructure?: NarrativeStructure;
+  audience?: StoryAudience;
+  contentRating?: ContentRating;
+  readingLevel?: ReadingLevel;
+  pov?: NarrativePov;
+  tense?: NarrativeTense;
+  language?: StoryLanguage;
+  cast?: CastMember[];
+  // World bible documents (see /api/lore) retrieved into the prompts
+  loreIds?: string[];
 }
 
 export interface EndingOption {
@@ -25,6 +55,22 @@ export interface Character {
   description?: string;
   motivation?: string;
   backstory?: string;
+  // Carried over from a user-supplied CastMember
+  referenceImageUrl?: string;
+}
+
+/**
+ * A character supplied by the user; the definition keeps it verbatim.
+ * `slot` pins where it goes; without one the model decides.
+ */
+export interface CastMember {
+  id?: string;
+  name: string;
+  role: string;
+  description?: string;
+  motivation?: string;
+  slot?: 'protagonist' | 'antagonist' | 'supporting';
+  referenceImageUrl?: string;
 }
 
 export interface Outcome {
@@ -51,23 +97,162 @@ export interface OptionActionBranch {
   options: OptionObject[];
 }
 
+/**
+ * Reader-written action. On a page it marks the "write your own action" input;
+ * when submitted, the typed text becomes the option's `text`.
+ */
+export interface OptionActionFreeText {
+  type: 'freeText';
+  placeholder?: string;
+}
+
+/**
+ * Graph mode edge: follow to an existing page of the StoryGraph.
+ */
+export interface OptionActionGoToPage {
+  type: 'goToPage';
+  pageId: string;
+}
+
 export type OptionAction =
   | OptionActionGoToNextPage
-  | OptionActionBranch;
+  | OptionActionBranch
+  | OptionActionFreeText
+  | OptionActionGoToPage;
+
+/**
+ * Gamebook conditions an option can require, evaluated against StoryState
+ * (flags, inventory, stats).
+ */
+export type OptionRequirement =
+  | { type: 'flag'; flag: string; value?: boolean }
+  | { type: 'item'; item: string; present?: boolean }
+  | { type: 'stat'; stat: string; min?: number; max?: number };
+
+/**
+ * Persistent consequences applied to StoryState when an option is chosen.
+ */
+export type OptionEffect =
+  | { type: 'setFlag'; flag: string; value?: boolean }
+  | { type: 'addItem'; item: string }
+  | { type: 'removeItem'; item: string }
+  | { type: 'changeStat'; stat: string; delta: number };
 
 export interface OptionObject {
   id: string;
   text: string;
   action: OptionAction;
+  requires?: OptionRequirement[];
+  effects?: OptionEffect[];
+  // How to render the option when `requires` fails (default: 'disable')
+  whenLocked?: 'disable' | 'hide';
 }
 
+/**
+ * A run of page prose: narration, or the words one character speaks.
+ * `speakerId` is the Character.id of the speaker in the StoryDefinition.
+ */
+export type StorySegment =
+  | { type: 'narration'; text: string }
+  | { type: 'dialogue'; text: string; speakerId: string };
+
 export interface StoryPage {
   id: string;
   text: string;
+  // The same prose split into narration and attributed speech, in reading order
+  segments?: StorySegment[];
   image?: ImageObject;
   options: OptionObject[];
 }
 
+/**
+ * Whole-story choice graph generated up front (graph mode).
+ * Nodes are pages whose options point at other node ids via `goToPage`;
+ * several options may share a target (merge points). Ending nodes carry
+ * `endingIndex` into StoryDefinition.endingOptions and a single finishing option.
+ */
+export interface StoryGraphNode extends StoryPage {
+  endingIndex?: number;
+}
+
+export interface StoryGraph {
+  startPageId: string;
+  nodes: StoryGraphNode[];
+}
+
+/**
+ * One entry of the reading history sent to /api/story/step:
+ * a page already shown and the option the reader picked on it.
+ */
+export interface StoryPathEntry {
+  pageId: string;
+  text: string;
+  chosenOption?: {
+    id: string;
+    text: string;
+    // 'freeText' marks an action the reader typed; generated options carry their own type
+    action?: { type: OptionAction['type'] };
+  };
+}
+
+/**
+ * Rolling "story so far" memory for long stories.
+ * Pages [0, summarizedPageCount) of the reading path are folded into `synopsis`;
+ * later pages are sent verbatim. `throughPageId` is the id of the last folded page, so
+ * memory built on another branch is recognised and ignored.
+ */
+export interface StoryMemory {
+  synopsis: string;
+  summarizedPageCount: number;
+  throughPageId?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Structured world state tracked across pages so continuity can be enforced.
+ * Updated by an extraction pass after each choice and sent with the next step.
+ */
+export interface CharacterStatus {
+  characterId: string;
+  name: string;
+  status: string; // e.g. "unhurt", "limping from a gash on the left leg", "captured"
+  relationship: number; // -100 (hostile) .. 100 (devoted) towards the protagonist
+}
+
+export interface StoryState {
+  location: string;
+  timeOfDay: string;
+  inventory: string[];
+  characters: CharacterStatus[];
+  facts: string[];
+  flags: Record<string, boolean>;
+  stats: Record<string, number>;
+  updatedAt?: string;
+}
+
+/**
+ * Up-front plan for a stepwise story: one beat per page.
+ * A set-up is planted on its beat's page and should pay off on `payoffPage`.
+ */
+export interface StorySetup {
+  id: string;
+  description: string;
+  payoffPage: number;
+}
+
+export interface StoryBeat {
+  page: number; // zero-based stepIndex
+  title: string; // e.g. "Inciting Incident"
+  goal: string;
+  complication: string;
+  reveal?: string;
+  setups: StorySetup[];
+}
+
+export interface StoryOutline {
+  beats: StoryBeat[];
+}
+
 export interface StoryDefinition {
   title: string;
   genre: string;
@@ -92,3 +277,153 @@ export interface StoryDefinition {
 }
 
 
+
+export interface FrontCover {
+  title: string;
+  tagline: string;
+  image?: ImageObject;
+}
+
+export interface BackCover {
+  summary: string;
+  image?: ImageObject;
+}
+
+export interface StoryStructure {
+  frontCover: FrontCover;
+  // Pages in reading order. In graph mode: the nodes visited so far
+  pages: StoryPage[];
+  backCover: BackCover;
+  graph?: StoryGraph;
+}
+
+/**
+ * Branching reading history kept by the frontend; pages of inactive branches live in
+ * `offPathPages`.
+ */
+export interface StoryTreeNode {
+  pageId: string;
+  parentId: string | null;
+  chosenOptionId: string | null;
+  chosenOptionText?: string;
+  state?: StoryState;
+  createdAt: string;
+}
+
+export interface StoryTree {
+  rootId: string;
+  activeLeafId: string;
+  nodes: Record<string, StoryTreeNode>;
+  offPathPages: Record<string, StoryPage>;
+}
+
+/**
+ * An earlier part of a series, condensed for recaps and sequel prompts.
+ * `summary` tells what happened, ending included (spoilers are the point).
+ */
+export interface SeriesEntry {
+  storyId: string;
+  title: string;
+  summary: string;
+  ending: string;
+}
+
+/**
+ * Links the Story records of a saga. Every part shares `id` (the first story's id);
+ * `previous` lists the earlier parts, oldest first.
+ */
+export interface StorySeries {
+  id: string;
+  part: number; // 1-based
+  previous: SeriesEntry[];
+  // "Previously…" text shown before this part starts
+  recap?: string;
+  nextStoryId?: string;
+}
+
+/**
+ * Narration voices of a story: the narrator reads narration, each cast character
+ * reads their own dialogue segments. Voice ids are the speech provider's.
+ */
+export interface CharacterVoice {
+  characterId: string;
+  voiceId: string;
+  voiceName: string;
+}
+
+export interface StoryVoices {
+  narratorVoiceId: string;
+  characters: CharacterVoice[];
+}
+
+/**
+ * One spoken word of narrated text: `start`/`end` are character offsets into the
+ * manifest `text` (end exclusive), times are seconds from the start of the audio.
+ */
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+  startTime: number;
+  endTime: number;
+}
+
+// Read-along narration from /api/speech/timed: the audio to play and when each word is spoken
+export interface SpeechTimingManifest {
+  key: string;
+  audioUrl: string;
+  text: string;
+  duration: number;
+  words: WordTiming[];
+}
+
+// A voice the reader can pick as narrator, from /api/speech/voices
+export interface SpeechVoice {
+  id: string;
+  label: string;
+  gender: 'male' | 'female';
+  age: 'young' | 'middle-aged' | 'old';
+  accent: string;
+  style: string;
+  genres: string[];
+}
+
+// /api/speech/voices: the provider's voices and the narrator it picks for the story's genre and language
+export interface SpeechVoiceCatalog {
+  provider: string;
+  narratorVoiceId: string;
+  voices: SpeechVoice[];
+}
+
+/**
+ * The reader's narration choices, kept on the story: a narrator voice instead of the
+ * genre's (character voices are unchanged) and the playback rate (1 = normal speed).
+ */
+export interface NarrationPreferences {
+  voiceId?: string;
+  rate?: number;
+}
+
+export type StoryStatus = 'pending' | 'generating' | 'ready' | 'error';
+
+/**
+ * Whole Story document as stored by the frontend. `metadata` belongs to the renderer
+ * and is passed through untouched.
+ */
+export interface Story {
+  id: string;
+  status: StoryStatus;
+  createdAt: string;
+  updatedAt: string;
+  configuration: StoryConfiguration;
+  definition?: StoryDefinition;
+  outline?: StoryOutline;
+  structure?: StoryStructure;
+  tree?: StoryTree;
+  state?: StoryState;
+  memory?: StoryMemory;
+  series?: StorySeries;
+  voices?: StoryVoices;
+  narration?: NarrationPreferences;
+  metadata?: unknown;
+}
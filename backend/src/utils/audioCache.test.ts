@@ -0,0 +1,76 @@
+import { strict as assert } from "node:assert";
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createAudioCache, getAudioCacheKey } from "./audioCache.js";
+
+test("keys cover text, voice and model but not spacing", () => {
+	const key = getAudioCacheKey("The bell  rang.\n", "george", "eleven_multilingual_v2");
+	assert.match(key, /^[a-f0-9]{64}$/);
+	assert.equal(getAudioCacheKey(" The bell rang.", "george", "eleven_multilingual_v2"), key);
+	assert.notEqual(getAudioCacheKey("The bell rang.", "sarah", "eleven_multilingual_v2"), key);
+	assert.notEqual(getAudioCacheKey("The bell rang.", "george", "eleven_turbo_v2"), key);
+});
+
+test("concurrent requests for one key render once", async () => {
+	const cache = createAudioCache({ dir: null });
+	const key = getAudioCacheKey("Mara dives.", "george", "m");
+	let renders = 0;
+	const render = async () => {
+		renders += 1;
+		await new Promise(resolve => setTimeout(resolve, 10));
+		return Buffer.from("mp3");
+	};
+	const [a, b] = await Promise.all([cache.getOrRender(key, render), cache.getOrRender(key, render)]);
+	assert.equal(renders, 1);
+	assert.equal(a.toString(), "mp3");
+	assert.equal(b, a);
+	assert.equal((await cache.get(key))?.toString(), "mp3");
+
+	// A failed render is not cached
+	const failing = getAudioCacheKey("Ossian sings.", "george", "m");
+	await assert.rejects(cache.getOrRender(failing, async () => Promise.reject(new Error("quota"))), /quota/);
+	assert.equal(await cache.get(failing), null);
+});
+
+test("the disk tier outlives the memory tier", async () => {
+	const dir = await mkdtemp(path.join(tmpdir(), "audio-cache-"));
+	try {
+		const key = getAudioCacheKey("Tam rows.", "george", "m");
+		await createAudioCache({ dir }).getOrRender(key, async () => Buffer.from("rowing"));
+		assert.deepEqual(await readdir(dir), [`${key}.mp3`]);
+
+		// A fresh cache (a restart) reads it back without rendering
+		const restarted = createAudioCache({ dir });
+		assert.equal((await restarted.get(key))?.toString(), "rowing");
+		const audio = await restarted.getOrRender(key, async () => assert.fail("rendered again"));
+		assert.equal(audio.toString(), "rowing");
+		assert.equal(await restarted.get("../../etc/passwd"), null);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
+
+test("the disk tier deletes the least recently used files past its budget", async () => {
+	const dir = await mkdtemp(path.join(tmpdir(), "audio-cache-"));
+	try {
+		const [a, b, c] = ["Tam rows.", "Mara dives.", "Ossian sings."].map(text => getAudioCacheKey(text, "george", "m"));
+		const cache = createAudioCache({ dir, diskCapacityBytes: 250 });
+		await cache.set(a!, Buffer.alloc(100));
+		await cache.set(b!, Buffer.alloc(100));
+		// Both written a minute ago, then `a` read again (from disk), so `b` goes first
+		const past = new Date(Date.now() - 60_000);
+		await utimes(path.join(dir, `${a}.mp3`), past, past);
+		await utimes(path.join(dir, `${b}.mp3`), past, past);
+		await createAudioCache({ dir }).get(a!);
+		await cache.set(c!, Buffer.alloc(100));
+		assert.deepEqual((await readdir(dir)).sort(), [`${a}.mp3`, `${c}.mp3`].sort());
+
+		// A file larger than the whole budget is still kept until the next write
+		await cache.set(b!, Buffer.alloc(300));
+		assert.deepEqual(await readdir(dir), [`${b}.mp3`]);
+	} finally {
+		await rm(dir, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,265 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export interface AudioCache {
+	// Cached audio, waiting for a render of the same key already in flight
+	get(key: string): Promise<Buffer | null>;
+	// Cached audio, or `render()` once however many callers ask for the key at the same time
+	getOrRender(key: string, render: () => Promise<Buffer>): Promise<Buffer>;
+	// Replaces whatever is stored under the key
+	set(key: string, audio: Buffer): Promise<void>;
+}
+
+export interface AudioCacheOptions {
+	// Disk tier directory; null keeps audio in memory only (tests)
+	dir?: string | null;
+	// File extension on disk; the cache itself stores any bytes (word timings are JSON)
+	extension?: string;
+	capacityBytes?: number;
+	// Disk tier budget; the least recently used files are deleted once it is exceeded
+	diskCapacityBytes?: number;
+	ttlMs?: number;
+}
+
+interface AudioCacheFile {
+	name: string;
+	size: number;
+	mtimeMs: number;
+}
+
+interface AudioCacheEntry {
+	audio: Buffer;
+	expiresAt: number;
+}
+
+const KEY = /^[a-f0-9]{64}$/;
+const DEFAULT_DISK_CAPACITY_BYTES = 2_000_000_000;
+
+/**
+ * In-memory LRU with TTL, bounded by total bytes rather than entry count since
+ * a long page of narration runs to a few megabytes.
+ */
+class AudioLruCache {
+	private map: Map<string, AudioCacheEntry>;
+	private bytes = 0;
+	private readonly capacityBytes: number;
+	private readonly ttlMs: number;
+
+	constructor(capacityBytes: number, ttlMs: number) {
+		this.map = new Map();
+		this.capacityBytes = Math.max(1_000_000, capacityBytes);
+		this.ttlMs = Math.max(60_000, ttlMs);
+	}
+
+	get(key: string): Buffer | null {
+		const existing = this.map.get(key);
+		if (!existing) return null;
+		if (existing.expiresAt <= Date.now()) {
+			this.delete(key);
+			return null;
+		}
+		// Bump recency (LRU)
+		this.map.delete(key);
+		this.map.set(key, existing);
+		return existing.audio;
+	}
+
+	set(key: string, audio: Buffer): void {
+		this.delete(key);
+		this.map.set(key, { audio, expiresAt: Date.now() + this.ttlMs });
+		this.bytes += audio.length;
+		// Evict oldest entries until within capacity, always keeping the newest
+		for (const k of this.map.keys()) {
+			if (this.bytes <= this.capacityBytes || k === key) break;
+			this.delete(k);
+		}
+	}
+
+	private delete(key: string): void {
+		const existing = this.map.get(key);
+		if (!existing) return;
+		this.bytes -= existing.audio.length;
+		this.map.delete(key);
+	}
+}
+
+/**
+ * Content-addressed: sha256 of the model, voice and whitespace-normalized text, so the
+ * same page read by the same voice is synthesized once.
+ */
+export function getAudioCacheKey(text: string, voiceId: string, modelId: string): string {
+	const normalizedText = text.trim().replace(/\s+/g, " ");
+	return createHash("sha256").update(`${modelId.trim()}::${voiceId.trim()}::${normalizedText}`, "utf8").digest("hex");
+}
+
+export function isAudioCacheKey(key: string): boolean {
+	return KEY.test(key);
+}
+
+/**
+ * Two tiers: memory in front, and with a `dir` every render is also written there as
+ * `<key>.<extension>` and read back (into memory) after eviction or a restart. Disk
+ * entries are never stale since the key covers everything that shapes the audio, so
+ * they only go when the directory outgrows its byte budget, oldest (by mtime) first.
+ */
+export function createAudioCache(options: AudioCacheOptions = {}): AudioCache {
+	const dir = options.dir === undefined ? resolveAudioCacheDir() : options.dir;
+	const extension = options.extension ?? "mp3";
+	const memory = new AudioLruCache(options.capacityBytes ?? 64_000_000, options.ttlMs ?? 6 * 60 * 60 * 1000);
+	const diskCapacity = Math.max(0, options.diskCapacityBytes ?? DEFAULT_DISK_CAPACITY_BYTES);
+	const pending = new Map<string, Promise<Buffer>>();
+	// Bytes on disk since the last scan; null until the directory has been scanned once
+	let diskBytes: number | null = null;
+	let pruning: Promise<void> | null = null;
+
+	const readDisk = async (key: string): Promise<Buffer | null> => {
+		if (!dir) return null;
+		try {
+			const file = path.join(dir, `${key}.${extension}`);
+			const audio = await fs.readFile(file);
+			memory.set(key, audio);
+			// A read counts as use, so popular narration outlives eviction
+			const now = new Date();
+			await fs.utimes(file, now, now).catch(() => undefined);
+			return audio;
+		} catch {
+			return null;
+		}
+	};
+
+	const pruneDisk = async (dir: string, keep: string): Promise<void> => {
+		const files = await listCacheFiles(dir, extension);
+		let total = files.reduce((sum, f) => sum + f.size, 0);
+		for (const file of files) {
+			if (total <= diskCapacity) break;
+			if (file.name === `${keep}.${extension}`) continue;
+			try {
+				await fs.unlink(path.join(dir, file.name));
+				total -= file.size;
+			} catch {
+				// Already gone
+			}
+		}
+		diskBytes = total;
+	};
+
+	const writeDisk = async (key: string, audio: Buffer): Promise<void> => {
+		if (!dir) return;
+		try {
+			await fs.mkdir(dir, { recursive: true });
+			const file = path.join(dir, `${key}.${extension}`);
+			// Write-then-rename so a reader never sees half a file
+			await fs.writeFile(`${file}.tmp`, audio);
+			await fs.rename(`${file}.tmp`, file);
+			// Overwrites are counted twice, which only brings the next scan forward
+			if (diskBytes !== null) diskBytes += audio.length;
+		} catch (err) {
+			// The memory tier still has it; losing the disk copy only costs a re-render later
+			console.warn("[audioCache] failed to write audio to disk", { key, err });
+			return;
+		}
+		if (diskBytes !== null && diskBytes <= diskCapacity) return;
+		// One scan at a time; writes landing meanwhile are picked up by the next one
+		pruning ??= pruneDisk(dir, key)
+			.catch(err => console.warn("[audioCache] failed to prune the disk cache", { dir, err }))
+			.finally(() => {
+				pruning = null;
+			});
+		await pruning;
+	};
+
+	const lookup = async (key: string): Promise<Buffer | null> => {
+		if (!KEY.test(key)) return null;
+		return memory.get(key) ?? (await pending.get(key)?.catch(() => null)) ?? (await readDisk(key));
+	};
+
+	return {
+		get: lookup,
+
+		getOrRender(key, render) {
+			// Checked synchronously so concurrent callers always find each other's job
+			const cached = memory.get(key);
+			if (cached) return Promise.resolve(cached);
+			const inFlight = pending.get(key);
+			if (inFlight) return inFlight;
+			const job = (async () => {
+				const stored = KEY.test(key) ? await readDisk(key) : null;
+				if (stored) return stored;
+				const audio = await render();
+				memory.set(key, audio);
+				await writeDisk(key, audio);
+				return audio;
+			})().finally(() => pending.delete(key));
+			pending.set(key, job);
+			return job;
+		},
+
+		async set(key, audio) {
+			if (!KEY.test(key)) return;
+			memory.set(key, audio);
+			await writeDisk(key, audio);
+		},
+	};
+}
+
+// Cache files in `dir`, oldest first; the `.tmp` files of writes in progress and subdirectories are skipped
+async function listCacheFiles(dir: string, extension: string): Promise<AudioCacheFile[]> {
+	const files: AudioCacheFile[] = [];
+	for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+		if (!entry.isFile() || !entry.name.endsWith(`.${extension}`)) continue;
+		try {
+			const stat = await fs.stat(path.join(dir, entry.name));
+			files.push({ name: entry.name, size: stat.size, mtimeMs: stat.mtimeMs });
+		} catch {
+			// Deleted while listing
+		}
+	}
+	return files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+}
+
+function readByteBudget(name: string): number | undefined {
+	const bytes = Number.parseInt(process.env[name] || "", 10);
+	return Number.isFinite(bytes) && bytes > 0 ? bytes : undefined;
+}
+
+function resolveAudioCacheDir(): string {
+	return path.resolve(process.env.AUDIO_CACHE_DIR?.trim() || path.join(process.cwd(), "data", "audio"));
+}
+
+const defaultCaches = new Map<string, AudioCache>();
+let defaultTimingCache: AudioCache | null = null;
+
+/**
+ * The process-wide cache behind /api/speech, one per audio file extension (the speech
+ * provider's format). Created on first use so AUDIO_CACHE_DIR,
+ * AUDIO_CACHE_CAPACITY_BYTES and AUDIO_CACHE_DISK_BYTES from `.env` are already loaded.
+ */
+export function getDefaultAudioCache(extension = "mp3"): AudioCache {
+	let cache = defaultCaches.get(extension);
+	if (!cache) {
+		const capacity = readByteBudget("AUDIO_CACHE_CAPACITY_BYTES");
+		const diskCapacity = readByteBudget("AUDIO_CACHE_DISK_BYTES");
+		cache = createAudioCache({
+			extension,
+			...(capacity ? { capacityBytes: capacity } : {}),
+			...(diskCapacity ? { diskCapacityBytes: diskCapacity } : {}),
+		});
+		defaultCaches.set(extension, cache);
+	}
+	return cache;
+}
+
+// Word timings of cached narration, kept beside the audio under AUDIO_CACHE_DIR/timings
+export function getDefaultTimingCache(): AudioCache {
+	if (!defaultTimingCache) {
+		// Timings are a few kilobytes per page, so a small share of the audio budget
+		const diskCapacity = readByteBudget("AUDIO_CACHE_DISK_BYTES") ?? DEFAULT_DISK_CAPACITY_BYTES;
+		defaultTimingCache = createAudioCache({
+			dir: path.join(resolveAudioCacheDir(), "timings"),
+			extension: "json",
+			diskCapacityBytes: Math.ceil(diskCapacity / 20),
+		});
+	}
+	return defaultTimingCache;
+}
@@ -0,0 +1,37 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { audioDuration, detectAudioFormat, encodeWav, parseWav, stitchAudio } from "./audioFormat.js";
+
+function mp3(label: string): Buffer {
+	// An empty ID3v2 tag, then the "frames"
+	return Buffer.concat([Buffer.from([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, 0]), Buffer.from(label)]);
+}
+
+test("WAV files round-trip and report their duration", () => {
+	const wav = encodeWav(Buffer.alloc(32_000), 16_000);
+	assert.equal(detectAudioFormat(wav), "wav");
+	assert.equal(wav.length, 44 + 32_000);
+	assert.deepEqual({ ...parseWav(wav), data: undefined }, { sampleRate: 16_000, channels: 1, bitsPerSample: 16, data: undefined });
+	assert.equal(audioDuration(wav), 1);
+});
+
+test("streamed WAV with a placeholder data size is cut to the bytes present", () => {
+	const wav = encodeWav(Buffer.alloc(100), 22_050);
+	wav.writeUInt32LE(0x7fffffff, 40);
+	assert.equal(parseWav(wav)?.data.length, 100);
+});
+
+test("stitching joins samples under one header and MP3 frames without later tags", () => {
+	const stitched = stitchAudio([encodeWav(Buffer.alloc(16_000, 1), 16_000), encodeWav(Buffer.alloc(16_000, 2), 16_000)]);
+	assert.equal(stitched.length, 44 + 32_000);
+	assert.equal(audioDuration(stitched), 1);
+	assert.equal(parseWav(stitched)?.data[16_000], 2);
+
+	const joined = stitchAudio([mp3("[one]"), mp3("[two]")]);
+	assert.equal(detectAudioFormat(joined), "mp3");
+	assert.equal(joined.subarray(10).toString(), "[one][two]");
+});
+
+test("constant-bitrate MP3 duration follows its size", () => {
+	assert.equal(audioDuration(Buffer.alloc(32_000)), 2);
+});
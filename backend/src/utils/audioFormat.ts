@@ -0,0 +1,115 @@
+export type AudioFormat = "mp3" | "wav";
+
+export const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+};
+
+// ElevenLabs' output_format mp3_44100_128 is constant bitrate: 128 kbit/s
+const MP3_BYTES_PER_SECOND = 128_000 / 8;
+
+export interface WavAudio {
+	sampleRate: number;
+	channels: number;
+	bitsPerSample: number;
+	data: Buffer;
+}
+
+export function detectAudioFormat(audio: Uint8Array): AudioFormat {
+	const tag = (start: number) => String.fromCharCode(...audio.subarray(start, start + 4));
+	return audio.length >= 12 && tag(0) === "RIFF" && tag(8) === "WAVE" ? "wav" : "mp3";
+}
+
+/**
+ * 16-bit PCM WAV. The header always states the real sizes, unlike the placeholder
+ * sizes engines write when streaming to stdout.
+ */
+export function encodeWav(data: Uint8Array, sampleRate: number, channels = 1, bitsPerSample = 16): Buffer {
+	const header = Buffer.alloc(44);
+	const blockAlign = (channels * bitsPerSample) / 8;
+	header.write("RIFF", 0, "ascii");
+	header.writeUInt32LE(36 + data.length, 4);
+	header.write("WAVE", 8, "ascii");
+	header.write("fmt ", 12, "ascii");
+	header.writeUInt32LE(16, 16);
+	header.writeUInt16LE(1, 20); // PCM
+	header.writeUInt16LE(channels, 22);
+	header.writeUInt32LE(sampleRate, 24);
+	header.writeUInt32LE(sampleRate * blockAlign, 28);
+	header.writeUInt16LE(blockAlign, 32);
+	header.writeUInt16LE(bitsPerSample, 34);
+	header.write("data", 36, "ascii");
+	header.writeUInt32LE(data.length, 40);
+	return Buffer.concat([header, data]);
+}
+
+/**
+ * Reads PCM WAV. A `data` chunk claiming more bytes than the file holds (streamed
+ * output) is cut to what is there.
+ */
+export function parseWav(audio: Buffer): WavAudio | null {
+	if (detectAudioFormat(audio) !== "wav") return null;
+	let format: Omit<WavAudio, "data"> | null = null;
+	let offset = 12;
+	while (offset + 8 <= audio.length) {
+		const id = audio.toString("ascii", offset, offset + 4);
+		const size = audio.readUInt32LE(offset + 4);
+		const body = offset + 8;
+		if (id === "fmt " && body + 16 <= audio.length) {
+			format = {
+				channels: audio.readUInt16LE(body + 2),
+				sampleRate: audio.readUInt32LE(body + 4),
+				bitsPerSample: audio.readUInt16LE(body + 14),
+			};
+		} else if (id === "data") {
+			if (!format) return null;
+			return { ...format, data: audio.subarray(body, Math.min(audio.length, body + size)) };
+		}
+		// Chunks are word-aligned
+		offset = body + size + (size % 2);
+	}
+	return null;
+}
+
+// Drops a leading ID3v2 tag ("ID3", version, flags, 4-byte syncsafe size)
+export function stripId3v2(audio: Buffer): Buffer {
+	if (audio.length < 10 || audio[0] !== 0x49 || audio[1] !== 0x44 || audio[2] !== 0x33) return audio;
+	const size = ((audio[6]! & 0x7f) << 21) | ((audio[7]! & 0x7f) << 14) | ((audio[8]! & 0x7f) << 7) | (audio[9]! & 0x7f);
+	const footer = audio[5]! & 0x10 ? 10 : 0;
+	return audio.subarray(Math.min(audio.length, 10 + size + footer));
+}
+
+/**
+ * The part of a file that can follow another of the same format in a stitched stream:
+ * MP3 frames without the tag, or bare WAV samples.
+ */
+export function audioContinuation(audio: Buffer): Buffer {
+	if (detectAudioFormat(audio) === "mp3") return stripId3v2(audio);
+	return parseWav(audio)?.data ?? Buffer.alloc(0);
+}
+
+/**
+ * Joins files of one format into one. MP3 frames concatenate as they are; WAV samples
+ * are joined under a single header (that of the first file).
+ */
+export function stitchAudio(parts: Buffer[]): Buffer {
+	const [first, ...rest] = parts;
+	if (!first) return Buffer.alloc(0);
+	if (detectAudioFormat(first) === "mp3") return Buffer.concat([first, ...rest.map(stripId3v2)]);
+	const wav = parseWav(first);
+	if (!wav) return first;
+	return encodeWav(Buffer.concat([wav.data, ...rest.map(audioContinuation)]), wav.sampleRate, wav.channels, wav.bitsPerSample);
+}
+
+// Playing time in seconds: exact for WAV, from the constant bitrate for MP3
+export function audioDuration(audio: Buffer): number {
+	let seconds: number;
+	if (detectAudioFormat(audio) === "wav") {
+		const wav = parseWav(audio);
+		const bytesPerSecond = wav ? (wav.sampleRate * wav.channels * wav.bitsPerSample) / 8 : 0;
+		seconds = wav && bytesPerSecond > 0 ? wav.data.length / bytesPerSecond : 0;
+	} else {
+		seconds = stripId3v2(audio).length / MP3_BYTES_PER_SECOND;
+	}
+	return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,27 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { countSyllables, scoreReadability } from "./readability.js";
+
+test("syllables are counted by vowel groups with silent endings dropped", () => {
+	assert.equal(countSyllables("cat"), 1);
+	assert.equal(countSyllables("make"), 1);
+	assert.equal(countSyllables("jumped"), 1);
+	assert.equal(countSyllables("table"), 2);
+	assert.equal(countSyllables("lighthouse"), 2);
+	assert.equal(countSyllables("unbelievable"), 5);
+});
+
+test("simple prose scores far below dense prose", () => {
+	const simple = scoreReadability("The cat sat on the mat. It was warm. She liked the sun.");
+	const dense = scoreReadability(
+		"Notwithstanding the considerable institutional resistance, the archivist meticulously reconstructed the incriminating correspondence, illuminating a conspiracy of extraordinary administrative complexity.",
+	);
+	assert.equal(simple.sentences, 3);
+	assert.ok(simple.grade < 3, `simple grade ${simple.grade}`);
+	assert.ok(dense.grade > 14, `dense grade ${dense.grade}`);
+});
+
+test("empty text scores zero and unterminated text is one sentence", () => {
+	assert.deepEqual(scoreReadability("  "), { words: 0, sentences: 0, syllables: 0, grade: 0 });
+	assert.equal(scoreReadability("no full stop here").sentences, 1);
+});
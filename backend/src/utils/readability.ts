@@ -0,0 +1,39 @@
+export interface ReadabilityScore {
+	words: number;
+	sentences: number;
+	syllables: number;
+	// Flesch-Kincaid grade level; 0 for empty text
+	grade: number;
+}
+
+/**
+ * Flesch-Kincaid grade level of English prose, with a heuristic syllable counter.
+ * Good enough to tell a picture-book page from a literary one; not a linguistic tool.
+ */
+export function scoreReadability(text: string): ReadabilityScore {
+	const words = text.match(/[A-Za-z]+(?:['’][A-Za-z]+)*/g) ?? [];
+	if (words.length === 0) {
+		return { words: 0, sentences: 0, syllables: 0, grade: 0 };
+	}
+	// Runs of terminal punctuation end a sentence; trailing text without one still counts
+	const sentences = Math.max(1, (text.match(/[.!?…]+(?=\s|$|["'”’)])/g) ?? []).length);
+	const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+	const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+	return {
+		words: words.length,
+		sentences,
+		syllables,
+		grade: Math.max(0, Math.round(grade * 10) / 10),
+	};
+}
+
+export function countSyllables(word: string): number {
+	const w = word.toLowerCase().replace(/[^a-z]/g, "");
+	if (w.length === 0) return 0;
+	if (w.length <= 3) return 1;
+	const trimmed = w
+		.replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, match => match.slice(0, 1))
+		.replace(/^y/, "");
+	const groups = trimmed.match(/[aeiouy]+/g);
+	return Math.max(1, groups ? groups.length : 0);
+}
@@ -0,0 +1,37 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { chunkText } from "./textChunker.js";
+
+test("whole sentences are packed into chunks", () => {
+	const text = "The tide turned. Mara dove again!  Was the gate open? It was.";
+	assert.deepEqual(chunkText(text, { maxChars: 40 }), ["The tide turned. Mara dove again!", "Was the gate open? It was."]);
+	assert.deepEqual(chunkText(text, { maxChars: 1000 }), ["The tide turned. Mara dove again! Was the gate open? It was."]);
+	assert.deepEqual(chunkText("  \n ", { maxChars: 40 }), []);
+});
+
+test("the first chunk is kept short but never cuts its sentence", () => {
+	const text = "The lantern guttered out in the wind. Then silence. Then the bell.";
+	assert.deepEqual(chunkText(text, { maxChars: 200, firstChunkChars: 10 }), [
+		"The lantern guttered out in the wind.",
+		"Then silence. Then the bell.",
+	]);
+});
+
+test("overlong sentences split at clauses, then words", () => {
+	assert.deepEqual(chunkText("North of the reef, past the wreck, under the ice shelf she waited.", { maxChars: 30 }), [
+		"North of the reef,",
+		"past the wreck,",
+		"under the ice shelf she",
+		"waited.",
+	]);
+	assert.deepEqual(chunkText("Aaaaaaaaaa!", { maxChars: 4 }), ["Aaaa", "aaaa", "aa!"]);
+});
+
+test("chunks joined with spaces read the same as the text", () => {
+	const text = "One. Two, three; four five six seven. Eight? Nine!";
+	for (const maxChars of [8, 15, 100]) {
+		const chunks = chunkText(text, { maxChars, firstChunkChars: 5 });
+		assert.equal(chunks.join(" "), text);
+		assert.ok(chunks.every(c => c.length <= maxChars));
+	}
+});
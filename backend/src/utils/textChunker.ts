@@ -0,0 +1,78 @@
+export interface TextChunkOptions {
+	// Longest chunk; a single sentence longer than this is split
+	maxChars: number;
+	// Tighter limit for the first chunk so playback can start sooner; a whole first sentence is still kept
+	firstChunkChars?: number;
+	// Sentence rules of the text's language
+	locale?: string | undefined;
+}
+
+const CLAUSE_BREAK = /(?<=[,;:–—])\s+/;
+
+/**
+ * Splits text for speech synthesis at sentence boundaries, packing whole sentences into
+ * chunks of at most `maxChars`. An overlong sentence is split at clause punctuation,
+ * then between words; a word longer than a chunk is cut. Chunks are trimmed, so joining
+ * them with single spaces reads the same as the text.
+ */
+export function chunkText(text: string, options: TextChunkOptions): string[] {
+	const max = Math.max(1, Math.floor(options.maxChars));
+	const firstMax = Math.min(max, Math.max(1, Math.floor(options.firstChunkChars ?? max)));
+	const chunks: string[] = [];
+	let current = "";
+	for (const sentence of splitSentences(text, options.locale)) {
+		for (const piece of sentence.length > max ? splitLongSentence(sentence, max) : [sentence]) {
+			const limit = chunks.length === 0 ? firstMax : max;
+			if (current && current.length + 1 + piece.length > limit) {
+				chunks.push(current);
+				current = piece;
+			} else {
+				current = current ? `${current} ${piece}` : piece;
+			}
+		}
+	}
+	if (current) chunks.push(current);
+	return chunks;
+}
+
+function splitSentences(text: string, locale: string | undefined): string[] {
+	let segmenter: Intl.Segmenter;
+	try {
+		segmenter = new Intl.Segmenter(locale, { granularity: "sentence" });
+	} catch {
+		// Unknown locale tag
+		segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+	}
+	return [...segmenter.segment(text)].map(s => s.segment.trim().replace(/\s+/g, " ")).filter(Boolean);
+}
+
+function splitLongSentence(sentence: string, max: number): string[] {
+	const pieces = sentence.split(CLAUSE_BREAK).flatMap(clause => (clause.length > max ? splitWords(clause, max) : [clause]));
+	return pack(pieces, max);
+}
+
+function splitWords(clause: string, max: number): string[] {
+	const words = clause.split(" ").flatMap(word => {
+		if (word.length <= max) return [word];
+		const cuts: string[] = [];
+		for (let i = 0; i < word.length; i += max) cuts.push(word.slice(i, i + max));
+		return cuts;
+	});
+	return pack(words, max);
+}
+
+// Greedily joins pieces with spaces while they fit
+function pack(pieces: string[], max: number): string[] {
+	const packed: string[] = [];
+	let current = "";
+	for (const piece of pieces) {
+		if (current && current.length + 1 + piece.length > max) {
+			packed.push(current);
+			current = piece;
+		} else {
+			current = current ? `${current} ${piece}` : piece;
+		}
+	}
+	if (current) packed.push(current);
+	return packed;
+}
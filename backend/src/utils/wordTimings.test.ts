@@ -0,0 +1,32 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { buildWordTimings, estimateAlignment } from "./wordTimings.js";
+
+function align(text: string, secondsPerChar = 0.1) {
+	const characters = [...text];
+	return {
+		characters,
+		character_start_times_seconds: characters.map((_, i) => i * secondsPerChar),
+		character_end_times_seconds: characters.map((_, i) => (i + 1) * secondsPerChar),
+	};
+}
+
+test("characters are grouped into words with offsets and times", () => {
+	assert.deepEqual(buildWordTimings(align("Go  back!")), [
+		{ text: "Go", start: 0, end: 2, startTime: 0, endTime: 0.2 },
+		{ text: "back!", start: 4, end: 9, startTime: 0.4, endTime: 0.9 },
+	]);
+});
+
+test("a later run of stitched narration is shifted in text and time", () => {
+	const [word] = buildWordTimings(align("Hush."), { chars: 10, seconds: 2.5 });
+	assert.deepEqual(word, { text: "Hush.", start: 10, end: 15, startTime: 2.5, endTime: 3 });
+	assert.deepEqual(buildWordTimings({ characters: [], character_start_times_seconds: [], character_end_times_seconds: [] }), []);
+});
+
+test("engines without timings get them spread evenly over the audio", () => {
+	assert.deepEqual(buildWordTimings(estimateAlignment("Go on", 1)), [
+		{ text: "Go", start: 0, end: 2, startTime: 0, endTime: 0.4 },
+		{ text: "on", start: 3, end: 5, startTime: 0.6, endTime: 1 },
+	]);
+});
@@ -0,0 +1,56 @@
+import type { SpeechAlignment } from "../agents/speechAgents.js";
+import type { WordTiming } from "../types/frontend.js";
+
+/**
+ * Groups per-character timings into words (runs of non-space characters). Offsets
+ * shift the result when the text is one run of a longer, stitched narration.
+ */
+export function buildWordTimings(
+	alignment: SpeechAlignment,
+	offsets: { chars?: number; seconds?: number } = {},
+): WordTiming[] {
+	const chars = offsets.chars ?? 0;
+	const seconds = offsets.seconds ?? 0;
+	const count = Math.min(
+		alignment.characters.length,
+		alignment.character_start_times_seconds.length,
+		alignment.character_end_times_seconds.length,
+	);
+	const words: WordTiming[] = [];
+	let current: WordTiming | null = null;
+	for (let i = 0; i < count; i += 1) {
+		const char = alignment.characters[i] ?? "";
+		if (/^\s*$/.test(char)) {
+			current = null;
+			continue;
+		}
+		const startTime = round(seconds + (alignment.character_start_times_seconds[i] ?? 0));
+		const endTime = round(seconds + (alignment.character_end_times_seconds[i] ?? 0));
+		if (!current) {
+			current = { text: "", start: chars + i, end: chars + i, startTime, endTime };
+			words.push(current);
+		}
+		current.text += char;
+		current.end = chars + i + 1;
+		current.endTime = Math.max(current.endTime, endTime);
+	}
+	return words;
+}
+
+/**
+ * Even per-character timings over the audio's duration, for engines that report none.
+ * Coarse, but close enough to follow a page word by word.
+ */
+export function estimateAlignment(text: string, duration: number): SpeechAlignment {
+	const characters = [...text];
+	const step = characters.length > 0 ? duration / characters.length : 0;
+	return {
+		characters,
+		character_start_times_seconds: characters.map((_, i) => round(i * step)),
+		character_end_times_seconds: characters.map((_, i) => round((i + 1) * step)),
+	};
+}
+
+function round(seconds: number): number {
+	return Math.round(seconds * 1000) / 1000;
+}
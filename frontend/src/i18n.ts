@@ -0,0 +1,366 @@
+import type { StoryLanguage } from './types';
+
+/**
+ * Reader-facing UI strings, per story language. The story text itself comes from the
+ * backend already in the story language; these cover the chrome around it.
+ */
+const EN = {
+  newStory: 'New Story',
+  restartBook: 'Restart Book',
+  timelines: 'Timelines',
+  exportPdf: 'Export to PDF',
+  preparing: 'Preparing...',
+  creatingStory: 'Creating your story...',
+  generatingDefinition: 'Generating story definition...',
+  buildingOpening: 'Building opening scene...',
+  mappingPaths: 'Mapping every path through your story...',
+  planningStory: 'Planning your story...',
+  generatingOpeningPage: 'Generating opening page...',
+  generatingOpeningScene: 'Generating opening scene...',
+  generatingCoverArt: 'Generating cover art...',
+  coverArtFailed: 'Failed to generate cover art.',
+  generatingNextPage: 'Generating next page...',
+  nextPageFailed: 'Failed to generate next page. Please try again.',
+  finalizingBook: 'Finalizing your book...',
+  rewritingPage: 'Rewriting this page...',
+  rewriteFailed: 'Failed to rewrite the page. Please try again.',
+  rewriteThisPage: 'Rewrite this page',
+  rewrite: 'Rewrite',
+  rewritePlaceholder: 'Optional: make it scarier, less dialogue...',
+  freeTextPlaceholder: 'What do you do?',
+  tryIt: 'Try it',
+  locked: 'Locked',
+  requires: 'Requires: {list}',
+  back: '‹ Back',
+  goBack: 'Go back and choose differently',
+  timeline: 'Timeline {index}',
+  onePage: '1 page',
+  pageCount: '{count} pages',
+  openingPage: 'The opening page',
+  lastChoice: 'Last choice: {choice}',
+  tapToContinue: 'Tap to Continue',
+  writtenBy: 'Written by',
+  writtenByYou: 'Written by You',
+  summary: 'Summary',
+  published: 'Published',
+  publisher: 'Publisher',
+  untitledStory: 'An Untitled Story',
+  aiAdventure: 'An AI Generated Adventure',
+  storyScene: 'Story scene',
+  contentRejected: 'That doesn\'t fit this story\'s content rating.',
+  continueSaga: 'Continue the saga',
+  writingSequel: 'Writing the next part of the saga...',
+  sequelFailed: 'The next part could not be written. Please try again.',
+  previously: 'Previously…',
+  partOf: 'Part {part}',
+  narration: 'Narration',
+  narratorVoice: 'Narrator voice',
+  defaultVoice: 'Story default',
+  playbackSpeed: 'Speed',
+  voicesUnavailable: 'Voices are unavailable right now.',
+};
+
+export type UiStringKey = keyof typeof EN;
+
+const STRINGS: Record<StoryLanguage, Record<UiStringKey, string>> = {
+  en: EN,
+  es: {
+    newStory: 'Nueva historia',
+    restartBook: 'Reiniciar libro',
+    timelines: 'Líneas temporales',
+    exportPdf: 'Exportar a PDF',
+    preparing: 'Preparando...',
+    creatingStory: 'Creando tu historia...',
+    generatingDefinition: 'Generando la historia...',
+    buildingOpening: 'Construyendo la escena inicial...',
+    mappingPaths: 'Trazando todos los caminos de tu historia...',
+    planningStory: 'Planificando tu historia...',
+    generatingOpeningPage: 'Generando la primera página...',
+    generatingOpeningScene: 'Generando la escena inicial...',
+    generatingCoverArt: 'Generando la portada...',
+    coverArtFailed: 'No se pudo generar la portada.',
+    generatingNextPage: 'Generando la siguiente página...',
+    nextPageFailed: 'No se pudo generar la siguiente página. Inténtalo de nuevo.',
+    finalizingBook: 'Terminando tu libro...',
+    rewritingPage: 'Reescribiendo esta página...',
+    rewriteFailed: 'No se pudo reescribir la página. Inténtalo de nuevo.',
+    rewriteThisPage: 'Reescribir esta página',
+    rewrite: 'Reescribir',
+    rewritePlaceholder: 'Opcional: más miedo, menos diálogo...',
+    freeTextPlaceholder: '¿Qué haces?',
+    tryIt: 'Probar',
+    locked: 'Bloqueado',
+    requires: 'Requiere: {list}',
+    back: '‹ Atrás',
+    goBack: 'Volver y elegir otra cosa',
+    timeline: 'Línea temporal {index}',
+    onePage: '1 página',
+    pageCount: '{count} páginas',
+    openingPage: 'La primera página',
+    lastChoice: 'Última elección: {choice}',
+    tapToContinue: 'Toca para continuar',
+    writtenBy: 'Escrito por',
+    writtenByYou: 'Escrito por ti',
+    summary: 'Resumen',
+    published: 'Publicado',
+    publisher: 'Editorial',
+    untitledStory: 'Una historia sin título',
+    aiAdventure: 'Una aventura generada por IA',
+    storyScene: 'Escena de la historia',
+    contentRejected: 'Eso no encaja con la clasificación de esta historia.',
+    continueSaga: 'Continuar la saga',
+    writingSequel: 'Escribiendo la siguiente parte de la saga...',
+    sequelFailed: 'No se pudo escribir la siguiente parte. Inténtalo de nuevo.',
+    previously: 'Anteriormente…',
+    partOf: 'Parte {part}',
+    narration: 'Narración',
+    narratorVoice: 'Voz del narrador',
+    defaultVoice: 'Predeterminada de la historia',
+    playbackSpeed: 'Velocidad',
+    voicesUnavailable: 'Las voces no están disponibles ahora.',
+  },
+  fr: {
+    newStory: 'Nouvelle histoire',
+    restartBook: 'Recommencer le livre',
+    timelines: 'Chronologies',
+    exportPdf: 'Exporter en PDF',
+    preparing: 'Préparation...',
+    creatingStory: 'Création de votre histoire...',
+    generatingDefinition: 'Génération de l\'histoire...',
+    buildingOpening: 'Construction de la scène d\'ouverture...',
+    mappingPaths: 'Tracé de tous les chemins de votre histoire...',
+    planningStory: 'Planification de votre histoire...',
+    generatingOpeningPage: 'Génération de la première page...',
+    generatingOpeningScene: 'Génération de la scène d\'ouverture...',
+    generatingCoverArt: 'Génération de la couverture...',
+    coverArtFailed: 'Impossible de générer la couverture.',
+    generatingNextPage: 'Génération de la page suivante...',
+    nextPageFailed: 'Impossible de générer la page suivante. Veuillez réessayer.',
+    finalizingBook: 'Finalisation de votre livre...',
+    rewritingPage: 'Réécriture de cette page...',
+    rewriteFailed: 'Impossible de réécrire la page. Veuillez réessayer.',
+    rewriteThisPage: 'Réécrire cette page',
+    rewrite: 'Réécrire',
+    rewritePlaceholder: 'Facultatif : plus effrayant, moins de dialogues...',
+    freeTextPlaceholder: 'Que faites-vous ?',
+    tryIt: 'Essayer',
+    locked: 'Verrouillé',
+    requires: 'Nécessite : {list}',
+    back: '‹ Retour',
+    goBack: 'Revenir et choisir autrement',
+    timeline: 'Chronologie {index}',
+    onePage: '1 page',
+    pageCount: '{count} pages',
+    openingPage: 'La première page',
+    lastChoice: 'Dernier choix : {choice}',
+    tapToContinue: 'Touchez pour continuer',
+    writtenBy: 'Écrit par',
+    writtenByYou: 'Écrit par vous',
+    summary: 'Résumé',
+    published: 'Publié',
+    publisher: 'Éditeur',
+    untitledStory: 'Une histoire sans titre',
+    aiAdventure: 'Une aventure générée par IA',
+    storyScene: 'Scène de l\'histoire',
+    contentRejected: 'Cela ne correspond pas à la classification de cette histoire.',
+    continueSaga: 'Poursuivre la saga',
+    writingSequel: 'Écriture de la suite de la saga...',
+    sequelFailed: 'La suite n\'a pas pu être écrite. Veuillez réessayer.',
+    previously: 'Précédemment…',
+    partOf: 'Tome {part}',
+    narration: 'Narration',
+    narratorVoice: 'Voix du narrateur',
+    defaultVoice: 'Par défaut de l\'histoire',
+    playbackSpeed: 'Vitesse',
+    voicesUnavailable: 'Les voix sont indisponibles pour le moment.',
+  },
+  de: {
+    newStory: 'Neue Geschichte',
+    restartBook: 'Buch neu starten',
+    timelines: 'Zeitlinien',
+    exportPdf: 'Als PDF exportieren',
+    preparing: 'Wird vorbereitet...',
+    creatingStory: 'Deine Geschichte wird erstellt...',
+    generatingDefinition: 'Geschichte wird entworfen...',
+    buildingOpening: 'Eröffnungsszene wird gebaut...',
+    mappingPaths: 'Alle Wege durch deine Geschichte werden kartiert...',
+    planningStory: 'Deine Geschichte wird geplant...',
+    generatingOpeningPage: 'Erste Seite wird geschrieben...',
+    generatingOpeningScene: 'Eröffnungsszene wird geschrieben...',
+    generatingCoverArt: 'Titelbild wird erstellt...',
+    coverArtFailed: 'Titelbild konnte nicht erstellt werden.',
+    generatingNextPage: 'Nächste Seite wird geschrieben...',
+    nextPageFailed: 'Die nächste Seite konnte nicht erstellt werden. Bitte versuche es erneut.',
+    finalizingBook: 'Dein Buch wird fertiggestellt...',
+    rewritingPage: 'Seite wird neu geschrieben...',
+    rewriteFailed: 'Die Seite konnte nicht neu geschrieben werden. Bitte versuche es erneut.',
+    rewriteThisPage: 'Diese Seite neu schreiben',
+    rewrite: 'Neu schreiben',
+    rewritePlaceholder: 'Optional: gruseliger, weniger Dialog...',
+    freeTextPlaceholder: 'Was tust du?',
+    tryIt: 'Versuchen',
+    locked: 'Gesperrt',
+    requires: 'Benötigt: {list}',
+    back: '‹ Zurück',
+    goBack: 'Zurückgehen und anders entscheiden',
+    timeline: 'Zeitlinie {index}',
+    onePage: '1 Seite',
+    pageCount: '{count} Seiten',
+    openingPage: 'Die erste Seite',
+    lastChoice: 'Letzte Wahl: {choice}',
+    tapToContinue: 'Tippen zum Fortfahren',
+    writtenBy: 'Geschrieben von',
+    writtenByYou: 'Geschrieben von dir',
+    summary: 'Zusammenfassung',
+    published: 'Veröffentlicht',
+    publisher: 'Verlag',
+    untitledStory: 'Eine Geschichte ohne Titel',
+    aiAdventure: 'Ein KI-generiertes Abenteuer',
+    storyScene: 'Szene der Geschichte',
+    contentRejected: 'Das passt nicht zur Altersfreigabe dieser Geschichte.',
+    continueSaga: 'Die Saga fortsetzen',
+    writingSequel: 'Der nächste Teil der Saga wird geschrieben...',
+    sequelFailed: 'Der nächste Teil konnte nicht geschrieben werden. Bitte versuche es erneut.',
+    previously: 'Was bisher geschah…',
+    partOf: 'Teil {part}',
+    narration: 'Erzählung',
+    narratorVoice: 'Erzählerstimme',
+    defaultVoice: 'Standard der Geschichte',
+    playbackSpeed: 'Tempo',
+    voicesUnavailable: 'Stimmen sind gerade nicht verfügbar.',
+  },
+  it: {
+    newStory: 'Nuova storia',
+    restartBook: 'Ricomincia il libro',
+    timelines: 'Linee temporali',
+    exportPdf: 'Esporta in PDF',
+    preparing: 'Preparazione...',
+    creatingStory: 'Creazione della tua storia...',
+    generatingDefinition: 'Generazione della storia...',
+    buildingOpening: 'Costruzione della scena iniziale...',
+    mappingPaths: 'Mappatura di tutti i percorsi della storia...',
+    planningStory: 'Pianificazione della tua storia...',
+    generatingOpeningPage: 'Generazione della prima pagina...',
+    generatingOpeningScene: 'Generazione della scena iniziale...',
+    generatingCoverArt: 'Generazione della copertina...',
+    coverArtFailed: 'Impossibile generare la copertina.',
+    generatingNextPage: 'Generazione della pagina successiva...',
+    nextPageFailed: 'Impossibile generare la pagina successiva. Riprova.',
+    finalizingBook: 'Completamento del tuo libro...',
+    rewritingPage: 'Riscrittura della pagina...',
+    rewriteFailed: 'Impossibile riscrivere la pagina. Riprova.',
+    rewriteThisPage: 'Riscrivi questa pagina',
+    rewrite: 'Riscrivi',
+    rewritePlaceholder: 'Facoltativo: più paura, meno dialoghi...',
+    freeTextPlaceholder: 'Cosa fai?',
+    tryIt: 'Prova',
+    locked: 'Bloccato',
+    requires: 'Richiede: {list}',
+    back: '‹ Indietro',
+    goBack: 'Torna indietro e scegli diversamente',
+    timeline: 'Linea temporale {index}',
+    onePage: '1 pagina',
+    pageCount: '{count} pagine',
+    openingPage: 'La prima pagina',
+    lastChoice: 'Ultima scelta: {choice}',
+    tapToContinue: 'Tocca per continuare',
+    writtenBy: 'Scritto da',
+    writtenByYou: 'Scritto da te',
+    summary: 'Riassunto',
+    published: 'Pubblicato',
+    publisher: 'Editore',
+    untitledStory: 'Una storia senza titolo',
+    aiAdventure: 'Un\'avventura generata dall\'IA',
+    storyScene: 'Scena della storia',
+    contentRejected: 'Non è adatto alla classificazione di questa storia.',
+    continueSaga: 'Continua la saga',
+    writingSequel: 'Scrittura del prossimo capitolo della saga...',
+    sequelFailed: 'Non è stato possibile scrivere il seguito. Riprova.',
+    previously: 'Nelle puntate precedenti…',
+    partOf: 'Parte {part}',
+    narration: 'Narrazione',
+    narratorVoice: 'Voce narrante',
+    defaultVoice: 'Predefinita della storia',
+    playbackSpeed: 'Velocità',
+    voicesUnavailable: 'Le voci non sono disponibili al momento.',
+  },
+  pt: {
+    newStory: 'Nova história',
+    restartBook: 'Reiniciar livro',
+    timelines: 'Linhas do tempo',
+    exportPdf: 'Exportar para PDF',
+    preparing: 'Preparando...',
+    creatingStory: 'Criando sua história...',
+    generatingDefinition: 'Gerando a história...',
+    buildingOpening: 'Construindo a cena de abertura...',
+    mappingPaths: 'Mapeando todos os caminhos da sua história...',
+    planningStory: 'Planejando sua história...',
+    generatingOpeningPage: 'Gerando a primeira página...',
+    generatingOpeningScene: 'Gerando a cena de abertura...',
+    generatingCoverArt: 'Gerando a capa...',
+    coverArtFailed: 'Não foi possível gerar a capa.',
+    generatingNextPage: 'Gerando a próxima página...',
+    nextPageFailed: 'Não foi possível gerar a próxima página. Tente novamente.',
+    finalizingBook: 'Finalizando seu livro...',
+    rewritingPage: 'Reescrevendo esta página...',
+    rewriteFailed: 'Não foi possível reescrever a página. Tente novamente.',
+    rewriteThisPage: 'Reescrever esta página',
+    rewrite: 'Reescrever',
+    rewritePlaceholder: 'Opcional: mais assustador, menos diálogo...',
+    freeTextPlaceholder: 'O que você faz?',
+    tryIt: 'Tentar',
+    locked: 'Bloqueado',
+    requires: 'Requer: {list}',
+    back: '‹ Voltar',
+    goBack: 'Voltar e escolher de outra forma',
+    timeline: 'Linha do tempo {index}',
+    onePage: '1 página',
+    pageCount: '{count} páginas',
+    openingPage: 'A primeira página',
+    lastChoice: 'Última escolha: {choice}',
+    tapToContinue: 'Toque para continuar',
+    writtenBy: 'Escrito por',
+    writtenByYou: 'Escrito por você',
+    summary: 'Resumo',
+    published: 'Publicado',
+    publisher: 'Editora',
+    untitledStory: 'Uma história sem título',
+    aiAdventure: 'Uma aventura gerada por IA',
+    storyScene: 'Cena da história',
+    contentRejected: 'Isso não combina com a classificação desta história.',
+    continueSaga: 'Continuar a saga',
+    writingSequel: 'Escrevendo a próxima parte da saga...',
+    sequelFailed: 'Não foi possível escrever a próxima parte. Tente novamente.',
+    previously: 'Anteriormente…',
+    partOf: 'Parte {part}',
+    narration: 'Narração',
+    narratorVoice: 'Voz do narrador',
+    defaultVoice: 'Padrão da história',
+    playbackSpeed: 'Velocidade',
+    voicesUnavailable: 'As vozes não estão disponíveis agora.',
+  },
+};
+
+export function resolveUiLanguage(language: string | undefined | null): StoryLanguage {
+  return language && Object.prototype.hasOwnProperty.call(STRINGS, language) ? (language as StoryLanguage) : 'en';
+}
+
+/**
+ * UI string in `language`; `{name}` placeholders are filled from `vars`.
+ */
+export function translate(key: UiStringKey, language?: string | null, vars?: Record<string, string>): string {
+  const template = STRINGS[resolveUiLanguage(language)][key];
+  return vars ? template.replace(/\{(\w+)\}/g, (match, name: string) => vars[name] ?? match) : template;
+}
+
+/**
+ * Sets <html lang> and fills every element marked with data-i18n="<key>" under `root`.
+ */
+export function applyUiLanguage(language: string | undefined | null, root: ParentNode = document): void {
+  const resolved = resolveUiLanguage(language);
+  document.documentElement.lang = resolved;
+  root.querySelectorAll<HTMLElement>('[data-i18n]').forEach(el => {
+    const key = el.dataset.i18n as UiStringKey;
+    if (key in EN) el.textContent = translate(key, resolved);
+  });
+}
@@ -2,8 +2,9 @@
  * Story Creation Page Entry Point
  */
 
-import type { StoryConfiguration, Story, StoryDefinition, StoryPage, StoryStructure } from './types';
-import { store } from './story';
+import type { CastMember, ContentRating, LoreDocumentSummary, NarrativePov, NarrativeStructure, NarrativeTense, ReadingLevel, StoryAudience, StoryConfiguration, Story, StoryDefinition, StoryGraph, StoryLanguage, StoryPage, StoryStructure } from './types';
+import { ContentRejectedError, fetchStoryGraph, fetchStoryOutline, readContentRejection, store } from './story';
+import { resolveUiLanguage, translate } from './i18n';
 
 // Get DOM elements with explicit validation for critical inputs
 const customToggle = document.getElementById('customToggle') as HTMLButtonElement | null;
@@ -12,6 +13,12 @@ const customSection = document.getElementById('customSection') as HTMLElement |
 const randomSection = document.getElementById('randomSection') as HTMLElement | null;
 const createStoryBtn = document.getElementById('createStoryBtn') as HTMLButtonElement | null;
 const storyDescription = document.getElementById('storyDescription') as HTMLTextAreaElement | null;
+const audienceSelect = document.getElementById('audience') as HTMLSelectElement | null;
+const contentRatingSelect = document.getElementById('contentRating') as HTMLSelectElement | null;
+const readingLevelSelect = document.getElementById('readingLevel') as HTMLSelectElement | null;
+const storyCast = document.getElementById('storyCast') as HTMLTextAreaElement | null;
+const loreList = document.getElementById('loreList') as HTMLUListElement | null;
+const loreUpload = document.getElementById('loreUpload') as HTMLInputElement | null;
 // API key and image model removed from configuration
 
 if (!customToggle || !randomToggle || !customSection || !randomSection || !createStoryBtn || !storyDescription) {
@@ -33,6 +40,30 @@ randomToggle.addEventListener('click', () => {
   customSection.classList.add('hidden');
 });
 
+// Audience drives the highest allowed rating and a matching reading level (the backend caps the rating too)
+const AUDIENCE_DEFAULTS: Record<StoryAudience, { maxRating: ContentRating; readingLevel: ReadingLevel }> = {
+  children: { maxRating: 'G', readingLevel: 'early' },
+  'middle-grade': { maxRating: 'PG', readingLevel: 'elementary' },
+  'young-adult': { maxRating: 'PG-13', readingLevel: 'intermediate' },
+  adult: { maxRating: 'R', readingLevel: 'advanced' },
+};
+const RATING_ORDER: ContentRating[] = ['G', 'PG', 'PG-13', 'R'];
+
+audienceSelect?.addEventListener('change', () => {
+  const defaults = AUDIENCE_DEFAULTS[audienceSelect.value as StoryAudience];
+  if (!defaults) return;
+  const maxIndex = RATING_ORDER.indexOf(defaults.maxRating);
+  if (contentRatingSelect) {
+    Array.from(contentRatingSelect.options).forEach(option => {
+      option.disabled = RATING_ORDER.indexOf(option.value as ContentRating) > maxIndex;
+    });
+    if (RATING_ORDER.indexOf(contentRatingSelect.value as ContentRating) > maxIndex) {
+      contentRatingSelect.value = defaults.maxRating;
+    }
+  }
+  if (readingLevelSelect) readingLevelSelect.value = defaults.readingLevel;
+});
+
 function createLoadingOverlay(message: string): HTMLElement {
   const overlay = document.createElement('div');
   overlay.id = 'story-loading-overlay';
@@ -108,6 +139,107 @@ function generateId(): string {
   return `story_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
 }
 
+// World lore picker: documents live on the backend and are shared by every story
+async function refreshLoreList(selected: Set<string> = selectedLoreIds()): Promise<void> {
+  if (!loreList) return;
+  let documents: LoreDocumentSummary[] = [];
+  try {
+    const response = await fetch('/api/lore');
+    if (response.ok) documents = (await response.json()) as LoreDocumentSummary[];
+  } catch (error) {
+    console.warn('Lore documents unavailable:', error);
+  }
+  loreList.replaceChildren(
+    ...documents.map(doc => {
+      const item = document.createElement('li');
+      item.className = 'lore-item';
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.id = `lore-${doc.id}`;
+      checkbox.value = doc.id;
+      checkbox.checked = selected.has(doc.id);
+      const label = document.createElement('label');
+      label.htmlFor = checkbox.id;
+      label.textContent = doc.title;
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'lore-remove';
+      remove.title = `Delete ${doc.title}`;
+      remove.textContent = '×';
+      remove.addEventListener('click', async () => {
+        if (!confirm(`Delete the lore document "${doc.title}"? Stories using it will no longer see it.`)) return;
+        await fetch(`/api/lore/${encodeURIComponent(doc.id)}`, { method: 'DELETE' });
+        await refreshLoreList();
+      });
+      item.append(checkbox, label, remove);
+      return item;
+    }),
+  );
+}
+
+function selectedLoreIds(): Set<string> {
+  const checked = loreList?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]:checked') ?? [];
+  return new Set(Array.from(checked, input => input.value));
+}
+
+loreUpload?.addEventListener('change', async () => {
+  const selected = selectedLoreIds();
+  for (const file of Array.from(loreUpload.files ?? [])) {
+    const response = await fetch('/api/lore', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: file.name.replace(/\.(md|markdown|txt)$/i, ''), content: await file.text() }),
+    });
+    if (response.ok) {
+      // A freshly uploaded document is meant for this story
+      selected.add(((await response.json()) as LoreDocumentSummary).id);
+    } else {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      alert(`Could not upload ${file.name}: ${body?.error ?? response.status}`);
+    }
+  }
+  loreUpload.value = '';
+  await refreshLoreList(selected);
+});
+
+void refreshLoreList();
+
+/**
+ * Reads the cast box: one "Name | role | description | motivation | image URL" per line
+ * (only name and role required), optionally prefixed with "protagonist:" or
+ * "antagonist:". Returns an error message for an incomplete line.
+ */
+function parseCastLines(text: string): CastMember[] | string {
+  const cast: CastMember[] = [];
+  for (const rawLine of text.split('\n')) {
+    let line = rawLine.trim();
+    if (!line) continue;
+    let slot: CastMember['slot'];
+    const pinned = /^(protagonist|antagonist)\s*:\s*/i.exec(line);
+    if (pinned) {
+      slot = pinned[1].toLowerCase() as CastMember['slot'];
+      line = line.slice(pinned[0].length);
+    }
+    const [name, role, description, motivation, referenceImageUrl, ...extra] = line.split('|').map(part => part.trim());
+    if (!name || !role) {
+      return `Each cast line needs a name and a role, e.g. "Mara Quill | smuggler captain". Check: "${rawLine.trim()}"`;
+    }
+    if (extra.length > 0) {
+      return `A cast line has at most five parts: name | role | description | motivation | image URL. Check: "${rawLine.trim()}"`;
+    }
+    if (referenceImageUrl && !/^https?:\/\//i.test(referenceImageUrl)) {
+      return `A cast member's image must be an http(s) URL. Check: "${rawLine.trim()}"`;
+    }
+    const member: CastMember = { name, role };
+    if (description) member.description = description;
+    if (motivation) member.motivation = motivation;
+    if (referenceImageUrl) member.referenceImageUrl = referenceImageUrl;
+    if (slot) member.slot = slot;
+    cast.push(member);
+  }
+  return cast;
+}
+
 async function fetchStoryDefinition(configuration: StoryConfiguration): Promise<StoryDefinition> {
   const response = await fetch('/api/story/define', {
     method: 'POST',
@@ -116,11 +248,20 @@ async function fetchStoryDefinition(configuration: StoryConfiguration): Promise<
       length: configuration.length,
       density: configuration.density,
       description: configuration.description,
+      narrativeStructure: configuration.narrativeStructure,
+      audience: configuration.audience,
+      contentRating: configuration.contentRating,
+      readingLevel: configuration.readingLevel,
+      pov: configuration.pov,
+      tense: configuration.tense,
+      language: configuration.language,
+      cast: configuration.cast,
+      loreIds: configuration.loreIds,
     }),
   });
 
   if (!response.ok) {
-    throw new Error(`Story definition request failed (${response.status})`);
+    throw (await readContentRejection(response)) ?? new Error(`Story definition request failed (${response.status})`);
   }
   const data = (await response.json()) as StoryDefinition;
   return data;
@@ -128,13 +269,14 @@ async function fetchStoryDefinition(configuration: StoryConfiguration): Promise<
 
 async function fetchFirstStoryPage(definition: StoryDefinition): Promise<StoryPage> {
   const cfg = store.getState().story?.configuration;
+  const outline = store.getState().story?.outline ?? null;
   const response = await fetch('/api/story/step', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ definition, stepIndex: 0, configuration: cfg }),
+    body: JSON.stringify({ definition, stepIndex: 0, configuration: cfg, outline }),
   });
   if (!response.ok) {
-    throw new Error(`Story page request failed (${response.status})`);
+    throw (await readContentRejection(response)) ?? new Error(`Story page request failed (${response.status})`);
   }
   const data = (await response.json()) as StoryPage;
   return data;
@@ -144,6 +286,11 @@ async function fetchFirstStoryPage(definition: StoryDefinition): Promise<StoryPa
 createStoryBtn.addEventListener('click', async () => {
   const length = (document.querySelector('input[name="length"]:checked') as HTMLInputElement | null)?.value;
   const density = (document.querySelector('input[name="density"]:checked') as HTMLInputElement | null)?.value;
+  const mode = (document.querySelector('input[name="mode"]:checked') as HTMLInputElement | null)?.value;
+  const narrativeStructure = (document.getElementById('narrativeStructure') as HTMLSelectElement | null)?.value;
+  const pov = (document.getElementById('pov') as HTMLSelectElement | null)?.value;
+  const tense = (document.getElementById('tense') as HTMLSelectElement | null)?.value;
+  const language: StoryLanguage = resolveUiLanguage((document.getElementById('language') as HTMLSelectElement | null)?.value);
   // image model selection removed
 
   if (!length || !density) {
@@ -175,10 +322,29 @@ createStoryBtn.addEventListener('click', async () => {
     inputType = 'random';
   }
 
+  const cast = parseCastLines(storyCast?.value ?? '');
+  if (typeof cast === 'string') {
+    alert(cast);
+    storyCast?.focus();
+    return;
+  }
+
+  const loreIds = [...selectedLoreIds()];
+
   const config: StoryConfiguration = {
     length: length as StoryConfiguration['length'],
     density: density as StoryConfiguration['density'],
     description: storyInput,
+    mode: mode === 'graph' ? 'graph' : 'stepwise',
+    narrativeStructure: (narrativeStructure || 'three-act') as NarrativeStructure,
+    audience: (audienceSelect?.value || 'adult') as StoryAudience,
+    contentRating: (contentRatingSelect?.value || 'PG-13') as ContentRating,
+    readingLevel: (readingLevelSelect?.value || 'advanced') as ReadingLevel,
+    pov: (pov || 'third-limited') as NarrativePov,
+    tense: (tense || 'present') as NarrativeTense,
+    language,
+    ...(cast.length > 0 ? { cast } : {}),
+    ...(loreIds.length > 0 ? { loreIds } : {}),
   };
 
   console.log('Story Configuration:', config);
@@ -212,7 +378,7 @@ createStoryBtn.addEventListener('click', async () => {
   store.setStory(story);
 
   // Show loading overlay while we prepare/generate the story definition
-  const overlay = createLoadingOverlay('Creating your story...');
+  const overlay = createLoadingOverlay(translate('creatingStory', language));
   // Indeterminate loading bar simulation with soft cap at 90%
   let progress = 8;
   const barFill = overlay.querySelector('#story-loading-bar-fill') as HTMLElement | null;
@@ -221,12 +387,16 @@ createStoryBtn.addEventListener('click', async () => {
     progress = Math.min(90, progress + Math.max(1, Math.floor(Math.random() * 5)));
     barFill.style.width = `${progress}%`;
   }, 240);
+  let rejection: ContentRejectedError | null = null;
   try {
-    updateLoadingMessage(overlay, 'Generating story definition...');
+    updateLoadingMessage(overlay, translate('generatingDefinition', language));
     // Fetch the StoryDefinition from backend (will be implemented server-side)
     const definition = await fetchStoryDefinition(config);
     store.updateStory({ status: 'ready', definition });
   } catch (error) {
+    if (error instanceof ContentRejectedError) {
+      rejection = error;
+    }
     console.warn('Story definition not available yet, continuing with initial data:', error);
     store.updateStory({ status: 'pending' });
   } finally {
@@ -238,12 +408,17 @@ createStoryBtn.addEventListener('click', async () => {
     }
     removeLoadingOverlay(overlay);
   }
+  // A description moderation refused for the chosen rating: stay here so it can be reworded
+  if (rejection) {
+    alert(rejection.message);
+    return;
+  }
 
   // If we have a definition, generate the opening scene (first page) with a separate loader
   const current = store.getState().story;
   const haveDefinition = Boolean(current?.definition);
   if (haveDefinition) {
-    const overlay2 = createLoadingOverlay('Building opening scene...');
+    const overlay2 = createLoadingOverlay(translate('buildingOpening', language));
     let progress2 = 8;
     const barFill2 = overlay2.querySelector('#story-loading-bar-fill') as HTMLElement | null;
     const intervalId2 = window.setInterval(() => {
@@ -252,8 +427,26 @@ createStoryBtn.addEventListener('click', async () => {
       barFill2.style.width = `${progress2}%`;
     }, 240);
     try {
-      updateLoadingMessage(overlay2, 'Generating opening page...');
-      const firstPage = await fetchFirstStoryPage(current!.definition!);
+      let graph: StoryGraph | undefined;
+      let firstPage: StoryPage | undefined;
+      if (config.mode === 'graph') {
+        // Graph mode: the whole story map is written up front; start on its first node
+        updateLoadingMessage(overlay2, translate('mappingPaths', language));
+        graph = await fetchStoryGraph(current!.definition!);
+        firstPage = graph.nodes.find(n => n.id === graph!.startPageId);
+        if (!firstPage) throw new Error('Story graph has no start page');
+      } else {
+        // Plan the beats first; without an outline the pages fall back to generic pacing
+        updateLoadingMessage(overlay2, translate('planningStory', language));
+        try {
+          const outline = await fetchStoryOutline(current!.definition!);
+          store.updateStory({ outline });
+        } catch (error) {
+          console.warn('Story outline not available, continuing without it:', error);
+        }
+        updateLoadingMessage(overlay2, translate('generatingOpeningPage', language));
+        firstPage = await fetchFirstStoryPage(current!.definition!);
+      }
       // Construct minimal structure for the renderer: cover from definition, first page only (no back cover yet)
       const frontCover = {
         title: current!.definition!.title,
@@ -261,7 +454,7 @@ createStoryBtn.addEventListener('click', async () => {
         image: current!.definition!.image, // carry prompt/alt forward
       };
       store.updateStory({
-        structure: ({ frontCover, pages: [firstPage] } as unknown as StoryStructure),
+        structure: ({ frontCover, pages: [firstPage], graph } as unknown as StoryStructure),
       });
     } catch (error) {
       console.warn('Failed to generate first story page:', error);
@@ -290,7 +483,7 @@ createStoryBtn.addEventListener('click', async () => {
       current2?.structure?.frontCover?.image?.url;
     if (def && !existingCover) {
       coverGenerationAttempted = true;
-      const overlay3 = createLoadingOverlay('Generating cover art...');
+      const overlay3 = createLoadingOverlay(translate('generatingCoverArt', language));
       let progress3 = 10;
       const barFill3 = overlay3.querySelector('#story-loading-bar-fill') as HTMLElement | null;
       const intervalId3 = window.setInterval(() => {
@@ -0,0 +1,29 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { applyOptionEffects, meetsRequirements } from './optionRules';
+import type { StoryState } from './types';
+
+const state: StoryState = {
+  location: 'Velmora',
+  timeOfDay: 'dawn',
+  inventory: ['Brass Key'],
+  characters: [],
+  facts: [],
+  flags: { 'met-the-ferryman': true },
+  stats: { courage: 2 },
+};
+
+test('locked options open once their effects are applied', () => {
+  const requires = [{ type: 'item' as const, item: 'lantern' }, { type: 'stat' as const, stat: 'courage', min: 3 }];
+  assert.equal(meetsRequirements(requires, state), false);
+  const next = applyOptionEffects(state, [
+    { type: 'addItem', item: 'Lantern' },
+    { type: 'changeStat', stat: 'courage', delta: 1 },
+    { type: 'removeItem', item: 'brass key' },
+  ]);
+  assert.ok(meetsRequirements(requires, next));
+  assert.deepEqual(next.inventory, ['Lantern']);
+  // The previous state is left as it was
+  assert.deepEqual(state.inventory, ['Brass Key']);
+  assert.equal(meetsRequirements([{ type: 'flag', flag: 'met-the-ferryman', value: false }], state), false);
+});
@@ -0,0 +1,60 @@
+/**
+ * Gamebook rules as the reader applies them: which options are unlocked, and the
+ * state a choice leads to. Mirrors backend/src/generators/optionRules.ts, which
+ * decides the same things when writing pages.
+ */
+
+import type { OptionEffect, OptionRequirement, StoryState } from './types';
+
+/**
+ * True when every requirement holds for the given state (missing state = nothing owned, no flags, stats at 0).
+ */
+export function meetsRequirements(requires: OptionRequirement[] | undefined, state: StoryState | null | undefined): boolean {
+  if (!requires || requires.length === 0) return true;
+  const flags = state?.flags ?? {};
+  const stats = state?.stats ?? {};
+  const inventory = new Set((state?.inventory ?? []).map(i => i.toLowerCase()));
+  return requires.every(r => {
+    switch (r.type) {
+      case 'flag':
+        return Boolean(flags[r.flag]) === (r.value !== false);
+      case 'item':
+        return inventory.has(r.item.toLowerCase()) === (r.present !== false);
+      case 'stat': {
+        const v = stats[r.stat] ?? 0;
+        return (r.min === undefined || v >= r.min) && (r.max === undefined || v <= r.max);
+      }
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Applies option effects to a state and returns a new state object.
+ */
+export function applyOptionEffects(state: StoryState, effects: OptionEffect[] | undefined): StoryState {
+  if (!effects || effects.length === 0) return state;
+  const flags = { ...(state.flags ?? {}) };
+  const stats = { ...(state.stats ?? {}) };
+  let inventory = state.inventory.slice();
+  for (const e of effects) {
+    switch (e.type) {
+      case 'setFlag':
+        flags[e.flag] = e.value !== false;
+        break;
+      case 'addItem':
+        if (!inventory.some(i => i.toLowerCase() === e.item.toLowerCase())) inventory.push(e.item);
+        break;
+      case 'removeItem':
+        inventory = inventory.filter(i => i.toLowerCase() !== e.item.toLowerCase());
+        break;
+      case 'changeStat':
+        stats[e.stat] = (stats[e.stat] ?? 0) + e.delta;
+        break;
+      default:
+        break;
+    }
+  }
+  return { ...state, flags, stats, inventory };
+}
@@ -1,7 +1,10 @@
 /**
  * Story Display Page
  */
-import type { Story, StoryStructure, StoryPage, OptionObject, FrontCover, StoryDefinition, StoryTelemetry, OptionSelectionEvent, StoryMetadata } from './types';
+import { applyUiLanguage, translate, type UiStringKey } from './i18n';
+import { backCoverForPath, collectTreePath, cutPathAt, findExploredChoice, findLatestLeaf, getTimelineLeaves, memoryForPages, switchPathTo } from './storyTree';
+import { applyOptionEffects, meetsRequirements } from './optionRules';
+import type { Story, StoryStructure, StoryPage, OptionObject, FrontCover, StoryDefinition, StoryTelemetry, OptionSelectionEvent, StoryMetadata, StoryPathEntry, StoryMemory, StoryOutline, StoryState, OptionRequirement, StoryGraph, StoryGraphNode, StoryTree, StoryTreeNode, StorySeries, StorySegment, StoryVoices, SpeechTimingManifest, WordTiming, NarrationPreferences, SpeechVoiceCatalog } from './types';
 
 /**
  * Lightweight localStorage helpers kept internal to story page + store.
@@ -40,6 +43,8 @@ type StoreState = {
 
 const STORAGE_KEYS = {
   currentStory: 'currentStory',
+  // Finished parts of a series, by story id (text only; images stay in the cache)
+  seriesArchive: 'seriesArchive',
 } as const;
 
 class GlobalStore {
@@ -84,6 +89,119 @@ class GlobalStore {
     this.setStory(updated);
   }
 
+  /**
+   * Append a page to the active branch, with the world state it was generated with.
+   * Stepwise stories also record it in the choice tree as a child of `link.parentId`,
+   * reached through `link.chosenOption`.
+   */
+  appendPage(page: StoryPage, link: { parentId: string | null; chosenOption?: OptionObject; state?: StoryState | null }): void {
+    const story = this.state.story;
+    const structure = story?.structure;
+    if (!story || !structure) return;
+    const pages = structure.pages.concat(page);
+    const state = link.state ?? story.state;
+    if (structure.graph) {
+      this.updateStory({ structure: { ...structure, pages }, state });
+      return;
+    }
+    // Built before the new state lands so legacy pages keep their own state
+    const tree = ensureStoryTree(story);
+    const node: StoryTreeNode = {
+      pageId: page.id,
+      parentId: link.parentId,
+      chosenOptionId: link.chosenOption?.id ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    if (link.chosenOption) node.chosenOptionText = link.chosenOption.text;
+    if (state) node.state = state;
+    this.updateStory({
+      structure: { ...structure, pages },
+      state,
+      tree: {
+        ...tree,
+        rootId: tree.rootId || page.id,
+        activeLeafId: page.id,
+        nodes: { ...tree.nodes, [page.id]: node },
+      },
+    });
+  }
+
+  /**
+   * Cut the active branch back to `pageId` so another choice can grow from it.
+   * Later pages are parked off-path as a separate timeline; world state returns to
+   * what `pageId` was generated with and memory is dropped if it covers cut pages.
+   */
+  branchFrom(pageId: string): void {
+    const story = this.state.story;
+    const structure = story?.structure;
+    const index = structure?.pages.findIndex(p => p.id === pageId) ?? -1;
+    if (!story || !structure || index < 0) return;
+    if (structure.graph) {
+      const kept = structure.pages.slice(0, index + 1);
+      this.updateStory({ structure: { ...structure, pages: kept, backCover: backCoverForPath(structure, kept) } });
+      return;
+    }
+    const tree = ensureStoryTree(story);
+    const move = cutPathAt(structure, tree, pageId);
+    if (!move) return;
+    this.updateStory({
+      ...move,
+      state: tree.nodes[pageId]?.state,
+      memory: memoryForPages(story.memory, move.structure.pages),
+    });
+  }
+
+  /**
+   * Make the branch ending at `leafId` the active one: pages root → leaf move into
+   * StoryStructure.pages, everything else is parked off-path.
+   */
+  switchBranch(leafId: string): void {
+    const story = this.state.story;
+    const structure = story?.structure;
+    if (!story || !structure) return;
+    const tree = ensureStoryTree(story);
+    if (!tree.nodes[leafId]) return;
+    const move = switchPathTo(structure, tree, leafId);
+    if (!move) {
+      console.warn('[Story] Branch has missing pages, not switching', leafId);
+      return;
+    }
+    this.updateStory({
+      ...move,
+      state: tree.nodes[leafId]?.state,
+      memory: memoryForPages(story.memory, move.structure.pages),
+    });
+  }
+
+  /**
+   * Swap a page on the active branch for a rewritten one, keeping its place in the tree.
+   */
+  replacePage(pageId: string, replacement: StoryPage): void {
+    const story = this.state.story;
+    const structure = story?.structure;
+    if (!story || !structure) return;
+    const pages = structure.pages.map(p => (p.id === pageId ? replacement : p));
+    const tree = story.tree;
+    const node = tree?.nodes[pageId];
+    if (!tree || !node) {
+      this.updateStory({ structure: { ...structure, pages } });
+      return;
+    }
+    const nodes: Record<string, StoryTreeNode> = {};
+    Object.values(tree.nodes).forEach(n => {
+      if (n.pageId === pageId) {
+        nodes[replacement.id] = { ...n, pageId: replacement.id };
+      } else {
+        nodes[n.pageId] = n.parentId === pageId ? { ...n, parentId: replacement.id } : n;
+      }
+    });
+    const rekey = (id: string) => (id === pageId ? replacement.id : id);
+    this.updateStory({
+      structure: { ...structure, pages },
+      tree: { ...tree, rootId: rekey(tree.rootId), activeLeafId: rekey(tree.activeLeafId), nodes },
+    });
+  }
+
   clear(): void {
     this.setStory(null);
   }
@@ -191,6 +309,37 @@ let currentPageIndex = 0;
 let storyStartTime: number = Date.now();
 let bookContainer: HTMLElement | null = null;
 
+// Match the backend clips for typed player actions and reroll guidance
+const FREE_TEXT_MAX_CHARS = 200;
+const REROLL_GUIDANCE_MAX_CHARS = 160;
+
+/**
+ * Raised when the backend refuses a typed action; the message is shown to the reader.
+ */
+class FreeTextRejectedError extends Error {}
+
+/**
+ * UI string in the current story's language.
+ */
+function ui(key: UiStringKey, vars?: Record<string, string>): string {
+  return translate(key, store.getState().story?.configuration?.language, vars);
+}
+
+/**
+ * Raised when the backend's moderation refuses a request or page for the story's
+ * content rating (HTTP 422, code "content_rejected"); the message is shown to the reader.
+ */
+export class ContentRejectedError extends Error {}
+
+export async function readContentRejection(response: Response): Promise<ContentRejectedError | null> {
+  if (response.status !== 422) return null;
+  const body = (await response.json().catch(() => null)) as { error?: string; code?: string } | null;
+  if (body?.code !== 'content_rejected') return null;
+  // The backend explains in English; other languages get the generic message
+  const language = store.getState().story?.configuration?.language ?? 'en';
+  return new ContentRejectedError(language === 'en' && body.error ? body.error : ui('contentRejected'));
+}
+
 /**
  * Telemetry helpers
  */
@@ -250,6 +399,9 @@ let pageSourceNode: AudioBufferSourceNode | null = null;
 let pageGainNode: GainNode | null = null;
 let pageAudioFetchAborter: AbortController | null = null;
 let pageStopOnClickHandler: ((e: Event) => void) | null = null;
+// Read-along highlighting of the word being narrated
+let readAlongFrame: number | null = null;
+let readAlongActiveEl: HTMLElement | null = null;
 
 /**
  * Shared AudioContext unlock for reliable autoplay after user gesture
@@ -287,6 +439,31 @@ function setupAudioUnlock(): void {
   document.addEventListener('keydown', tryResume, true);
 }
 
+// Playback speeds offered to the reader
+const NARRATION_RATES = [0.75, 1, 1.25, 1.5];
+
+// The reader's narrator voice and speed, kept on the story
+function getNarrationPreferences(): NarrationPreferences {
+  return store.getState().story?.narration ?? {};
+}
+
+function getNarrationRate(): number {
+  const rate = getNarrationPreferences().rate;
+  return typeof rate === 'number' && rate >= 0.5 && rate <= 2 ? rate : 1;
+}
+
+// The cast with the reader's narrator in place of the genre's; speakers keep their voices
+function withPreferredNarrator(voices: StoryVoices): StoryVoices {
+  const voiceId = getNarrationPreferences().voiceId;
+  return voiceId ? { ...voices, narratorVoiceId: voiceId } : voices;
+}
+
+function applyNarrationRate(audio: HTMLAudioElement): void {
+  // The default survives switching `src` to the next segment
+  audio.defaultPlaybackRate = getNarrationRate();
+  audio.playbackRate = getNarrationRate();
+}
+
 function getStoryGenre(): string | undefined {
   try {
     const g = store.getState().story?.definition?.genre;
@@ -300,7 +477,7 @@ async function fetchSpeechObjectUrl(text: string, genre?: string, signal?: Abort
   const resp = await fetch('/api/speech/generate', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text, genre }),
+    body: JSON.stringify({ text, genre, language: store.getState().story?.configuration?.language, voiceId: getNarrationPreferences().voiceId }),
     signal,
   });
   if (!resp.ok) {
@@ -348,6 +525,7 @@ function stopCoverAudio(): void {
 
 function stopPageAudio(): void {
   try {
+    stopReadAlong();
     if (pageAudioFetchAborter) {
       try { pageAudioFetchAborter.abort(); } catch { /* ignore */ }
       pageAudioFetchAborter = null;
@@ -375,7 +553,7 @@ async function fetchSpeechArrayBuffer(text: string, genre?: string, signal?: Abo
   const resp = await fetch('/api/speech/generate', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text, genre }),
+    body: JSON.stringify({ text, genre, language: store.getState().story?.configuration?.language, voiceId: getNarrationPreferences().voiceId }),
     signal,
   });
   if (!resp.ok) {
@@ -385,6 +563,195 @@ async function fetchSpeechArrayBuffer(text: string, genre?: string, signal?: Abo
   return await resp.arrayBuffer();
 }
 
+// Character voices are cast once per story and kept on it, so speakers sound the same on every page
+let storyVoicesRequest: Promise<StoryVoices | null> | null = null;
+
+function ensureStoryVoices(): Promise<StoryVoices | null> {
+  const story = store.getState().story;
+  if (story?.voices) return Promise.resolve(story.voices);
+  if (!story?.definition) return Promise.resolve(null);
+  if (!storyVoicesRequest) {
+    storyVoicesRequest = fetch('/api/speech/cast', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ definition: story.definition, configuration: story.configuration, narratorVoiceId: story.narration?.voiceId }),
+    })
+      .then(async resp => {
+        if (!resp.ok) return null;
+        const voices = await resp.json() as StoryVoices;
+        if (store.getState().story?.id === story.id) store.updateStory({ voices });
+        return voices;
+      })
+      .catch(() => null)
+      .finally(() => { storyVoicesRequest = null; });
+  }
+  return storyVoicesRequest;
+}
+
+// Where the server keeps each page's narration once pre-rendered, by page id
+const pageAudioUrls = new Map<string, string>();
+
+function hasDialogue(page: StoryPage): boolean {
+  return Boolean(page.segments?.some(s => s.type === 'dialogue'));
+}
+
+// Request body shared by /prerender and /timed: multi-voice when the page has dialogue and a cast
+async function buildPageNarrationBody(page: StoryPage): Promise<Record<string, unknown>> {
+  const language = store.getState().story?.configuration?.language;
+  const voices = hasDialogue(page) ? await ensureStoryVoices() : null;
+  return voices
+    ? { page: { text: page.text, segments: page.segments }, voices: withPreferredNarrator(voices), language }
+    : { text: page.text.trim(), genre: getStoryGenre(), language, voiceId: getNarrationPreferences().voiceId };
+}
+
+/**
+ * Ask the server to render a page's narration in the background as soon as the page
+ * exists, so flipping to it plays at once. Multi-voice pages need the cast first.
+ */
+async function prerenderPageNarration(page: StoryPage | undefined): Promise<void> {
+  const text = (page?.text || '').trim();
+  if (!page || !text || pageAudioUrls.has(page.id)) return;
+  const body = await buildPageNarrationBody(page);
+  try {
+    const resp = await fetch('/api/speech/prerender', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!resp.ok) return;
+    const { url } = await resp.json() as { url?: string };
+    if (url) pageAudioUrls.set(page.id, url);
+  } catch {
+    // Narration is then rendered on demand when the page is shown
+  }
+}
+
+// Cached narration by the URL /prerender or /timed gave; content-addressed, so the browser keeps it
+async function fetchCachedSpeech(url: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const resp = await fetch(url, { signal });
+  if (!resp.ok) throw new Error(`Cached speech unavailable (${resp.status})`);
+  return await resp.arrayBuffer();
+}
+
+// The page's narration with the time each word is spoken, for read-along highlighting
+async function fetchTimedSpeech(page: StoryPage, signal?: AbortSignal): Promise<SpeechTimingManifest> {
+  const resp = await fetch('/api/speech/timed', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(await buildPageNarrationBody(page)),
+    signal,
+  });
+  if (!resp.ok) {
+    const errText = await resp.text().catch(() => '');
+    throw new Error(`Timed speech request failed (${resp.status}) ${errText}`);
+  }
+  return await resp.json() as SpeechTimingManifest;
+}
+
+/**
+ * Wrap every word of a page's text in a span, once. Speaker labels are not read aloud
+ * and stay unwrapped.
+ */
+function wrapReadAlongWords(pageEl: HTMLElement): HTMLElement[] {
+  const container = pageEl.querySelector<HTMLElement>('.story-text');
+  if (!container) return [];
+  if (!container.querySelector('.read-along-word')) {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    const textNodes: Text[] = [];
+    while (walker.nextNode()) {
+      const node = walker.currentNode as Text;
+      if (!node.parentElement?.closest('.speaker-label')) textNodes.push(node);
+    }
+    textNodes.forEach(node => {
+      const fragment = document.createDocumentFragment();
+      (node.textContent || '').split(/(\s+)/).forEach(part => {
+        if (!part) return;
+        if (/^\s+$/.test(part)) {
+          fragment.appendChild(document.createTextNode(part));
+          return;
+        }
+        const span = createElement('span', 'read-along-word');
+        span.textContent = part;
+        fragment.appendChild(span);
+      });
+      node.replaceWith(fragment);
+    });
+  }
+  return Array.from(container.querySelectorAll<HTMLElement>('.read-along-word'));
+}
+
+function normalizeReadAlongWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Pair timed words with the page's spans in reading order. The spoken text and the
+ * rendered text can differ slightly (quote marks, dropped labels), so a word may skip
+ * a few spans ahead to find its match; words without one are not highlighted.
+ */
+function matchReadAlongWords(words: WordTiming[], spans: HTMLElement[]): Array<HTMLElement | null> {
+  let cursor = 0;
+  return words.map(word => {
+    const target = normalizeReadAlongWord(word.text);
+    for (let j = cursor; j < Math.min(spans.length, cursor + 4); j += 1) {
+      if (normalizeReadAlongWord(spans[j].textContent || '') === target) {
+        cursor = j + 1;
+        return spans[j];
+      }
+    }
+    return null;
+  });
+}
+
+// Follow the AudioContext clock from `startedAt` (audio playing at `rate`) and highlight the word being spoken
+function startReadAlong(pageEl: HTMLElement, words: WordTiming[], ctx: AudioContext, startedAt: number, rate = 1): void {
+  stopReadAlong();
+  const targets = matchReadAlongWords(words, wrapReadAlongWords(pageEl));
+  if (!targets.some(Boolean)) return;
+  let index = 0;
+  const tick = () => {
+    const elapsed = (ctx.currentTime - startedAt) * rate;
+    while (index < words.length - 1 && words[index + 1].startTime <= elapsed) index += 1;
+    const word = words[index];
+    const el = word && elapsed >= word.startTime && elapsed < word.endTime + 0.25 ? targets[index] : null;
+    if (el !== readAlongActiveEl) {
+      readAlongActiveEl?.classList.remove('read-along-active');
+      el?.classList.add('read-along-active');
+      readAlongActiveEl = el ?? null;
+    }
+    readAlongFrame = window.requestAnimationFrame(tick);
+  };
+  readAlongFrame = window.requestAnimationFrame(tick);
+}
+
+function stopReadAlong(): void {
+  if (readAlongFrame !== null) {
+    window.cancelAnimationFrame(readAlongFrame);
+    readAlongFrame = null;
+  }
+  readAlongActiveEl?.classList.remove('read-along-active');
+  readAlongActiveEl = null;
+}
+
+// One stitched stream for the page: narrator on narration, each speaker's voice on their lines
+async function fetchPageSpeechArrayBuffer(page: StoryPage, voices: StoryVoices, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const resp = await fetch('/api/speech/page', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      page: { text: page.text, segments: page.segments },
+      voices: withPreferredNarrator(voices),
+      language: store.getState().story?.configuration?.language,
+    }),
+    signal,
+  });
+  if (!resp.ok) {
+    const errText = await resp.text().catch(() => '');
+    throw new Error(`Page speech request failed (${resp.status}) ${errText}`);
+  }
+  return await resp.arrayBuffer();
+}
+
 function scheduleCoverReadAloud(): void {
   if (coverAudioStarted) return;
   // Delay 1s after cover appears
@@ -417,6 +784,7 @@ function scheduleCoverReadAloud(): void {
       }
       let index = 0;
       coverAudio = new Audio(urls[index]);
+      applyNarrationRate(coverAudio);
       coverAudio.addEventListener('ended', () => {
         index += 1;
         if (!coverAudio) return;
@@ -457,6 +825,7 @@ function scheduleCoverReadAloud(): void {
             if (!coverAudio) {
               // If coverAudio was torn down for some reason, rebuild from urls
               coverAudio = new Audio(urls[0]);
+              applyNarrationRate(coverAudio);
               index = 0;
               coverAudio.addEventListener('ended', () => {
                 index += 1;
@@ -503,13 +872,49 @@ async function startPageNarrationForDomIndex(domIndex: number): Promise<void> {
     stopPageAudio();
     const genre = getStoryGenre();
     // Fetch speech and play via WebAudio for reliable playback
-    pageAudioFetchAborter = new AbortController();
-    const bufferData = await fetchSpeechArrayBuffer(text, genre, pageAudioFetchAborter.signal);
+    const aborter = new AbortController();
+    pageAudioFetchAborter = aborter;
+    let bufferData: ArrayBuffer | null = null;
+    let words: WordTiming[] = [];
+    // Timed narration first, for read-along; then plain audio in the voices available
+    const manifest = page
+      ? await fetchTimedSpeech(page, aborter.signal).catch(err => {
+        if (aborter.signal.aborted) throw err;
+        return null;
+      })
+      : null;
+    if (manifest) {
+      bufferData = await fetchCachedSpeech(manifest.audioUrl, aborter.signal).catch(err => {
+        if (aborter.signal.aborted) throw err;
+        return null;
+      });
+      if (bufferData) words = manifest.words;
+    }
+    const prerendered = page ? pageAudioUrls.get(page.id) : undefined;
+    if (!bufferData && prerendered) {
+      bufferData = await fetchCachedSpeech(prerendered, aborter.signal).catch(err => {
+        if (aborter.signal.aborted) throw err;
+        return null;
+      });
+    }
+    if (!bufferData && page && hasDialogue(page)) {
+      const voices = await ensureStoryVoices();
+      if (aborter.signal.aborted) return;
+      if (voices) {
+        bufferData = await fetchPageSpeechArrayBuffer(page, voices, aborter.signal).catch(err => {
+          if (aborter.signal.aborted) throw err;
+          return null; // fall back to the single narrator voice
+        });
+      }
+    }
+    bufferData ??= await fetchSpeechArrayBuffer(text, genre, aborter.signal);
     const ctx = getAudioContext();
     const audioBuffer = await ctx.decodeAudioData(bufferData.slice(0));
     // Build graph: BufferSource -> Gain -> Destination
     pageSourceNode = ctx.createBufferSource();
     pageSourceNode.buffer = audioBuffer;
+    const rate = getNarrationRate();
+    pageSourceNode.playbackRate.value = rate;
     pageGainNode = ctx.createGain();
     pageGainNode.gain.value = 1.0;
     pageSourceNode.connect(pageGainNode);
@@ -524,7 +929,10 @@ async function startPageNarrationForDomIndex(domIndex: number): Promise<void> {
     if (ctx.state !== 'running') {
       try { await ctx.resume(); } catch { /* ignore */ }
     }
-    pageSourceNode.start(0);
+    const startedAt = ctx.currentTime;
+    pageSourceNode.start(startedAt);
+    const pageEl = getPages()[domIndex];
+    if (pageEl && words.length > 0) startReadAlong(pageEl, words, ctx, startedAt, rate);
   } catch {
     stopPageAudio();
   }
@@ -565,7 +973,9 @@ function setCoverDetails(metadata: { author?: string; createdAt?: string }): voi
 
   const resolvedAuthor = metadata.author?.trim() || 'You';
   if (coverAuthor) {
-    coverAuthor.textContent = `Written by ${resolvedAuthor === 'You (Story Creator)' ? 'You' : resolvedAuthor}`;
+    coverAuthor.textContent = resolvedAuthor === 'You' || resolvedAuthor === 'You (Story Creator)'
+      ? ui('writtenByYou')
+      : `${ui('writtenBy')} ${resolvedAuthor}`;
   }
 
   if (coverPublishDate) {
@@ -599,14 +1009,14 @@ function loadStoryMetadata(): void {
       sourceInput ||
       coverTitleElement?.textContent?.trim() ||
       existingMetadata?.title ||
-      'An Untitled Story';
+      ui('untitledStory');
 
     const resolvedSubtitle =
       story?.definition?.tagline?.trim() ||
       story?.structure?.frontCover?.tagline ||
       coverSubtitleElement?.textContent?.trim() ||
       existingMetadata?.subtitle ||
-      'An AI Generated Adventure';
+      ui('aiAdventure');
 
     const imgFromStructure = story?.structure?.frontCover?.image;
     const imgFromDefinition = story?.definition?.image;
@@ -720,7 +1130,7 @@ async function setupBackCover(): Promise<void> {
           if (existingOverlay) {
             try { removeInlineLoadingOverlay(existingOverlay); } catch { /* ignore */ }
           }
-          const artOverlay = createInlineLoadingOverlay('Generating cover art...');
+          const artOverlay = createInlineLoadingOverlay(ui('generatingCoverArt'));
           try {
             await maybeGenerateBackCoverImageIfMissing();
           } finally {
@@ -754,7 +1164,7 @@ async function setupBackCover(): Promise<void> {
       // Set back cover book title
       const backCoverTitle = document.getElementById('backBookTitle');
       if (backCoverTitle) {
-        const fallbackTitle = input?.trim() || 'An Untitled Story';
+        const fallbackTitle = input?.trim() || ui('untitledStory');
         const resolvedTitle =
           metadata?.title?.trim() ||
           story?.definition?.title?.trim() ||
@@ -820,7 +1230,12 @@ function createElement<K extends keyof HTMLElementTagNameMap>(tag: K, className?
   return el;
 }
 
-function createParagraphs(text: string): HTMLElement {
+/**
+ * Page prose as paragraphs. With `segments`, speech is set apart and labelled with its
+ * speaker's name from the definition; narration keeps its paragraph breaks.
+ */
+function createParagraphs(text: string, segments?: StorySegment[]): HTMLElement {
+  if (segments?.some(s => s.type === 'dialogue')) return createSegmentParagraphs(segments);
   const container = createElement('div', 'story-text');
   const paragraphs = text.split(/\n{2,}/).map(t => t.trim()).filter(Boolean);
   if (paragraphs.length === 0) {
@@ -837,6 +1252,35 @@ function createParagraphs(text: string): HTMLElement {
   return container;
 }
 
+function createSegmentParagraphs(segments: StorySegment[]): HTMLElement {
+  const container = createElement('div', 'story-text');
+  const definition = store.getState().story?.definition;
+  const characters = [definition?.protagonist, definition?.antagonist, ...(definition?.supportingCast ?? [])];
+  segments.forEach(segment => {
+    if (segment.type === 'narration') {
+      segment.text.split(/\n{2,}/).map(t => t.trim()).filter(Boolean).forEach(t => {
+        const p = document.createElement('p');
+        p.textContent = t;
+        container.appendChild(p);
+      });
+      return;
+    }
+    const p = createElement('p', 'story-dialogue');
+    p.dataset.speakerId = segment.speakerId;
+    const speaker = characters.find(c => c?.id === segment.speakerId);
+    if (speaker?.name) {
+      const label = createElement('span', 'speaker-label');
+      label.textContent = speaker.name;
+      p.appendChild(label);
+    }
+    const line = createElement('span', 'dialogue-text');
+    line.textContent = `“${segment.text}”`;
+    p.appendChild(line);
+    container.appendChild(p);
+  });
+  return container;
+}
+
 function buildCoverElement(frontCover?: FrontCover): HTMLElement {
   const page = createElement('div', 'page active') as HTMLElement;
   page.id = 'coverPage';
@@ -854,20 +1298,37 @@ function buildCoverElement(frontCover?: FrontCover): HTMLElement {
   const content = createElement('div', 'cover-content');
   const title = createElement('h1', 'book-title');
   title.id = 'coverTitle';
-  title.textContent = frontCover?.title || 'An Untitled Story';
+  title.textContent = frontCover?.title || ui('untitledStory');
   const subtitle = createElement('div', 'cover-subtitle');
   subtitle.id = 'coverSubtitle';
-  subtitle.textContent = frontCover?.tagline || 'An AI Generated Adventure';
+  subtitle.textContent = frontCover?.tagline || ui('aiAdventure');
   const tap = createElement('div', 'tap-hint');
-  tap.textContent = 'Tap to Continue';
+  tap.textContent = ui('tapToContinue');
   content.appendChild(title);
   content.appendChild(subtitle);
+  // Later parts of a series open with their part number and a "Previously…" recap
+  const series = store.getState().story?.series;
+  if (series && series.part > 1) {
+    const part = createElement('div', 'cover-series-part');
+    part.textContent = ui('partOf', { part: String(series.part) });
+    content.insertBefore(part, title);
+    if (series.recap) {
+      const recap = createElement('div', 'cover-recap');
+      const heading = createElement('div', 'cover-recap-title');
+      heading.textContent = ui('previously');
+      const text = createElement('p', 'cover-recap-text');
+      text.textContent = series.recap;
+      recap.appendChild(heading);
+      recap.appendChild(text);
+      content.appendChild(recap);
+    }
+  }
   content.appendChild(tap);
 
   const footer = createElement('div', 'cover-footer');
   const author = createElement('div', 'cover-author');
   author.id = 'coverAuthor';
-  author.textContent = 'Written by You';
+  author.textContent = ui('writtenByYou');
   const publish = createElement('div', 'cover-publish-date');
   publish.id = 'coverPublishDate';
   publish.textContent = '';
@@ -890,9 +1351,62 @@ function renderOptionButton(option: OptionObject, isLast: boolean = false): HTML
   const span = createElement('span', 'option-text');
   span.textContent = option.text;
   btn.appendChild(span);
+  // Gamebook rules: locked options are greyed out (or hidden) against the current world state
+  if (!meetsRequirements(option.requires, store.getState().story?.state)) {
+    btn.classList.add('locked');
+    btn.disabled = true;
+    btn.title = describeRequirements(option.requires ?? []);
+    if (option.whenLocked === 'hide') {
+      btn.hidden = true;
+    }
+  }
   return btn;
 }
 
+/**
+ * "Write your own action" input. The submit button is a regular .story-option so it
+ * shares the click handling; the typed text is read back in handleOptionClick.
+ */
+function renderFreeTextOption(option: OptionObject): HTMLElement {
+  const form = createElement('form', 'story-option-freetext');
+  const input = createElement('input', 'freetext-input');
+  input.type = 'text';
+  input.maxLength = FREE_TEXT_MAX_CHARS;
+  input.placeholder = option.action.type === 'freeText' && option.action.placeholder ? option.action.placeholder : ui('freeTextPlaceholder');
+  input.setAttribute('aria-label', option.text);
+  const btn = renderOptionButton(option);
+  btn.type = 'submit';
+  const label = btn.querySelector('.option-text');
+  if (label) label.textContent = ui('tryIt');
+  btn.dataset.freeText = 'true';
+  form.appendChild(input);
+  form.appendChild(btn);
+  return form;
+}
+
+// Gamebook rules
+
+function createEmptyStoryState(): StoryState {
+  return { location: '', timeOfDay: '', inventory: [], characters: [], facts: [], flags: {}, stats: {} };
+}
+
+function describeRequirements(requires: OptionRequirement[]): string {
+  const parts = requires.map(r => {
+    switch (r.type) {
+      case 'flag':
+        return r.value === false ? `not ${r.flag.replace(/-/g, ' ')}` : r.flag.replace(/-/g, ' ');
+      case 'item':
+        return r.present === false ? `without ${r.item}` : r.item;
+      case 'stat':
+        if (r.min !== undefined && r.max !== undefined) return `${r.stat} ${r.min}–${r.max}`;
+        return r.min !== undefined ? `${r.stat} ≥ ${r.min}` : `${r.stat} ≤ ${r.max}`;
+      default:
+        return '';
+    }
+  }).filter(Boolean);
+  return parts.length ? ui('requires', { list: parts.join(', ') }) : ui('locked');
+}
+
 function buildBranchConversation(branchOptions: OptionObject[], isFinal: boolean, branchText?: string): HTMLElement {
   const response = createElement('div', 'conversation-response hidden');
   const divider = createElement('div', 'response-divider');
@@ -916,27 +1430,29 @@ function buildBranchConversation(branchOptions: OptionObject[], isFinal: boolean
 function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLElement {
   const page = createElement('div', 'page') as HTMLElement;
   page.dataset.page = 'story';
+  page.dataset.pageId = pageData.id;
   if (isFinal) page.dataset.isFinal = 'true';
 
   // Infer page type
   const hasBranch = pageData.options.some(o => (o.action as unknown as { type?: string })?.type === 'branch');
+  const choiceCount = pageData.options.filter(o => o.action?.type !== 'freeText').length;
   const pageType = hasBranch
     ? 'conversation'
-    : (pageData.options.length === 1 ? 'single-option' : 'multiple-options');
+    : (choiceCount === 1 ? 'single-option' : 'multiple-options');
   page.dataset.pageType = pageType;
 
   const pageContent = createElement('div', 'page-content');
   const storyContent = createElement('div', 'story-content');
 
   // Text
-  storyContent.appendChild(createParagraphs(pageData.text));
+  storyContent.appendChild(createParagraphs(pageData.text, pageData.segments));
 
   // Image
   const resolvedSrc = pageData.image?.dataUrl || pageData.image?.url;
   {
     const imageWrap = createElement('div', 'story-image');
     const img = document.createElement('img');
-    img.alt = pageData.image?.alt || 'Story scene';
+    img.alt = pageData.image?.alt || ui('storyScene');
     img.loading = 'lazy';
     img.setAttribute('decoding', 'async');
     imageWrap.appendChild(img);
@@ -993,7 +1509,7 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
   if (pageData.options?.length) {
     const optionsWrap = createElement('div', 'story-options');
     pageData.options.forEach(opt => {
-      optionsWrap.appendChild(renderOptionButton(opt, isFinal));
+      optionsWrap.appendChild(opt.action?.type === 'freeText' ? renderFreeTextOption(opt) : renderOptionButton(opt, isFinal));
     });
     storyContent.appendChild(optionsWrap);
 
@@ -1009,6 +1525,8 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
     }
   }
 
+  pageContent.appendChild(buildRerollControl(pageData.id));
+  pageContent.appendChild(buildBackControl(pageData.id));
   pageContent.appendChild(storyContent);
   page.appendChild(pageContent);
 
@@ -1028,7 +1546,7 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
     h1.id = 'backBookTitle';
     h1.textContent = '';
     const h2 = createElement('h2', 'summary-title');
-    h2.textContent = 'Summary';
+    h2.textContent = ui('summary');
     const p = createElement('p', 'summary-text');
     p.id = 'storySummary';
     summary.appendChild(h1);
@@ -1038,7 +1556,7 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
     const metadataWrap = createElement('div', 'book-metadata');
     const authorSection = createElement('div', 'metadata-section');
     const authorLabel = createElement('div', 'metadata-label');
-    authorLabel.textContent = 'Written by';
+    authorLabel.textContent = ui('writtenBy');
     const authorValue = createElement('div', 'metadata-value');
     authorValue.id = 'backCoverAuthorValue';
     const primaryAuthor = createElement('div', 'author-line');
@@ -1050,7 +1568,7 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
 
     const pubSection = createElement('div', 'metadata-section');
     const pubLabel = createElement('div', 'metadata-label');
-    pubLabel.textContent = 'Published';
+    pubLabel.textContent = ui('published');
     const pubValue = createElement('div', 'metadata-value');
     pubValue.id = 'publishDate';
     pubSection.appendChild(pubLabel);
@@ -1058,7 +1576,7 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
 
     const publisherSection = createElement('div', 'metadata-section');
     const publisherLabel = createElement('div', 'metadata-label');
-    publisherLabel.textContent = 'Publisher';
+    publisherLabel.textContent = ui('publisher');
     const publisherValue = createElement('div', 'metadata-value');
     publisherValue.textContent = 'Story Untold';
     publisherSection.appendChild(publisherLabel);
@@ -1071,6 +1589,17 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
     bcContent.appendChild(summary);
     bcContent.appendChild(metadataWrap);
 
+    const sagaButton = createElement('button', 'continue-saga-btn') as HTMLButtonElement;
+    sagaButton.type = 'button';
+    sagaButton.id = 'continueSagaButton';
+    sagaButton.textContent = ui('continueSaga');
+    sagaButton.addEventListener('click', (event) => {
+      // The back cover flips on click; the button must not
+      event.stopPropagation();
+      void continueSaga(sagaButton);
+    });
+    bcContent.appendChild(sagaButton);
+
     bc.appendChild(bcContent);
     back.appendChild(bc);
     page.appendChild(back);
@@ -1080,8 +1609,8 @@ function buildStoryPageElement(pageData: StoryPage, isFinal: boolean): HTMLEleme
 }
 
 function buildDefaultStructure(): StoryStructure {
-  let title = store.getState().story?.definition?.title?.trim() || 'An Untitled Story';
-  let tagline = store.getState().story?.definition?.tagline?.trim() || 'An AI Generated Adventure';
+  let title = store.getState().story?.definition?.title?.trim() || ui('untitledStory');
+  let tagline = store.getState().story?.definition?.tagline?.trim() || ui('aiAdventure');
   const defImage = store.getState().story?.definition?.image;
   return {
     frontCover: {
@@ -1127,10 +1656,18 @@ function buildStoryFromStore(): void {
   const total = structure.pages.length;
   const hasBackCover = Boolean((structure as unknown as { backCover?: unknown }).backCover);
   structure.pages.forEach((p, idx) => {
-    const isFinal = idx === total - 1 && hasBackCover;
+    const isFinal = story?.structure ? isFinalStoryPage(p, idx) : idx === total - 1 && hasBackCover;
     const el = buildStoryPageElement(p, isFinal);
     bookContainer!.appendChild(el);
   });
+  refreshPageControls();
+}
+
+// The last page allowed by the length policy (or a graph ending) closes the book
+function isFinalStoryPage(page: StoryPage, dataIndex: number): boolean {
+  const story = store.getState().story;
+  if (story?.structure?.graph) return isGraphEnding(page);
+  return dataIndex >= getPagePolicy(story?.configuration?.length).maxPages - 1;
 }
 
 function attachOptionHandlers(root: Document | HTMLElement = document): void {
@@ -1145,6 +1682,8 @@ function attachOptionHandlers(root: Document | HTMLElement = document): void {
 }
 
 function initializeStoryPage(): void {
+  // Static controls and <html lang> follow the story language
+  applyUiLanguage(store.getState().story?.configuration?.language);
   // Build DOM from store/structure first
   prefillImageCacheFromStore();
   buildStoryFromStore();
@@ -1169,6 +1708,7 @@ function initializeStoryPage(): void {
       console.warn('Opening page generation failed on story page:', err);
     })
     .finally(() => {
+      void prerenderPageNarration(store.getState().story?.structure?.pages?.[0]);
       // After attempting opening scene, generate cover art if missing
       maybeGenerateCoverImageIfMissing().catch(err => {
         console.warn('Cover image generation failed:', err);
@@ -1225,6 +1765,16 @@ function initializeStoryPage(): void {
   if (newStoryButton) {
     newStoryButton.addEventListener('click', startNewStory);
   }
+  // Timelines button: switch between branches of the choice tree
+  const timelinesButton = document.getElementById('timelinesButton');
+  if (timelinesButton) {
+    timelinesButton.addEventListener('click', toggleTimelinePanel);
+  }
+  // Narration button: narrator voice and playback speed
+  const narrationButton = document.getElementById('narrationButton');
+  if (narrationButton) {
+    narrationButton.addEventListener('click', () => { void toggleNarrationPanel(); });
+  }
 }
 
 function isStoryPage(): boolean {
@@ -1240,9 +1790,26 @@ async function maybeFetchOpeningPageIfMissing(): Promise<void> {
   const hasDefinition = Boolean(current?.definition);
   if (hasAnyPage || !hasDefinition) return;
 
-  const overlay = createInlineLoadingOverlay('Generating opening scene...');
+  const overlay = createInlineLoadingOverlay(ui('generatingOpeningScene'));
   try {
-    const firstPage = await fetchFirstStoryPage(current!.definition!);
+    let graph: StoryGraph | undefined;
+    let firstPage: StoryPage;
+    if (current!.configuration?.mode === 'graph') {
+      graph = await fetchStoryGraph(current!.definition!);
+      const start = findGraphNode(graph, graph.startPageId);
+      if (!start) throw new Error('Story graph has no start page');
+      firstPage = start;
+    } else {
+      // A sequel arrives with only a definition; plan its beats like a new story
+      if (!current!.outline) {
+        try {
+          store.updateStory({ outline: await fetchStoryOutline(current!.definition!) });
+        } catch (error) {
+          console.warn('Story outline not available, continuing without it:', error);
+        }
+      }
+      firstPage = await fetchFirstStoryPage(current!.definition!);
+    }
     // Build/update minimal structure
     const frontCover: FrontCover = {
       title: current!.definition!.title,
@@ -1251,7 +1818,7 @@ async function maybeFetchOpeningPageIfMissing(): Promise<void> {
     };
     const existingPages = current!.structure?.pages ?? [];
     store.updateStory({
-      structure: ({ frontCover, pages: existingPages.length > 0 ? existingPages : [firstPage] } as unknown as StoryStructure),
+      structure: ({ frontCover, pages: existingPages.length > 0 ? existingPages : [firstPage], graph } as unknown as StoryStructure),
     });
     // Rebuild the DOM with new data
     buildStoryFromStore();
@@ -1267,15 +1834,31 @@ async function maybeFetchOpeningPageIfMissing(): Promise<void> {
   }
 }
 
+/**
+ * Plan the per-page beat sheet of a stepwise story; sent back with each step
+ */
+export async function fetchStoryOutline(definition: StoryDefinition): Promise<StoryOutline> {
+  const cfg = store.getState().story?.configuration;
+  const response = await fetch('/api/story/outline', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ definition, configuration: cfg }),
+  });
+  if (!response.ok) {
+    throw (await readContentRejection(response)) ?? new Error(`Story outline request failed (${response.status})`);
+  }
+  return (await response.json()) as StoryOutline;
+}
+
 async function fetchFirstStoryPage(definition: StoryDefinition): Promise<StoryPage> {
   const cfg = store.getState().story?.configuration;
   const response = await fetch('/api/story/step', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ definition, stepIndex: 0, configuration: cfg }),
+    body: JSON.stringify({ definition, stepIndex: 0, configuration: cfg, outline: store.getState().story?.outline ?? null }),
   });
   if (!response.ok) {
-    throw new Error(`Story page request failed (${response.status})`);
+    throw (await readContentRejection(response)) ?? new Error(`Story page request failed (${response.status})`);
   }
   const data = (await response.json()) as StoryPage;
   return data;
@@ -1358,7 +1941,7 @@ async function maybeGenerateCoverImageIfMissing(): Promise<void> {
     buildCoverPromptFromDefinition(definition);
   if (!prompt || prompt.length === 0) return;
 
-  const overlay = createInlineLoadingOverlay('Generating cover art...');
+  const overlay = createInlineLoadingOverlay(ui('generatingCoverArt'));
   try {
     const resp = await fetch('/api/story/cover-image', {
       method: 'POST',
@@ -1405,7 +1988,7 @@ async function maybeGenerateCoverImageIfMissing(): Promise<void> {
     // Refresh metadata so the UI footer shows correct publish date etc
     loadStoryMetadata();
   } catch (err) {
-    setOverlayError(overlay, 'Failed to generate cover art.');
+    setOverlayError(overlay, ui('coverArtFailed'));
     await delay(900);
     throw err;
   } finally {
@@ -1570,7 +2153,7 @@ async function maybeGeneratePageImageIfMissing(pageIndex: number, imageWrapEl?:
   if (pageIndex < 0 || pageIndex >= pages.length) return;
   const page = pages[pageIndex];
   const existing = page?.image?.dataUrl || page?.image?.url;
-  const alt = page?.image?.alt || 'Story scene';
+  const alt = page?.image?.alt || ui('storyScene');
   const cacheKey = getPageKeyById(page.id);
   // Serve from cache when available
   const cached = getCachedImageDataUrl(cacheKey);
@@ -2064,6 +2647,8 @@ function flipToNextPage(): void {
   // Stop any ongoing narration before flipping
   stopCoverAudio();
   stopPageAudio();
+  // Speculative pages belong to the page being left
+  cancelPrefetches();
   console.log('Flipping to next page');
   const pagesNow = getPages();
   if (currentPageIndex >= pagesNow.length - 1) {
@@ -2095,6 +2680,8 @@ function flipToNextPage(): void {
     void startPageNarrationForDomIndex(nextDomIndex);
     
     currentPageIndex++;
+    // Start generating the next page for each visible option
+    schedulePrefetchForCurrentPage();
     // Telemetry: track page flip to data page index
     try {
       const dataIndex = mapDomToDataIndex(currentPageIndex);
@@ -2110,7 +2697,7 @@ function flipToNextPage(): void {
 /**
  * Generate the next story page for a selected option, append it, then flip
  */
-async function generateNextPageAndFlip(selectedOptionId: string, inlineOverlay?: HTMLElement): Promise<void> {
+async function generateNextPageAndFlip(selectedOptionId: string, inlineOverlay?: HTMLElement, typedAction?: string): Promise<void> {
   console.log('Generating next page and flipping');
   const story = store.getState().story;
   const definition = story?.definition;
@@ -2149,6 +2736,15 @@ async function generateNextPageAndFlip(selectedOptionId: string, inlineOverlay?:
     console.log('No selected option found in current page or branch options');
     throw new Error('Selected option not found on current page');
   }
+  // A typed action replaces the input placeholder with a one-off option carrying the reader's words
+  if (selectedOption.action?.type === 'freeText') {
+    if (!typedAction) throw new Error('Free-text option submitted without text');
+    selectedOption = {
+      id: `free-${Date.now().toString(36)}`,
+      text: typedAction,
+      action: { type: 'freeText' },
+    };
+  }
 
   // Track the user's selection for telemetry
   try {
@@ -2165,32 +2761,71 @@ async function generateNextPageAndFlip(selectedOptionId: string, inlineOverlay?:
     // ignore telemetry failure
   }
 
-  const overlay = inlineOverlay || createInlineLoadingOverlay('Generating next page...');
-  const nextIndex = currentPages.length; // next page is appended
-  const nextPage = await fetchNextStoryPage(definition, selectedOption, nextIndex);
+  // Choosing on an earlier page: revisit a choice made before, or branch off a new timeline
+  const snapshot = story;
+  if (dataPageIndex < currentPages.length - 1) {
+    const explored = structure.graph ? undefined : findExploredChoice(ensureStoryTree(story), currentPage.id, selectedOption.id);
+    if (explored) {
+      store.switchBranch(findLatestLeaf(ensureStoryTree(story), explored.pageId));
+      rebuildBookAtDataIndex(dataPageIndex);
+      flipToNextPage();
+      return;
+    }
+    store.branchFrom(currentPage.id);
+  }
+
+  const nextIndex = dataPageIndex + 1; // next page is appended
+  let nextPage: StoryPage;
+  let nextState: StoryState | null = null;
+  try {
+    if (selectedOption.action?.type === 'goToPage') {
+      // Graph mode: follow the edge to a page that already exists
+      const node = findGraphNode(structure.graph, selectedOption.action.pageId);
+      if (!node) throw new Error(`Graph page ${selectedOption.action.pageId} not found`);
+      nextPage = node;
+    } else {
+      // Use the speculative result for this option when there is one; drop the rest
+      const prefetched = takePrefetchedPage(currentPage.id, selectedOption.id);
+      let result = prefetched ? await prefetched.catch(() => null) : null;
+      if (!result) {
+        // Callers skip the loader when a prefetch looked ready; show one if we fell back after all
+        const ownOverlay = inlineOverlay ? null : createInlineLoadingOverlay(ui('generatingNextPage'));
+        try {
+          result = await requestNextPage(definition, currentPage, dataPageIndex, selectedOption);
+        } finally {
+          removeInlineLoadingOverlay(ownOverlay);
+        }
+      }
+      nextState = result.state;
+      nextPage = result.page;
+    }
+  } catch (err) {
+    // Keep the timeline the reader was on if the new branch could not be started
+    if (store.getState().story !== snapshot) store.setStory(snapshot);
+    throw err;
+  }
   // Persist to store
-  const updatedPages = currentPages.concat(nextPage);
-  store.updateStory({
-    structure: {
-      frontCover: structure.frontCover,
-      pages: updatedPages,
-    } as StoryStructure,
-  });
+  store.appendPage(nextPage, { parentId: currentPage.id, chosenOption: selectedOption, state: nextState });
+  void prerenderPageNarration(nextPage);
+  const branched = nextIndex < currentPages.length;
   // Track page generation
   trackStorylineEvent('pageGenerated', { pageId: nextPage.id, pageIndex: nextIndex });
+  // Fold older pages into the rolling memory in the background (stepwise only)
+  if (!structure.graph) void refreshStoryMemory();
   // Append to DOM and prepare for flip
   if (!bookContainer) {
     bookContainer = document.querySelector<HTMLElement>('.book-container');
   }
-  if (bookContainer) {
+  if (branched) {
+    // The old timeline's later pages are still in the DOM; rebuild along the new path
+    rebuildBookAtDataIndex(dataPageIndex);
+  } else if (bookContainer) {
     // Determine if the appended page should be the final page based on configuration
-    const cfg = store.getState().story?.configuration;
-    const policy = getPagePolicy(cfg?.length);
-    const isFinalNext = nextIndex >= (policy.maxPages - 1);
-    const el = buildStoryPageElement(nextPage, isFinalNext);
+    const el = buildStoryPageElement(nextPage, isFinalStoryPage(nextPage, nextIndex));
     bookContainer.appendChild(el);
     // Attach handlers on newly added buttons
     attachOptionHandlers(el);
+    refreshPageControls();
     // Begin loading the new page's image in the background
     const domIndex = getPages().length - 1;
     ensureDomPageImageLoaded(el as HTMLElement, domIndex).catch(() => {});
@@ -2199,23 +2834,728 @@ async function generateNextPageAndFlip(selectedOptionId: string, inlineOverlay?:
   flipToNextPage();
 }
 
+// Reroll
+
+/**
+ * "Rewrite this page" control: a toggle that reveals an optional guidance field.
+ * Shown on stepwise story pages that can be rewritten (see refreshPageControls).
+ */
+function buildRerollControl(pageId: string): HTMLElement {
+  const wrap = createElement('div', 'page-reroll');
+  const toggle = createElement('button', 'reroll-toggle');
+  toggle.type = 'button';
+  toggle.textContent = '↻';
+  toggle.title = ui('rewriteThisPage');
+  toggle.setAttribute('aria-label', ui('rewriteThisPage'));
+  const form = createElement('form', 'reroll-form hidden');
+  const input = createElement('input', 'reroll-guidance');
+  input.type = 'text';
+  input.maxLength = REROLL_GUIDANCE_MAX_CHARS;
+  input.placeholder = ui('rewritePlaceholder');
+  const submit = createElement('button', 'reroll-submit');
+  submit.type = 'submit';
+  submit.textContent = ui('rewrite');
+  form.appendChild(input);
+  form.appendChild(submit);
+  wrap.appendChild(toggle);
+  wrap.appendChild(form);
+
+  toggle.addEventListener('click', (event) => {
+    event.stopPropagation();
+    form.classList.toggle('hidden');
+    if (!form.classList.contains('hidden')) input.focus();
+  });
+  form.addEventListener('submit', async (event) => {
+    event.preventDefault();
+    event.stopPropagation();
+    toggle.disabled = true;
+    submit.disabled = true;
+    try {
+      await regenerateStoryPage(pageId, input.value.trim());
+    } finally {
+      // On success the page element is replaced; these only matter after a failure
+      toggle.disabled = false;
+      submit.disabled = false;
+    }
+  });
+  return wrap;
+}
+
+/**
+ * Per-page controls that depend on where the page sits on the active path:
+ * - reroll on the newest page, and on earlier pages but the first: rewriting an
+ *   earlier page starts a new timeline from it (the later pages were written from
+ *   the old draft). The opening page is the root of the choice tree and has no
+ *   sibling to branch into, so it is only rewritten while it is the only page.
+ * - back on every page but the first
+ * - on earlier pages, the option that leads on along the active path is marked
+ */
+function refreshPageControls(): void {
+  const story = store.getState().story;
+  const structure = story?.structure;
+  const pages = structure?.pages ?? [];
+  const path = buildStoryPath(pages.slice(0, -1));
+  document.querySelectorAll<HTMLElement>('.page[data-page="story"]').forEach(pageEl => {
+    const index = pages.findIndex(p => p.id === pageEl.dataset.pageId);
+    const control = pageEl.querySelector<HTMLElement>('.page-reroll');
+    if (control) {
+      const enabled = !structure?.graph && index >= 0 && (index > 0 || pages.length === 1);
+      control.hidden = !enabled;
+      if (!enabled) control.querySelector('.reroll-form')?.classList.add('hidden');
+    }
+    const back = pageEl.querySelector<HTMLElement>('.page-back');
+    if (back) back.hidden = index <= 0;
+    const chosenId = index >= 0 ? path[index]?.chosenOption?.id : undefined;
+    pageEl.querySelectorAll<HTMLElement>('.story-option').forEach(btn => {
+      btn.classList.toggle('previously-chosen', Boolean(chosenId) && btn.dataset.option === chosenId);
+    });
+  });
+  const timelinesButton = document.getElementById('timelinesButton') as HTMLButtonElement | null;
+  if (timelinesButton) {
+    timelinesButton.disabled = !story?.tree || getTimelineLeaves(story.tree).length < 2;
+  }
+}
+
+/**
+ * The option the reader picked on `page`, rebuilt from telemetry. Typed actions
+ * are not on the page, so they come back as a freeText option.
+ */
+function resolveChosenOption(page: StoryPage): OptionObject | undefined {
+  const chosen = buildStoryPath([page])[0]?.chosenOption;
+  if (!chosen) return undefined;
+  for (const option of page.options) {
+    if (option.id === chosen.id) return option;
+    if (option.action?.type === 'branch') {
+      const nested = option.action.options.find(o => o.id === chosen.id);
+      if (nested) return nested;
+    }
+  }
+  return { id: chosen.id, text: chosen.text, action: { type: 'freeText' } };
+}
+
+/**
+ * Replace a page with a fresh draft from /api/story/regenerate, in the store and
+ * in the DOM. The newest page is swapped in place; an earlier one becomes a new
+ * timeline branching from the page before it, and the old draft with the pages
+ * that followed it stays reachable from the timelines panel.
+ */
+async function regenerateStoryPage(pageId: string, guidance: string): Promise<void> {
+  const story = store.getState().story;
+  const definition = story?.definition;
+  const structure = story?.structure;
+  const pages = structure?.pages ?? [];
+  const index = pages.findIndex(p => p.id === pageId);
+  const rejected = pages[index];
+  const earlier = index < pages.length - 1;
+  if (!definition || !structure || structure.graph || !rejected || (earlier && index === 0)) return;
+
+  stopPageAudio();
+  cancelPrefetches();
+  const overlay = createInlineLoadingOverlay(ui('rewritingPage'));
+  try {
+    const previous = index > 0 ? pages[index - 1] : undefined;
+    const previousOption = previous ? resolveChosenOption(previous) : undefined;
+    // The world state and memory the rejected page was written with, not the ones later pages left behind
+    const state = ensureStoryTree(story).nodes[rejected.id]?.state ?? story.state ?? null;
+    const response = await fetch('/api/story/regenerate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        definition,
+        previousOption,
+        stepIndex: index,
+        path: buildStoryPath(pages.slice(0, index)),
+        memory: memoryForPages(story.memory, pages.slice(0, index)) ?? null,
+        state,
+        outline: story?.outline ?? null,
+        configuration: story?.configuration,
+        rejectedPage: { id: rejected.id, text: rejected.text, options: rejected.options },
+        guidance: guidance || undefined,
+      }),
+    });
+    if (!response.ok) {
+      const rejection = await readContentRejection(response);
+      if (rejection) throw rejection;
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(response.status === 400 && body?.error ? body.error : ui('rewriteFailed'));
+    }
+    const replacement = (await response.json()) as StoryPage;
+
+    if (earlier && previous) {
+      store.branchFrom(previous.id);
+      store.appendPage(replacement, { parentId: previous.id, chosenOption: previousOption, state });
+      void prerenderPageNarration(replacement);
+      trackStorylineEvent('pageRegenerated', { pageId: replacement.id, pageIndex: index, note: `Branched from ${rejected.id}` });
+      rebuildBookAtDataIndex(index);
+      return;
+    }
+    store.replacePage(rejected.id, replacement);
+    void prerenderPageNarration(replacement);
+    trackStorylineEvent('pageRegenerated', { pageId: replacement.id, pageIndex: index, note: `Replaced ${rejected.id}` });
+
+    const oldEl = document.querySelector<HTMLElement>(`.page[data-page-id="${CSS.escape(rejected.id)}"]`);
+    if (oldEl) {
+      const newEl = buildStoryPageElement(replacement, oldEl.dataset.isFinal === 'true');
+      // Keep the flip state (active/flipped) of the page being replaced
+      newEl.className = oldEl.className;
+      oldEl.replaceWith(newEl);
+      attachOptionHandlers(newEl);
+      const domIndex = Array.from(getPages()).indexOf(newEl);
+      ensureDomPageImageLoaded(newEl, domIndex).catch(() => {});
+      if (domIndex === currentPageIndex) {
+        void startPageNarrationForDomIndex(domIndex);
+      }
+    }
+    refreshPageControls();
+    schedulePrefetchForCurrentPage();
+  } catch (err) {
+    console.error('[Story] Page rewrite failed', err);
+    setOverlayError(overlay, err instanceof Error ? err.message : ui('rewriteFailed'));
+    await delay(1400);
+  } finally {
+    removeInlineLoadingOverlay(overlay);
+  }
+}
+
+// Choice tree
+
+/**
+ * The story's choice tree, built from the linear pages (and telemetry choices)
+ * for stories saved before branching existed. Not written to the store here.
+ */
+function ensureStoryTree(story: Story): StoryTree {
+  if (story.tree) return story.tree;
+  const pages = story.structure?.pages ?? [];
+  const path = buildStoryPath(pages);
+  const nodes: Record<string, StoryTreeNode> = {};
+  pages.forEach((page, idx) => {
+    const chosen = idx > 0 ? path[idx - 1]?.chosenOption : undefined;
+    const node: StoryTreeNode = {
+      pageId: page.id,
+      parentId: pages[idx - 1]?.id ?? null,
+      chosenOptionId: chosen?.id ?? null,
+      createdAt: story.createdAt,
+    };
+    if (chosen) node.chosenOptionText = chosen.text;
+    if (idx === pages.length - 1 && story.state) node.state = story.state;
+    nodes[page.id] = node;
+  });
+  return {
+    rootId: pages[0]?.id ?? '',
+    activeLeafId: pages[pages.length - 1]?.id ?? '',
+    nodes,
+    offPathPages: {},
+  };
+}
+
+function isChoiceExplored(optionId: string): boolean {
+  const story = store.getState().story;
+  const pages = story?.structure?.pages ?? [];
+  const dataIndex = mapDomToDataIndex(currentPageIndex);
+  const page = pages[dataIndex];
+  if (!story || !page || dataIndex >= pages.length - 1) return false;
+  if (story.structure?.graph) return true;
+  return Boolean(findExploredChoice(ensureStoryTree(story), page.id, optionId));
+}
+
+/**
+ * Rebuild the book along the active path and open it at `dataIndex` without a flip
+ * animation. Used after going back and after switching timelines.
+ */
+function rebuildBookAtDataIndex(dataIndex: number): void {
+  stopCoverAudio();
+  stopPageAudio();
+  cancelPrefetches();
+  buildStoryFromStore();
+  loadStoryMetadata();
+  attachOptionHandlers();
+  const pagesNow = getPages();
+  const target = Math.max(1, Math.min(pagesNow.length - 1, dataIndex + 1));
+  pagesNow.forEach((el, idx) => {
+    el.classList.remove('active', 'behind', 'flipping-out', 'flipped');
+    if (idx < target) el.classList.add('flipped');
+  });
+  const targetEl = pagesNow[target];
+  if (!targetEl) return;
+  targetEl.classList.add('active');
+  currentPageIndex = target;
+  ensureDomPageImageLoaded(targetEl, target).catch(() => {});
+  schedulePrefetchForCurrentPage();
+}
+
+/**
+ * "Back" control on every page after the first. Going back only changes the view;
+ * the branch is cut when the reader picks a different option there.
+ */
+function buildBackControl(pageId: string): HTMLElement {
+  const back = createElement('button', 'page-back');
+  back.type = 'button';
+  back.textContent = ui('back');
+  back.title = ui('goBack');
+  back.addEventListener('click', (event) => {
+    event.stopPropagation();
+    const pages = store.getState().story?.structure?.pages ?? [];
+    const index = pages.findIndex(p => p.id === pageId);
+    if (index > 0) rebuildBookAtDataIndex(index - 1);
+  });
+  return back;
+}
+
+/**
+ * Timelines panel: one entry per leaf of the choice tree; picking one makes it the
+ * active branch and opens the book at its last page.
+ */
+function toggleTimelinePanel(): void {
+  const panel = document.getElementById('timelinePanel');
+  const story = store.getState().story;
+  if (!panel || !story?.tree) return;
+  if (!panel.hidden) {
+    panel.hidden = true;
+    return;
+  }
+  const tree = story.tree;
+  panel.innerHTML = '';
+  getTimelineLeaves(tree).forEach((leaf, index) => {
+    const depth = collectTreePath(tree, leaf.pageId).length;
+    const item = createElement('button', 'timeline-item');
+    item.type = 'button';
+    if (leaf.pageId === tree.activeLeafId) item.classList.add('active');
+    const title = createElement('span', 'timeline-title');
+    const pageCount = depth === 1 ? ui('onePage') : ui('pageCount', { count: String(depth) });
+    title.textContent = `${ui('timeline', { index: String(index + 1) })} · ${pageCount}`;
+    const detail = createElement('span', 'timeline-detail');
+    detail.textContent = leaf.chosenOptionText ? ui('lastChoice', { choice: leaf.chosenOptionText }) : ui('openingPage');
+    item.appendChild(title);
+    item.appendChild(detail);
+    item.addEventListener('click', () => {
+      panel.hidden = true;
+      store.switchBranch(leaf.pageId);
+      rebuildBookAtDataIndex(depth - 1);
+    });
+    panel.appendChild(item);
+  });
+  panel.hidden = false;
+}
+
+// Narration preferences
+
+// The voices the server can narrate with, fetched once per genre and language
+let voiceCatalogRequest: { query: string; catalog: Promise<SpeechVoiceCatalog | null> } | null = null;
+
+function fetchVoiceCatalog(): Promise<SpeechVoiceCatalog | null> {
+  const story = store.getState().story;
+  const params = new URLSearchParams();
+  const genre = getStoryGenre();
+  if (genre) params.set('genre', genre);
+  if (story?.configuration?.language) params.set('language', story.configuration.language);
+  const query = params.toString();
+  if (voiceCatalogRequest?.query !== query) {
+    const catalog = fetch(`/api/speech/voices?${query}`)
+      .then(async resp => (resp.ok ? await resp.json() as SpeechVoiceCatalog : null))
+      .catch(() => null);
+    voiceCatalogRequest = { query, catalog };
+  }
+  return voiceCatalogRequest.catalog;
+}
+
+/**
+ * Keep the reader's narration choice on the story. Audio rendered in the old voice is
+ * no longer the page's narration, and the page playing now stops.
+ */
+function updateNarrationPreferences(partial: NarrationPreferences): void {
+  const narration: NarrationPreferences = { ...getNarrationPreferences(), ...partial };
+  if (!narration.voiceId) delete narration.voiceId;
+  store.updateStory({ narration });
+  if ('voiceId' in partial) pageAudioUrls.clear();
+  stopPageAudio();
+  stopCoverAudio();
+}
+
+async function toggleNarrationPanel(): Promise<void> {
+  const panel = document.getElementById('narrationPanel');
+  if (!panel || !store.getState().story) return;
+  if (!panel.hidden) {
+    panel.hidden = true;
+    return;
+  }
+  panel.innerHTML = '';
+  panel.hidden = false;
+
+  const voiceLabel = createElement('label', 'narration-field');
+  voiceLabel.textContent = ui('narratorVoice');
+  const voiceSelect = createElement('select', 'narration-select');
+  voiceSelect.disabled = true;
+  voiceLabel.appendChild(voiceSelect);
+
+  const rateLabel = createElement('label', 'narration-field');
+  rateLabel.textContent = ui('playbackSpeed');
+  const rateSelect = createElement('select', 'narration-select');
+  NARRATION_RATES.forEach(rate => {
+    const option = createElement('option');
+    option.value = String(rate);
+    option.textContent = `${rate}×`;
+    option.selected = rate === getNarrationRate();
+    rateSelect.appendChild(option);
+  });
+  rateSelect.addEventListener('change', () => updateNarrationPreferences({ rate: Number(rateSelect.value) }));
+  rateLabel.appendChild(rateSelect);
+
+  panel.appendChild(voiceLabel);
+  panel.appendChild(rateLabel);
+
+  const catalog = await fetchVoiceCatalog();
+  if (!catalog) {
+    const note = createElement('span', 'narration-note');
+    note.textContent = ui('voicesUnavailable');
+    voiceLabel.replaceWith(note);
+    return;
+  }
+  const defaultName = catalog.voices.find(v => v.id === catalog.narratorVoiceId)?.label;
+  const defaultOption = createElement('option');
+  defaultOption.value = '';
+  defaultOption.textContent = defaultName ? `${ui('defaultVoice')} (${defaultName})` : ui('defaultVoice');
+  voiceSelect.appendChild(defaultOption);
+  const chosen = getNarrationPreferences().voiceId;
+  catalog.voices.forEach(voice => {
+    const option = createElement('option');
+    option.value = voice.id;
+    option.textContent = [voice.label, voice.accent, voice.style].filter(Boolean).join(' · ');
+    option.selected = voice.id === chosen;
+    voiceSelect.appendChild(option);
+  });
+  voiceSelect.disabled = false;
+  voiceSelect.addEventListener('change', () => updateNarrationPreferences({ voiceId: voiceSelect.value || undefined }));
+}
+
+// Graph mode
+
+function findGraphNode(graph: StoryGraph | undefined, pageId: string): StoryGraphNode | undefined {
+  return graph?.nodes.find(n => n.id === pageId);
+}
+
+function isGraphEnding(page: StoryPage): boolean {
+  return typeof (page as StoryGraphNode).endingIndex === 'number';
+}
+
+/**
+ * Generate the whole choice graph for graph mode. The reader starts on `startPageId`
+ * and each choice appends the node its edge points at.
+ */
+export async function fetchStoryGraph(definition: StoryDefinition): Promise<StoryGraph> {
+  const cfg = store.getState().story?.configuration;
+  const response = await fetch('/api/story/graph', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ definition, configuration: cfg }),
+  });
+  if (!response.ok) {
+    throw (await readContentRejection(response)) ?? new Error(`Story graph request failed (${response.status})`);
+  }
+  return (await response.json()) as StoryGraph;
+}
+
+// Prefetch
+const PREFETCH_CONCURRENCY = 2;
+
+interface NextPageResult {
+  state: StoryState | null;
+  page: StoryPage;
+}
+
+interface PrefetchEntry {
+  pageId: string;
+  optionId: string;
+  controller: AbortController;
+  promise: Promise<NextPageResult>;
+  start: () => void;
+  started: boolean;
+  done: boolean;
+}
+
+// Keyed by `${pageId}:${optionId}`; only ever holds entries for the frontier page
+const prefetchEntries = new Map<string, PrefetchEntry>();
+let prefetchRunning = 0;
+
+/**
+ * Queue speculative generation of the next page for every selectable option on the
+ * current page. Only the newest page is prefetched and never the final one.
+ */
+function schedulePrefetchForCurrentPage(): void {
+  const story = store.getState().story;
+  const definition = story?.definition;
+  const pages = story?.structure?.pages ?? [];
+  const dataIndex = mapDomToDataIndex(currentPageIndex);
+  const page = pages[dataIndex];
+  // Graph mode pages already exist; nothing to generate
+  if (!definition || !page || story?.structure?.graph) return;
+  if (currentPageIndex === 0 || dataIndex !== pages.length - 1) return;
+  const policy = getPagePolicy(story?.configuration?.length);
+  if (dataIndex >= policy.maxPages - 1) return;
+
+  for (const option of collectPrefetchableOptions(page, story?.state)) {
+    const key = `${page.id}:${option.id}`;
+    if (prefetchEntries.has(key)) continue;
+    prefetchEntries.set(key, createPrefetchEntry(definition, page, dataIndex, option));
+  }
+  pumpPrefetchQueue();
+}
+
+/**
+ * Options a reader can click straight through to a new page: unlocked goToNextPage
+ * choices, including those nested in a branch. Typed actions cannot be guessed.
+ */
+function collectPrefetchableOptions(page: StoryPage, state: StoryState | null | undefined): OptionObject[] {
+  const out: OptionObject[] = [];
+  for (const option of page.options) {
+    if (!meetsRequirements(option.requires, state)) continue;
+    if (option.action?.type === 'goToNextPage') {
+      out.push(option);
+    } else if (option.action?.type === 'branch') {
+      out.push(...option.action.options.filter(o => o.action?.type === 'goToNextPage' && meetsRequirements(o.requires, state)));
+    }
+  }
+  return out;
+}
+
+function createPrefetchEntry(definition: StoryDefinition, page: StoryPage, dataIndex: number, option: OptionObject): PrefetchEntry {
+  const controller = new AbortController();
+  let resolve!: (value: NextPageResult) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<NextPageResult>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Cancelled or failed prefetches are expected; the click path falls back to a live request
+  promise.catch(() => {});
+  const entry: PrefetchEntry = {
+    pageId: page.id,
+    optionId: option.id,
+    controller,
+    promise,
+    started: false,
+    done: false,
+    start: () => {
+      entry.started = true;
+      prefetchRunning++;
+      requestNextPage(definition, page, dataIndex, option, controller.signal)
+        .then(result => {
+          entry.done = true;
+          resolve(result);
+        }, reject)
+        .finally(() => {
+          prefetchRunning--;
+          pumpPrefetchQueue();
+        });
+    },
+  };
+  return entry;
+}
+
+function pumpPrefetchQueue(): void {
+  for (const entry of prefetchEntries.values()) {
+    if (prefetchRunning >= PREFETCH_CONCURRENCY) return;
+    if (!entry.started) entry.start();
+  }
+}
+
+/**
+ * Abort and forget every prefetch except `keepKey` (navigation, or a choice was made).
+ */
+function cancelPrefetches(keepKey?: string): void {
+  for (const [key, entry] of prefetchEntries) {
+    if (key === keepKey) continue;
+    entry.controller.abort();
+    prefetchEntries.delete(key);
+  }
+}
+
+/**
+ * Claim the prefetch for a chosen option and cancel its siblings. Returns null when
+ * nothing was started for it, so the caller issues a live request.
+ */
+function takePrefetchedPage(pageId: string, optionId: string): Promise<NextPageResult> | null {
+  const key = `${pageId}:${optionId}`;
+  const entry = prefetchEntries.get(key);
+  cancelPrefetches(key);
+  prefetchEntries.delete(key);
+  return entry?.started ? entry.promise : null;
+}
+
+function isPrefetchReady(optionId: string): boolean {
+  for (const entry of prefetchEntries.values()) {
+    if (entry.optionId === optionId && entry.done) return true;
+  }
+  return false;
+}
+
+// A recorded choice with the action type of the option it came from; ids not on the page were typed
+function pathChoice(page: StoryPage, id: string, text: string): StoryPathEntry['chosenOption'] {
+  for (const option of page.options ?? []) {
+    if (option.id === id) return { id, text, action: { type: option.action.type } };
+    if (option.action?.type === 'branch') {
+      const nested = option.action.options.find(o => o.id === id);
+      if (nested) return { id, text, action: { type: nested.action.type } };
+    }
+  }
+  return { id, text, action: { type: 'freeText' } };
+}
+
+/**
+ * Build the ordered reading history for /api/story/step.
+ * Earlier choices come from telemetry; the last page uses the option just selected.
+ */
+function buildStoryPath(pages: StoryPage[], selectedOption?: OptionObject): StoryPathEntry[] {
+  const selections = getCurrentTelemetry().optionSelections;
+  const story = store.getState().story;
+  const tree = story?.tree;
+  const activePages = story?.structure?.pages ?? [];
+  return pages.map((page, idx) => {
+    const entry: StoryPathEntry = { pageId: page.id, text: page.text };
+    if (idx === pages.length - 1 && selectedOption) {
+      entry.chosenOption = { id: selectedOption.id, text: selectedOption.text, action: { type: selectedOption.action.type } };
+      return entry;
+    }
+    // On a branching story the choice is the one that leads on along the active path
+    if (tree) {
+      const nextId = activePages[activePages.findIndex(p => p.id === page.id) + 1]?.id;
+      const next = nextId ? tree.nodes[nextId] : undefined;
+      if (next?.parentId === page.id && next.chosenOptionId) {
+        entry.chosenOption = pathChoice(page, next.chosenOptionId, next.chosenOptionText || '');
+        return entry;
+      }
+    }
+    // Latest selection recorded for this page wins
+    for (let i = selections.length - 1; i >= 0; i--) {
+      const sel = selections[i];
+      if (sel.pageId === page.id) {
+        entry.chosenOption = pathChoice(page, sel.optionId, sel.optionText || '');
+        break;
+      }
+    }
+    return entry;
+  });
+}
+
+/**
+ * State extraction followed by the step request for one option on the page at `dataPageIndex`.
+ * Nothing is written to the store, so the same call serves clicks and speculative prefetches.
+ */
+async function requestNextPage(
+  definition: StoryDefinition,
+  page: StoryPage,
+  dataPageIndex: number,
+  option: OptionObject,
+  signal?: AbortSignal,
+): Promise<NextPageResult> {
+  const pages = store.getState().story?.structure?.pages ?? [];
+  const path = buildStoryPath(pages.slice(0, dataPageIndex + 1), option);
+  // The step does not wait for the world-state extraction: the page just read is in the
+  // path verbatim and the option's effects are applied here, so the two run side by side.
+  // The extracted state is what the step after this one receives.
+  const previous = store.getState().story?.state ?? null;
+  // Before the first extraction there is no state yet; start from an empty one so the first choice's effects count
+  const provisional = option.effects?.length ? applyOptionEffects(previous ?? createEmptyStoryState(), option.effects) : previous;
+  const [extracted, nextPage] = await Promise.all([
+    fetchUpdatedStoryState(definition, page, option, signal),
+    fetchNextStoryPage(definition, option, pages.length, path, provisional, signal),
+  ]);
+  // Extraction failed: still honour the option's effects so gated choices stay consistent
+  return { state: extracted ?? provisional, page: nextPage };
+}
+
 /**
  * Fetch next story page (step) using the selected option as previousOption
+ * and the reading path so far for continuity
  */
-async function fetchNextStoryPage(definition: StoryDefinition, previousOption: OptionObject, stepIndex?: number): Promise<StoryPage> {
+async function fetchNextStoryPage(
+  definition: StoryDefinition,
+  previousOption: OptionObject,
+  stepIndex?: number,
+  path: StoryPathEntry[] = [],
+  state: StoryState | null = store.getState().story?.state ?? null,
+  signal?: AbortSignal,
+): Promise<StoryPage> {
   const cfg = store.getState().story?.configuration;
+  const memory = memoryForPages(store.getState().story?.memory, store.getState().story?.structure?.pages ?? []) ?? null;
+  const outline = store.getState().story?.outline ?? null;
   const response = await fetch('/api/story/step', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ definition, previousOption, stepIndex, configuration: cfg }),
+    body: JSON.stringify({ definition, previousOption, stepIndex, path, memory, state, outline, configuration: cfg }),
+    signal,
   });
   if (!response.ok) {
+    // A rejected typed action comes back as 400 with a reader-facing message
+    if (response.status === 400 && previousOption.action?.type === 'freeText') {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new FreeTextRejectedError(body?.error || 'That action could not be used. Try describing it differently.');
+    }
+    const rejection = await readContentRejection(response);
+    if (rejection) throw rejection;
     throw new Error(`Story page request failed (${response.status})`);
   }
   const data = (await response.json()) as StoryPage;
   return data;
 }
 
+/**
+ * Run the world-state extraction pass for the page just read and the chosen option.
+ * Returns null on failure so the next step proceeds with the previous state.
+ */
+async function fetchUpdatedStoryState(definition: StoryDefinition, page: StoryPage, chosenOption: OptionObject, signal?: AbortSignal): Promise<StoryState | null> {
+  try {
+    const resp = await fetch('/api/story/state', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        definition,
+        page: { id: page.id, text: page.text },
+        chosenOption: { id: chosenOption.id, text: chosenOption.text, action: chosenOption.action, effects: chosenOption.effects },
+        state: store.getState().story?.state ?? null,
+        configuration: store.getState().story?.configuration,
+      }),
+      signal,
+    });
+    if (!resp.ok) return null;
+    return (await resp.json()) as StoryState;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask the backend to fold pages that left the verbatim window into the story memory.
+ * Best-effort: on failure the next step simply receives more verbatim pages.
+ */
+async function refreshStoryMemory(): Promise<void> {
+  const story = store.getState().story;
+  const definition = story?.definition;
+  const pages = story?.structure?.pages ?? [];
+  if (!definition || pages.length === 0) return;
+  try {
+    const resp = await fetch('/api/story/memory', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        definition,
+        path: buildStoryPath(pages),
+        memory: memoryForPages(story?.memory, pages) ?? null,
+        configuration: story?.configuration,
+      }),
+    });
+    if (!resp.ok) return;
+    const memory = (await resp.json()) as StoryMemory;
+    // Ignore late responses for a story that has since been replaced or moved to another branch
+    const current = store.getState().story;
+    if (current?.id !== story?.id) return;
+    if (typeof memory?.synopsis === 'string' && memoryForPages(memory, current?.structure?.pages ?? [])) {
+      store.updateStory({ memory });
+    }
+  } catch {
+    // ignore; memory is an optimisation
+  }
+}
+
 /**
  * Determine page type based on data attributes and options
  */
@@ -2284,10 +3624,23 @@ async function handleOptionClick(event: Event): Promise<void> {
     // no-op for logging errors
   }
 
+  // Free-text submit: read the typed action; ignore empty submissions
+  const freeTextInput = button.dataset.freeText === 'true'
+    ? button.closest('.story-option-freetext')?.querySelector<HTMLInputElement>('.freetext-input') ?? null
+    : null;
+  const typedAction = freeTextInput?.value.trim().slice(0, FREE_TEXT_MAX_CHARS) ?? '';
+  if (freeTextInput && !typedAction) {
+    freeTextInput.focus();
+    return;
+  }
+  // The free-text submit sits inside its own form, so work on the whole options list
+  const optionsList = button.closest('.story-options') ?? optionsContainer;
+
   // Disable all options immediately to prevent multiple clicks
-  optionsContainer.querySelectorAll('.story-option').forEach(btn => {
+  optionsList.querySelectorAll('.story-option').forEach(btn => {
     (btn as HTMLButtonElement).disabled = true;
   });
+  if (freeTextInput) freeTextInput.disabled = true;
 
   // Mark selected option
   button.classList.add('selected');
@@ -2303,6 +3656,10 @@ async function handleOptionClick(event: Event): Promise<void> {
     // We're at the top level, look for the first conversation response
     responseElement = pageElement?.querySelector<HTMLElement>('.conversation-response:not(.shown)');
   }
+  // A typed action always moves the story on, even on conversation pages
+  if (freeTextInput) {
+    responseElement = null;
+  }
   
   const isConversation = !!responseElement;
   
@@ -2348,7 +3705,7 @@ async function handleOptionClick(event: Event): Promise<void> {
     }
   } else {
     // Non-conversation page - just disable non-selected options
-    optionsContainer.querySelectorAll('.story-option').forEach(btn => {
+    optionsList.querySelectorAll('.story-option').forEach(btn => {
       if (btn !== button) {
         btn.classList.add('disabled');
       }
@@ -2381,7 +3738,7 @@ async function handleOptionClick(event: Event): Promise<void> {
     // Non-conversation page: generate the next page from the selected option, then flip
     // If this is a final-page option, go directly to back cover
     if (isLastOption) {
-      const overlay = createInlineLoadingOverlay('Finalizing your book...');
+      const overlay = createInlineLoadingOverlay(ui('finalizingBook'));
       try {
         await setupBackCover();
         flipToBackCover();
@@ -2391,18 +3748,25 @@ async function handleOptionClick(event: Event): Promise<void> {
       return;
     }
     const selectedOptionId = button.dataset.option || '';
-    console.log('[Story] Showing loader for next page');
-    const overlay = createInlineLoadingOverlay('Generating next page...');
+    // Graph pages and finished prefetches swap in instantly, so skip the loader
+    let overlay: HTMLElement | null = null;
+    const graphMode = Boolean(store.getState().story?.structure?.graph);
+    if (typedAction || !(graphMode || isPrefetchReady(selectedOptionId) || isChoiceExplored(selectedOptionId))) {
+      console.log('[Story] Showing loader for next page');
+      overlay = createInlineLoadingOverlay(ui('generatingNextPage'));
+    }
     try {
-      await generateNextPageAndFlip(selectedOptionId, overlay);
+      await generateNextPageAndFlip(selectedOptionId, overlay ?? undefined, typedAction || undefined);
     } catch (err) {
       console.error('[Story] Next page generation failed', err);
-      setOverlayError(overlay, 'Failed to generate next page. Please try again.');
+      overlay = overlay ?? createInlineLoadingOverlay(ui('generatingNextPage'));
+      setOverlayError(overlay, err instanceof FreeTextRejectedError || err instanceof ContentRejectedError ? err.message : ui('nextPageFailed'));
       // Re-enable options so user can retry
-      optionsContainer.querySelectorAll('.story-option').forEach(btn => {
+      optionsList.querySelectorAll('.story-option:not(.locked)').forEach(btn => {
         (btn as HTMLButtonElement).disabled = false;
         (btn as HTMLElement).classList.remove('disabled', 'fade-out', 'hidden');
       });
+      if (freeTextInput) freeTextInput.disabled = false;
       button.classList.remove('selected');
       // Briefly show the error state
       await delay(900);
@@ -2451,6 +3815,102 @@ function startNewStory(): void {
   }
 }
 
+/**
+ * Text-only copy of a story for the sequel request and the series archive: image data
+ * and the renderer's metadata would only weigh down the payload and localStorage.
+ */
+function compactStoryForSeries(story: Story): Story {
+  const { metadata: _metadata, tree: _tree, ...rest } = story;
+  const structure = story.structure;
+  if (!structure) return rest;
+  return {
+    ...rest,
+    structure: {
+      frontCover: { title: structure.frontCover.title, tagline: structure.frontCover.tagline },
+      pages: structure.pages.map(({ id, text, options }) => ({ id, text, options })),
+      backCover: { summary: structure.backCover?.summary ?? '' },
+      ...(structure.graph
+        ? { graph: { ...structure.graph, nodes: structure.graph.nodes.map(({ image: _image, ...node }) => node) } }
+        : {}),
+    },
+  };
+}
+
+// Finished parts kept in localStorage; the oldest are dropped so the archive cannot fill the quota
+const SERIES_ARCHIVE_MAX_PARTS = 10;
+
+function archiveSeriesPart(story: Story): void {
+  const archive = readFromLocalStorage<Record<string, Story>>(STORAGE_KEYS.seriesArchive) ?? {};
+  archive[story.id] = story;
+  const kept = Object.values(archive)
+    .sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''))
+    .slice(0, SERIES_ARCHIVE_MAX_PARTS);
+  writeToLocalStorage(STORAGE_KEYS.seriesArchive, Object.fromEntries(kept.map(part => [part.id, part])));
+}
+
+/**
+ * "Continue the saga": write the next part from the ending just reached, link both
+ * records as a series, archive the finished part and open the new one.
+ */
+async function continueSaga(button: HTMLButtonElement): Promise<void> {
+  const story = store.getState().story;
+  if (!story?.definition || button.disabled) return;
+  button.disabled = true;
+  const overlay = createInlineLoadingOverlay(ui('writingSequel'));
+  try {
+    const finished = compactStoryForSeries(story);
+    const response = await fetch('/api/story/sequel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ story: finished }),
+    });
+    if (!response.ok) {
+      throw (await readContentRejection(response)) ?? new Error(`Sequel request failed (${response.status})`);
+    }
+    const sequel = (await response.json()) as {
+      storyId: string;
+      definition: StoryDefinition;
+      series: StorySeries;
+      previousSeries: StorySeries;
+    };
+    archiveSeriesPart({ ...finished, series: sequel.previousSeries });
+
+    // The recap is a nicety: the new part opens without one if it fails
+    const series: StorySeries = { ...sequel.series };
+    try {
+      const recapResponse = await fetch('/api/story/recap', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ series, definition: sequel.definition, configuration: story.configuration }),
+      });
+      if (recapResponse.ok) series.recap = ((await recapResponse.json()) as { recap: string }).recap;
+    } catch (error) {
+      console.warn('Series recap not available:', error);
+    }
+
+    const nowIso = new Date().toISOString();
+    store.setStory({
+      id: sequel.storyId,
+      status: 'ready',
+      createdAt: nowIso,
+      updatedAt: nowIso,
+      configuration: story.configuration,
+      definition: sequel.definition,
+      series,
+      metadata: { telemetry: { optionSelections: [], storyline: [] } },
+    });
+    try { localStorage.removeItem('storyMetadata'); } catch { /* ignore */ }
+    // The story page writes the opening page of a story that has only a definition
+    window.location.reload();
+  } catch (error) {
+    console.error('Sequel generation failed:', error);
+    alert(error instanceof ContentRejectedError ? error.message : ui('sequelFailed'));
+    button.disabled = false;
+  } finally {
+    removeInlineLoadingOverlay(overlay);
+  }
+}
+
 /**
  * Restart the book - reloads the page to start from the beginning
  */
@@ -2474,7 +3934,7 @@ async function exportToPDF(): Promise<void> {
     exportButton.classList.add('loading');
     const buttonText = exportButton.querySelector('span');
     if (buttonText) {
-      buttonText.textContent = 'Preparing...';
+      buttonText.textContent = ui('preparing');
     }
   }
 
@@ -2486,7 +3946,7 @@ async function exportToPDF(): Promise<void> {
     exportButton.classList.remove('loading');
     const buttonText = exportButton.querySelector('span');
     if (buttonText) {
-      buttonText.textContent = 'Export to PDF';
+      buttonText.textContent = ui('exportPdf');
     }
   }
 }
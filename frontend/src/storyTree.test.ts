@@ -0,0 +1,78 @@
+import { strict as assert } from 'node:assert';
+import { test } from 'node:test';
+import { cutPathAt, findExploredChoice, findLatestLeaf, getTimelineLeaves, memoryForPages, switchPathTo } from './storyTree';
+import type { StoryPage, StoryStructure, StoryTree, StoryTreeNode } from './types';
+
+function page(id: string): StoryPage {
+  return { id, text: `Page ${id}.`, options: [] } as unknown as StoryPage;
+}
+
+function node(pageId: string, parentId: string | null, chosenOptionId: string | null, createdAt: string): StoryTreeNode {
+  return { pageId, parentId, chosenOptionId, createdAt };
+}
+
+// a → b → c is active; a → x → y was read earlier and parked off-path
+function branchedStory(): { structure: StoryStructure; tree: StoryTree } {
+  const structure = {
+    frontCover: { title: 'The Drowned Bell', tagline: '' },
+    pages: [page('a'), page('b'), page('c')],
+    backCover: { summary: 'The bell fell silent.' },
+  } as StoryStructure;
+  const tree: StoryTree = {
+    rootId: 'a',
+    activeLeafId: 'c',
+    nodes: {
+      a: node('a', null, null, '2026-01-01T00:00:00.000Z'),
+      x: node('x', 'a', 'dive', '2026-01-01T00:01:00.000Z'),
+      y: node('y', 'x', 'swim', '2026-01-01T00:02:00.000Z'),
+      b: node('b', 'a', 'climb', '2026-01-01T00:03:00.000Z'),
+      c: node('c', 'b', 'ring', '2026-01-01T00:04:00.000Z'),
+    },
+    offPathPages: { x: page('x'), y: page('y') },
+  };
+  return { structure, tree };
+}
+
+test('switching timelines swaps the active path and parks the old one', () => {
+  const { structure, tree } = branchedStory();
+  const move = switchPathTo(structure, tree, 'y');
+  assert.ok(move);
+  assert.deepEqual(move.structure.pages.map(p => p.id), ['a', 'x', 'y']);
+  assert.equal(move.tree.activeLeafId, 'y');
+  assert.deepEqual(Object.keys(move.tree.offPathPages).sort(), ['b', 'c']);
+  // The old ending's back cover does not belong to the new path
+  assert.deepEqual(move.structure.backCover, { summary: '' });
+});
+
+test('a timeline with a missing page is not switched to', () => {
+  const { structure, tree } = branchedStory();
+  assert.equal(switchPathTo(structure, { ...tree, offPathPages: { x: page('x') } }, 'y'), null);
+  assert.equal(switchPathTo(structure, tree, 'nowhere'), null);
+});
+
+test('cutting the path parks later pages and clears the back cover', () => {
+  const { structure, tree } = branchedStory();
+  const move = cutPathAt(structure, tree, 'b');
+  assert.ok(move);
+  assert.deepEqual(move.structure.pages.map(p => p.id), ['a', 'b']);
+  assert.equal(move.tree.activeLeafId, 'b');
+  assert.ok(move.tree.offPathPages.c);
+  assert.deepEqual(move.structure.backCover, { summary: '' });
+  // Cutting at the last page changes nothing the back cover describes
+  assert.equal(cutPathAt(structure, tree, 'c')?.structure.backCover.summary, 'The bell fell silent.');
+});
+
+test('explored choices lead back to the newest leaf of their branch', () => {
+  const { tree } = branchedStory();
+  assert.equal(findExploredChoice(tree, 'a', 'dive')?.pageId, 'x');
+  assert.equal(findExploredChoice(tree, 'a', 'swim'), undefined);
+  assert.equal(findLatestLeaf(tree, 'x'), 'y');
+  assert.deepEqual(getTimelineLeaves(tree).map(n => n.pageId), ['y', 'c']);
+});
+
+test('memory is kept only while its last page is on the path', () => {
+  const memory = { synopsis: 'Mara dove.', summarizedPageCount: 2, throughPageId: 'x' };
+  assert.equal(memoryForPages(memory, [page('a'), page('x'), page('y')]), memory);
+  assert.equal(memoryForPages(memory, [page('a'), page('b'), page('c')]), undefined);
+  assert.equal(memoryForPages({ synopsis: 'Mara dove.', summarizedPageCount: 2 }, [page('a'), page('x')]), undefined);
+});
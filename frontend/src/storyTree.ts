@@ -0,0 +1,103 @@
+/**
+ * Choice tree helpers: which pages make up a timeline, and how the active path
+ * changes when the reader branches or switches timelines. No DOM or storage here;
+ * the store applies the results.
+ */
+
+import type { BackCover, StoryMemory, StoryPage, StoryStructure, StoryTree, StoryTreeNode } from './types';
+
+/**
+ * The active path after a tree move, with pages that left it parked off-path.
+ */
+export interface StoryTreeMove {
+  structure: StoryStructure;
+  tree: StoryTree;
+}
+
+// Page ids from the root down to `leafId`
+export function collectTreePath(tree: StoryTree, leafId: string): string[] {
+  const ids: string[] = [];
+  const seen = new Set<string>();
+  for (let id: string | null = leafId; id && !seen.has(id); id = tree.nodes[id]?.parentId ?? null) {
+    seen.add(id);
+    ids.unshift(id);
+  }
+  return ids;
+}
+
+// Memory only stays valid while the last page it summarizes is at the same place on the active path
+export function memoryForPages(memory: StoryMemory | null | undefined, pages: StoryPage[]): StoryMemory | undefined {
+  if (!memory?.throughPageId || memory.summarizedPageCount <= 0) return undefined;
+  return pages[memory.summarizedPageCount - 1]?.id === memory.throughPageId ? memory : undefined;
+}
+
+export function getTreeChildren(tree: StoryTree, pageId: string): StoryTreeNode[] {
+  return Object.values(tree.nodes)
+    .filter(n => n.parentId === pageId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// The page an option already led to, so choosing it again revisits instead of regenerating
+export function findExploredChoice(tree: StoryTree, pageId: string, optionId: string): StoryTreeNode | undefined {
+  return getTreeChildren(tree, pageId).find(n => n.chosenOptionId === optionId);
+}
+
+// Follow the newest child until a leaf: where the reader last was on that branch
+export function findLatestLeaf(tree: StoryTree, pageId: string): string {
+  let id = pageId;
+  for (let children = getTreeChildren(tree, id); children.length > 0; children = getTreeChildren(tree, id)) {
+    id = children[children.length - 1]!.pageId;
+  }
+  return id;
+}
+
+export function getTimelineLeaves(tree: StoryTree): StoryTreeNode[] {
+  const parents = new Set(Object.values(tree.nodes).map(n => n.parentId));
+  return Object.values(tree.nodes)
+    .filter(n => !parents.has(n.pageId))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The back cover belongs to the ending it summarizes; once the path ends elsewhere
+ * it is blanked so the next ending writes its own.
+ */
+export function backCoverForPath(structure: StoryStructure, pages: StoryPage[]): BackCover {
+  const sameEnd = pages[pages.length - 1]?.id === structure.pages[structure.pages.length - 1]?.id;
+  return sameEnd ? structure.backCover : { summary: '' };
+}
+
+/**
+ * Cut the active path back to `pageId`; the pages after it are parked off-path.
+ */
+export function cutPathAt(structure: StoryStructure, tree: StoryTree, pageId: string): StoryTreeMove | null {
+  const index = structure.pages.findIndex(p => p.id === pageId);
+  if (index < 0) return null;
+  const pages = structure.pages.slice(0, index + 1);
+  const offPathPages = { ...tree.offPathPages };
+  structure.pages.slice(index + 1).forEach(p => { offPathPages[p.id] = p; });
+  return {
+    structure: { ...structure, pages, backCover: backCoverForPath(structure, pages) },
+    tree: { ...tree, activeLeafId: pageId, offPathPages },
+  };
+}
+
+/**
+ * Make the timeline ending at `leafId` the active path. Null when the leaf is
+ * unknown or one of its pages is missing.
+ */
+export function switchPathTo(structure: StoryStructure, tree: StoryTree, leafId: string): StoryTreeMove | null {
+  if (!tree.nodes[leafId]) return null;
+  const ids = collectTreePath(tree, leafId);
+  const onPath = new Map(structure.pages.map(p => [p.id, p] as const));
+  const pages = ids.map(id => onPath.get(id) ?? tree.offPathPages[id]);
+  if (pages.some(p => !p)) return null;
+  const offPathPages = { ...tree.offPathPages };
+  structure.pages.forEach(p => { offPathPages[p.id] = p; });
+  ids.forEach(id => { delete offPathPages[id]; });
+  const path = pages as StoryPage[];
+  return {
+    structure: { ...structure, pages: path, backCover: backCoverForPath(structure, path) },
+    tree: { ...tree, activeLeafId: leafId, offPathPages },
+  };
+}